@@ -0,0 +1,367 @@
+/**
+ * Accessible Name
+ * Computes accessible names and descriptions following Accessible Name and
+ * Description Computation 1.2 (accname)
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { ariaRoles, type AriaRoleDefinition } from './aria-model';
+import { getElementRole, isHiddenFromAccessibility } from './dom';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface TraversalState {
+  /** Nodes already visited, to break aria-labelledby cycles */
+  visited: Set<Node>;
+  /** Whether the node is reached while following aria-labelledby/describedby */
+  inReference: boolean;
+  /** Whether the node is the target of an aria-labelledby/describedby reference */
+  isReferenced: boolean;
+  /** Whether the node is a descendant reached by name-from-content recursion */
+  isRecursion: boolean;
+  /** Whether the node is inside a hidden referenced subtree */
+  inHiddenReference: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const roles: Record<string, AriaRoleDefinition> = ariaRoles;
+
+const EMBEDDED_CONTROL_ROLES = new Set([
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'range',
+  'progressbar',
+  'scrollbar',
+  'slider',
+  'spinbutton',
+  'meter',
+]);
+
+const BUTTON_INPUT_DEFAULTS: Record<string, string> = {
+  submit: 'Submit',
+  reset: 'Reset',
+};
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function getReferencedElements(element: Element, attribute: string): Element[] {
+  const ids = element.getAttribute(attribute)?.split(/\s+/).filter(Boolean) ?? [];
+  const root = element.getRootNode() as Document | ShadowRoot;
+  return ids
+    .map((id) => root.getElementById?.(id) ?? element.ownerDocument.getElementById(id))
+    .filter((node): node is HTMLElement => node !== null);
+}
+
+function isInline(element: Element): boolean {
+  const display = element.ownerDocument.defaultView?.getComputedStyle(element).display ?? '';
+  return display === '' || display === 'inline' || display === 'contents';
+}
+
+function allowsNameFromContent(role: string | null): boolean {
+  return role !== null && roles[role]?.nameFrom === 'contents';
+}
+
+function isPresentational(role: string | null): boolean {
+  return role === 'presentation' || role === 'none';
+}
+
+/**
+ * Native label sources (step 2D): `<label>`, `alt`, `<legend>`, `<caption>`,
+ * `<figcaption>`, SVG `<title>` and button-like input values
+ */
+function getNativeName(element: Element, state: TraversalState): string {
+  if (element instanceof HTMLInputElement) {
+    const type = element.type;
+    if (type === 'button' || type === 'submit' || type === 'reset') {
+      return element.value || BUTTON_INPUT_DEFAULTS[type] || '';
+    }
+    if (type === 'image') {
+      return element.alt || element.value || 'Submit Query';
+    }
+  }
+
+  if (
+    element instanceof HTMLInputElement ||
+    element instanceof HTMLSelectElement ||
+    element instanceof HTMLTextAreaElement ||
+    element instanceof HTMLMeterElement ||
+    element instanceof HTMLOutputElement ||
+    element instanceof HTMLProgressElement ||
+    element instanceof HTMLButtonElement
+  ) {
+    const labels = Array.from(element.labels ?? []);
+    if (labels.length > 0) {
+      return labels
+        .map((label) =>
+          computeTextAlternative(label, { ...state, isRecursion: true, isReferenced: false })
+        )
+        .filter(Boolean)
+        .join(' ');
+    }
+  }
+
+  if (element instanceof HTMLImageElement || element instanceof HTMLAreaElement) {
+    return element.getAttribute('alt') ?? '';
+  }
+
+  const childSource: Record<string, string> = {
+    fieldset: 'legend',
+    table: 'caption',
+    figure: 'figcaption',
+  };
+  const childTag = childSource[element.localName];
+  if (childTag) {
+    const child = Array.from(element.children).find((node) => node.localName === childTag);
+    return child
+      ? computeTextAlternative(child, { ...state, isRecursion: true, isReferenced: false })
+      : '';
+  }
+
+  if (element instanceof SVGElement) {
+    const title = Array.from(element.children).find((node) => node.localName === 'title');
+    return title?.textContent ?? '';
+  }
+
+  return '';
+}
+
+/**
+ * The value of an embedded control when it is part of another element's name
+ * (step 2E)
+ */
+function getEmbeddedControlValue(element: Element, role: string | null): string | null {
+  if (!role || !EMBEDDED_CONTROL_ROLES.has(role)) {
+    return null;
+  }
+
+  if (role === 'textbox' || role === 'searchbox') {
+    if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+      return element.value;
+    }
+    return element.textContent ?? '';
+  }
+
+  if (role === 'combobox' || role === 'listbox') {
+    if (element instanceof HTMLSelectElement) {
+      return Array.from(element.selectedOptions)
+        .map((option) => option.text)
+        .join(' ');
+    }
+    if (element instanceof HTMLInputElement) {
+      return element.value;
+    }
+    const selected = element.querySelectorAll('[role="option"][aria-selected="true"]');
+    return Array.from(selected)
+      .map((option) => option.textContent ?? '')
+      .join(' ');
+  }
+
+  const valueText = element.getAttribute('aria-valuetext');
+  if (valueText) {
+    return valueText;
+  }
+  const valueNow = element.getAttribute('aria-valuenow');
+  if (valueNow) {
+    return valueNow;
+  }
+  return element instanceof HTMLInputElement ? element.value : '';
+}
+
+/**
+ * Concatenates the text alternatives of an element's children (step 2F)
+ */
+function getNameFromContent(element: Element, state: TraversalState): string {
+  let children: Node[] = Array.from(element.shadowRoot?.childNodes ?? element.childNodes);
+  if (element instanceof HTMLSlotElement && element.assignedNodes().length > 0) {
+    children = element.assignedNodes();
+  }
+
+  let result = '';
+  for (const child of children) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      result += child.textContent ?? '';
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      const childElement = child as Element;
+      const text = computeTextAlternative(childElement, {
+        ...state,
+        isRecursion: true,
+        isReferenced: false,
+      });
+      result += isInline(childElement) ? text : ` ${text} `;
+    }
+  }
+  return result;
+}
+
+/**
+ * The recursive text alternative computation (accname 1.2 step 2)
+ */
+function computeTextAlternative(element: Element, state: TraversalState): string {
+  if (state.visited.has(element) && !state.isReferenced) {
+    return '';
+  }
+  state.visited.add(element);
+
+  // 2A: hidden nodes contribute nothing unless they are directly referenced
+  const hidden = isHiddenFromAccessibility(element);
+  if (hidden && !state.isReferenced && !state.inHiddenReference) {
+    return '';
+  }
+  const inHiddenReference = state.inHiddenReference || (hidden && state.isReferenced);
+
+  // 2B: aria-labelledby, unless already following a reference
+  if (!state.inReference) {
+    const references = getReferencedElements(element, 'aria-labelledby');
+    if (references.length > 0) {
+      return references
+        .map((reference) =>
+          computeTextAlternative(reference, {
+            ...state,
+            inReference: true,
+            isReferenced: true,
+            isRecursion: false,
+            inHiddenReference: false,
+          })
+        )
+        .filter(Boolean)
+        .join(' ');
+    }
+  }
+
+  const role = getElementRole(element);
+  const next: TraversalState = { ...state, inHiddenReference };
+
+  // 2C/2E: embedded controls contribute their value when part of another name
+  if (state.isRecursion || state.inReference) {
+    const value = getEmbeddedControlValue(element, role);
+    if (value !== null) {
+      return value;
+    }
+  }
+
+  // 2C: aria-label
+  const label = element.getAttribute('aria-label')?.trim();
+  if (label) {
+    return label;
+  }
+
+  // 2D: native host language label, unless the element is presentational
+  if (!isPresentational(role)) {
+    const native = getNativeName(element, next);
+    if (native.trim()) {
+      return native;
+    }
+  }
+
+  // 2F: name from content
+  if (allowsNameFromContent(role) || state.isRecursion || state.isReferenced) {
+    const content = getNameFromContent(element, next);
+    if (content.trim()) {
+      return content;
+    }
+  }
+
+  // 2I: tooltip attribute, then placeholder
+  const title = element.getAttribute('title');
+  if (title?.trim()) {
+    return title;
+  }
+  if (!state.isRecursion) {
+    const placeholder =
+      element.getAttribute('placeholder') ?? element.getAttribute('aria-placeholder');
+    if (placeholder?.trim()) {
+      return placeholder;
+    }
+  }
+
+  return '';
+}
+
+function createState(): TraversalState {
+  return {
+    visited: new Set(),
+    inReference: false,
+    isReferenced: false,
+    isRecursion: false,
+    inHiddenReference: false,
+  };
+}
+
+// ============================================================================
+// Computation
+// ============================================================================
+
+/**
+ * Computes the accessible name of an element
+ * Follows accname 1.2: `aria-labelledby` (including hidden referenced content),
+ * `aria-label`, native labels (`<label>`, `alt`, `<legend>`, `<caption>`...),
+ * name from content for roles that allow it, then `title` and `placeholder`.
+ * Visually hidden content (e.g. styled with `srOnly`) still counts; content
+ * hidden with `aria-hidden`, `hidden` or `display: none` does not.
+ *
+ * @param element - The element to name
+ * @returns The accessible name with whitespace normalized, or an empty string
+ *
+ * @example
+ * ```ts
+ * // <button><svg aria-hidden="true" /><span style="...srOnly">Close</span></button>
+ * computeAccessibleName(button); // 'Close'
+ * ```
+ */
+export function computeAccessibleName(element: Element): string {
+  return normalize(computeTextAlternative(element, createState()));
+}
+
+/**
+ * Computes the accessible description of an element
+ * Uses `aria-describedby` (including hidden referenced content), then
+ * `aria-description`, then `title` when it was not already used as the name.
+ *
+ * @param element - The element to describe
+ * @returns The accessible description with whitespace normalized, or an empty string
+ *
+ * @example
+ * ```ts
+ * // <input aria-describedby="hint" /><p id="hint">At least 8 characters</p>
+ * computeAccessibleDescription(input); // 'At least 8 characters'
+ * ```
+ */
+export function computeAccessibleDescription(element: Element): string {
+  const references = getReferencedElements(element, 'aria-describedby');
+  if (references.length > 0) {
+    const state = createState();
+    return normalize(
+      references
+        .map((reference) =>
+          computeTextAlternative(reference, {
+            ...state,
+            inReference: true,
+            isReferenced: true,
+          })
+        )
+        .filter(Boolean)
+        .join(' ')
+    );
+  }
+
+  const description = element.getAttribute('aria-description');
+  if (description?.trim()) {
+    return normalize(description);
+  }
+
+  const title = element.getAttribute('title');
+  if (title?.trim() && normalize(title) !== computeAccessibleName(element)) {
+    return normalize(title);
+  }
+
+  return '';
+}
@@ -0,0 +1,235 @@
+/**
+ * Accordion
+ * Coordinated disclosures with single or multiple expansion, heading
+ * wrappers, labelled region panels and arrow-key navigation between headers
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useId, type KeyboardEvent } from 'react';
+import {
+  createDisclosureProps,
+  createLabelledByProps,
+  type AccessibilityProps,
+  type DisclosureProps,
+} from './index';
+import { focusElement } from './dom';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for useAccordion
+ */
+export interface UseAccordionOptions {
+  /** IDs of the sections, in display order */
+  items: string[];
+  /** Whether several sections can be expanded at once (default: false) */
+  multiple?: boolean;
+  /** Whether the last expanded section can be collapsed (default: true) */
+  allowCollapseAll?: boolean;
+  /** Expanded sections in controlled mode */
+  expandedIds?: string[];
+  /**
+   * Initially expanded sections in uncontrolled mode (default: none, or the
+   * first section when `allowCollapseAll` is false)
+   */
+  defaultExpandedIds?: string[];
+  /** Called whenever sections expand or collapse */
+  onExpandedChange?: (ids: string[]) => void;
+  /** `aria-level` of the headings wrapping the triggers (default: 3) */
+  headingLevel?: 1 | 2 | 3 | 4 | 5 | 6;
+  /**
+   * Largest number of sections whose panels are exposed as `region`
+   * landmarks; above it, panels get no role so landmarks do not proliferate
+   * (default: 6)
+   */
+  regionThreshold?: number;
+  /** Base ID for the triggers and panels; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Options for a single section
+ */
+export interface AccordionItemOptions {
+  /** Whether the section's trigger is disabled */
+  disabled?: boolean;
+}
+
+/**
+ * Props for the heading wrapping a trigger, for non-heading elements
+ */
+export interface AccordionHeadingProps extends AccessibilityProps {
+  role: 'heading';
+  'aria-level': number;
+}
+
+/**
+ * Props for a section trigger
+ */
+export interface AccordionTriggerProps extends DisclosureProps {
+  id: string;
+  type: 'button';
+  onClick: () => void;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+}
+
+/**
+ * Props for a section panel
+ */
+export interface AccordionPanelProps extends AccessibilityProps {
+  id: string;
+  hidden: boolean;
+  role?: 'region';
+}
+
+/**
+ * Return value of useAccordion
+ */
+export interface UseAccordionResult {
+  expandedIds: string[];
+  isExpanded: (id: string) => boolean;
+  expand: (id: string) => void;
+  collapse: (id: string) => void;
+  toggle: (id: string) => void;
+  getHeadingProps: () => AccordionHeadingProps;
+  getTriggerProps: (id: string, options?: AccordionItemOptions) => AccordionTriggerProps;
+  getPanelProps: (id: string) => AccordionPanelProps;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA accordion pattern
+ * Each trigger is a disclosure (see `createDisclosureProps`) inside a heading.
+ * With `multiple` false, expanding a section collapses the others; with
+ * `allowCollapseAll` false, the last expanded section cannot be collapsed and
+ * its trigger gets `aria-disabled`. ArrowDown and ArrowUp move focus between
+ * triggers (wrapping), Home and End to the first and last trigger.
+ *
+ * @param options - Configuration options
+ * @returns The expanded sections and prop getters
+ *
+ * @example
+ * ```tsx
+ * const accordion = useAccordion({ items: ['shipping', 'returns'] });
+ *
+ * <h3>
+ *   <button {...accordion.getTriggerProps('shipping')}>Shipping</button>
+ * </h3>
+ * <div {...accordion.getPanelProps('shipping')}>...</div>
+ * ```
+ */
+export function useAccordion(options: UseAccordionOptions): UseAccordionResult {
+  const {
+    items,
+    multiple = false,
+    allowCollapseAll = true,
+    headingLevel = 3,
+    regionThreshold = 6,
+  } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const getTriggerDomId = (id: string) => `${baseId}-trigger-${id}`;
+  const getPanelDomId = (id: string) => `${baseId}-panel-${id}`;
+
+  const [expandedIds, setExpandedIds] = useControllableState(
+    options.expandedIds,
+    options.defaultExpandedIds ?? (allowCollapseAll ? [] : items.slice(0, 1)),
+    options.onExpandedChange
+  );
+
+  const isExpanded = (id: string) => expandedIds.includes(id);
+  const isLocked = (id: string) =>
+    !allowCollapseAll && expandedIds.length === 1 && expandedIds[0] === id;
+
+  const expand = (id: string) => {
+    if (!isExpanded(id)) {
+      setExpandedIds(multiple ? [...expandedIds, id] : [id]);
+    }
+  };
+  const collapse = (id: string) => {
+    if (isExpanded(id) && !isLocked(id)) {
+      setExpandedIds(expandedIds.filter((expandedId) => expandedId !== id));
+    }
+  };
+  const toggle = (id: string) => (isExpanded(id) ? collapse(id) : expand(id));
+
+  const onKeyDown = (id: string, event: KeyboardEvent<HTMLElement>) => {
+    const index = items.indexOf(id);
+    let target: string | undefined;
+    switch (event.key) {
+      case 'ArrowDown':
+        target = items[(index + 1) % items.length];
+        break;
+      case 'ArrowUp':
+        target = items[(index - 1 + items.length) % items.length];
+        break;
+      case 'Home':
+        target = items[0];
+        break;
+      case 'End':
+        target = items[items.length - 1];
+        break;
+      default:
+        return;
+    }
+    if (target !== undefined) {
+      event.preventDefault();
+      focusElement(document.getElementById(getTriggerDomId(target)));
+    }
+  };
+
+  const getHeadingProps = (): AccordionHeadingProps => ({
+    role: 'heading',
+    'aria-level': headingLevel,
+  });
+
+  const getTriggerProps = (
+    id: string,
+    itemOptions: AccordionItemOptions = {}
+  ): AccordionTriggerProps => {
+    const props: AccordionTriggerProps = {
+      ...createDisclosureProps(isExpanded(id), getPanelDomId(id)),
+      id: getTriggerDomId(id),
+      type: 'button',
+      onClick: () => {
+        if (!itemOptions.disabled) {
+          toggle(id);
+        }
+      },
+      onKeyDown: (event) => onKeyDown(id, event),
+    };
+    if (itemOptions.disabled || isLocked(id)) {
+      props['aria-disabled'] = 'true';
+    }
+    return props;
+  };
+
+  const getPanelProps = (id: string): AccordionPanelProps => {
+    const props: AccordionPanelProps = {
+      id: getPanelDomId(id),
+      hidden: !isExpanded(id),
+    };
+    if (items.length <= regionThreshold) {
+      Object.assign(props, createLabelledByProps(getTriggerDomId(id)));
+      props.role = 'region';
+    }
+    return props;
+  };
+
+  return {
+    expandedIds,
+    isExpanded,
+    expand,
+    collapse,
+    toggle,
+    getHeadingProps,
+    getTriggerProps,
+    getPanelProps,
+  };
+}
@@ -0,0 +1,480 @@
+/**
+ * ARIA Model
+ * Roles, states and properties from WAI-ARIA 1.2 plus the attributes added in
+ * ARIA 1.3, used by the runtime validator and the role-aware types
+ * @see https://www.w3.org/TR/wai-aria-1.2/
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Value types of ARIA states and properties
+ * @see https://www.w3.org/TR/wai-aria-1.2/#propcharacteristic_value
+ */
+export type AriaValueType =
+  | 'true/false'
+  | 'true/false/undefined'
+  | 'tristate'
+  | 'id'
+  | 'id-list'
+  | 'integer'
+  | 'number'
+  | 'string'
+  | 'token'
+  | 'token-list';
+
+/**
+ * Definition of an ARIA state or property
+ */
+export interface AriaAttributeDefinition {
+  type: AriaValueType;
+  /** Allowed values for `token` and `token-list` types */
+  values?: readonly string[];
+  /** Whether the attribute is deprecated */
+  deprecated?: boolean;
+}
+
+/**
+ * Where an element's accessible name comes from
+ * @see https://www.w3.org/TR/wai-aria-1.2/#namecalculation
+ */
+export type AriaNameFrom = 'author' | 'contents' | 'prohibited';
+
+/**
+ * Definition of a concrete ARIA role
+ * Global attributes are supported on every role and are not repeated here.
+ */
+export interface AriaRoleDefinition {
+  /** Attributes the author must provide */
+  required?: readonly string[];
+  /** Role-specific attributes that are allowed */
+  supported?: readonly string[];
+  /** Attributes that must not be used, including global ones */
+  prohibited?: readonly string[];
+  /** Where the accessible name comes from */
+  nameFrom: AriaNameFrom;
+  /** Whether the role is deprecated */
+  deprecated?: boolean;
+}
+
+// ============================================================================
+// Attributes
+// ============================================================================
+
+/**
+ * Every ARIA 1.2 state and property with its value type, plus the ARIA 1.3
+ * additions (`aria-description`, braille and index text attributes)
+ */
+export const ariaAttributes = {
+  'aria-activedescendant': { type: 'id' },
+  'aria-atomic': { type: 'true/false' },
+  'aria-autocomplete': { type: 'token', values: ['inline', 'list', 'both', 'none'] },
+  'aria-braillelabel': { type: 'string' },
+  'aria-brailleroledescription': { type: 'string' },
+  'aria-busy': { type: 'true/false' },
+  'aria-checked': { type: 'tristate' },
+  'aria-colcount': { type: 'integer' },
+  'aria-colindex': { type: 'integer' },
+  'aria-colindextext': { type: 'string' },
+  'aria-colspan': { type: 'integer' },
+  'aria-controls': { type: 'id-list' },
+  'aria-current': {
+    type: 'token',
+    values: ['page', 'step', 'location', 'date', 'time', 'true', 'false'],
+  },
+  'aria-describedby': { type: 'id-list' },
+  'aria-description': { type: 'string' },
+  'aria-details': { type: 'id-list' },
+  'aria-disabled': { type: 'true/false' },
+  'aria-dropeffect': {
+    type: 'token-list',
+    values: ['copy', 'execute', 'link', 'move', 'none', 'popup'],
+    deprecated: true,
+  },
+  'aria-errormessage': { type: 'id' },
+  'aria-expanded': { type: 'true/false/undefined' },
+  'aria-flowto': { type: 'id-list' },
+  'aria-grabbed': { type: 'true/false/undefined', deprecated: true },
+  'aria-haspopup': {
+    type: 'token',
+    values: ['false', 'true', 'menu', 'listbox', 'tree', 'grid', 'dialog'],
+  },
+  'aria-hidden': { type: 'true/false/undefined' },
+  'aria-invalid': { type: 'token', values: ['grammar', 'false', 'spelling', 'true'] },
+  'aria-keyshortcuts': { type: 'string' },
+  'aria-label': { type: 'string' },
+  'aria-labelledby': { type: 'id-list' },
+  'aria-level': { type: 'integer' },
+  'aria-live': { type: 'token', values: ['assertive', 'off', 'polite'] },
+  'aria-modal': { type: 'true/false' },
+  'aria-multiline': { type: 'true/false' },
+  'aria-multiselectable': { type: 'true/false' },
+  'aria-orientation': { type: 'token', values: ['horizontal', 'undefined', 'vertical'] },
+  'aria-owns': { type: 'id-list' },
+  'aria-placeholder': { type: 'string' },
+  'aria-posinset': { type: 'integer' },
+  'aria-pressed': { type: 'tristate' },
+  'aria-readonly': { type: 'true/false' },
+  'aria-relevant': { type: 'token-list', values: ['additions', 'all', 'removals', 'text'] },
+  'aria-required': { type: 'true/false' },
+  'aria-roledescription': { type: 'string' },
+  'aria-rowcount': { type: 'integer' },
+  'aria-rowindex': { type: 'integer' },
+  'aria-rowindextext': { type: 'string' },
+  'aria-rowspan': { type: 'integer' },
+  'aria-selected': { type: 'true/false/undefined' },
+  'aria-setsize': { type: 'integer' },
+  'aria-sort': { type: 'token', values: ['ascending', 'descending', 'none', 'other'] },
+  'aria-valuemax': { type: 'number' },
+  'aria-valuemin': { type: 'number' },
+  'aria-valuenow': { type: 'number' },
+  'aria-valuetext': { type: 'string' },
+} as const satisfies Record<string, AriaAttributeDefinition>;
+
+/**
+ * Name of an ARIA state or property
+ */
+export type AriaAttributeName = keyof typeof ariaAttributes;
+
+/**
+ * States and properties supported on every role
+ * @see https://www.w3.org/TR/wai-aria-1.2/#global_states
+ */
+export const globalAriaAttributes = [
+  'aria-atomic',
+  'aria-braillelabel',
+  'aria-brailleroledescription',
+  'aria-busy',
+  'aria-controls',
+  'aria-current',
+  'aria-describedby',
+  'aria-description',
+  'aria-details',
+  'aria-disabled',
+  'aria-dropeffect',
+  'aria-errormessage',
+  'aria-flowto',
+  'aria-grabbed',
+  'aria-haspopup',
+  'aria-hidden',
+  'aria-invalid',
+  'aria-keyshortcuts',
+  'aria-label',
+  'aria-labelledby',
+  'aria-live',
+  'aria-owns',
+  'aria-relevant',
+  'aria-roledescription',
+] as const satisfies readonly AriaAttributeName[];
+
+/**
+ * Name of a global ARIA state or property
+ */
+export type GlobalAriaAttributeName = (typeof globalAriaAttributes)[number];
+
+// ============================================================================
+// Roles
+// ============================================================================
+
+const NAME_ATTRIBUTES = ['aria-label', 'aria-labelledby'] as const;
+
+const RANGE_ATTRIBUTES = [
+  'aria-valuemax',
+  'aria-valuemin',
+  'aria-valuenow',
+  'aria-valuetext',
+] as const;
+
+const CELL_ATTRIBUTES = [
+  'aria-colindex',
+  'aria-colindextext',
+  'aria-colspan',
+  'aria-rowindex',
+  'aria-rowindextext',
+  'aria-rowspan',
+] as const;
+
+const GRIDCELL_ATTRIBUTES = [
+  ...CELL_ATTRIBUTES,
+  'aria-expanded',
+  'aria-readonly',
+  'aria-required',
+  'aria-selected',
+] as const;
+
+const MENUITEM_ATTRIBUTES = ['aria-expanded', 'aria-posinset', 'aria-setsize'] as const;
+
+const TEXTBOX_ATTRIBUTES = [
+  'aria-activedescendant',
+  'aria-autocomplete',
+  'aria-multiline',
+  'aria-placeholder',
+  'aria-readonly',
+  'aria-required',
+] as const;
+
+/**
+ * Roles that exist only to build the taxonomy and must not be used by authors
+ * @see https://www.w3.org/TR/wai-aria-1.2/#abstract_roles
+ */
+export const abstractAriaRoles = [
+  'command',
+  'composite',
+  'input',
+  'landmark',
+  'range',
+  'roletype',
+  'section',
+  'sectionhead',
+  'select',
+  'structure',
+  'widget',
+  'window',
+] as const;
+
+/**
+ * Every concrete ARIA 1.2 role with its required, supported and prohibited
+ * attributes (inherited ones included)
+ */
+export const ariaRoles = {
+  alert: { nameFrom: 'author' },
+  alertdialog: { supported: ['aria-modal'], nameFrom: 'author' },
+  application: { supported: ['aria-activedescendant', 'aria-expanded'], nameFrom: 'author' },
+  article: { supported: ['aria-posinset', 'aria-setsize'], nameFrom: 'author' },
+  banner: { nameFrom: 'author' },
+  blockquote: { nameFrom: 'author' },
+  button: { supported: ['aria-expanded', 'aria-pressed'], nameFrom: 'contents' },
+  caption: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  cell: { supported: CELL_ATTRIBUTES, nameFrom: 'contents' },
+  checkbox: {
+    required: ['aria-checked'],
+    supported: ['aria-expanded', 'aria-readonly', 'aria-required'],
+    nameFrom: 'contents',
+  },
+  code: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  columnheader: { supported: [...GRIDCELL_ATTRIBUTES, 'aria-sort'], nameFrom: 'contents' },
+  combobox: {
+    required: ['aria-controls', 'aria-expanded'],
+    supported: ['aria-activedescendant', 'aria-autocomplete', 'aria-readonly', 'aria-required'],
+    nameFrom: 'author',
+  },
+  complementary: { nameFrom: 'author' },
+  contentinfo: { nameFrom: 'author' },
+  definition: { nameFrom: 'author' },
+  deletion: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  dialog: { supported: ['aria-modal'], nameFrom: 'author' },
+  directory: { nameFrom: 'author', deprecated: true },
+  document: { supported: ['aria-expanded'], nameFrom: 'author' },
+  emphasis: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  feed: { nameFrom: 'author' },
+  figure: { nameFrom: 'author' },
+  form: { nameFrom: 'author' },
+  generic: {
+    prohibited: [...NAME_ATTRIBUTES, 'aria-roledescription'],
+    nameFrom: 'prohibited',
+  },
+  grid: {
+    supported: [
+      'aria-activedescendant',
+      'aria-colcount',
+      'aria-multiselectable',
+      'aria-readonly',
+      'aria-rowcount',
+    ],
+    nameFrom: 'author',
+  },
+  gridcell: { supported: GRIDCELL_ATTRIBUTES, nameFrom: 'contents' },
+  group: { supported: ['aria-activedescendant'], nameFrom: 'author' },
+  heading: { required: ['aria-level'], nameFrom: 'contents' },
+  img: { nameFrom: 'author' },
+  insertion: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  link: { supported: ['aria-expanded'], nameFrom: 'contents' },
+  list: { nameFrom: 'author' },
+  listbox: {
+    supported: [
+      'aria-activedescendant',
+      'aria-expanded',
+      'aria-multiselectable',
+      'aria-orientation',
+      'aria-readonly',
+      'aria-required',
+    ],
+    nameFrom: 'author',
+  },
+  listitem: { supported: ['aria-level', 'aria-posinset', 'aria-setsize'], nameFrom: 'author' },
+  log: { nameFrom: 'author' },
+  main: { nameFrom: 'author' },
+  marquee: { nameFrom: 'author' },
+  math: { nameFrom: 'author' },
+  menu: { supported: ['aria-activedescendant', 'aria-orientation'], nameFrom: 'author' },
+  menubar: { supported: ['aria-activedescendant', 'aria-orientation'], nameFrom: 'author' },
+  menuitem: { supported: MENUITEM_ATTRIBUTES, nameFrom: 'contents' },
+  menuitemcheckbox: {
+    required: ['aria-checked'],
+    supported: MENUITEM_ATTRIBUTES,
+    nameFrom: 'contents',
+  },
+  menuitemradio: {
+    required: ['aria-checked'],
+    supported: MENUITEM_ATTRIBUTES,
+    nameFrom: 'contents',
+  },
+  meter: {
+    required: ['aria-valuenow'],
+    supported: ['aria-valuemax', 'aria-valuemin', 'aria-valuetext'],
+    nameFrom: 'author',
+  },
+  navigation: { nameFrom: 'author' },
+  none: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  note: { nameFrom: 'author' },
+  option: {
+    supported: ['aria-checked', 'aria-posinset', 'aria-selected', 'aria-setsize'],
+    nameFrom: 'contents',
+  },
+  paragraph: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  presentation: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  progressbar: { supported: RANGE_ATTRIBUTES, nameFrom: 'author' },
+  radio: {
+    required: ['aria-checked'],
+    supported: ['aria-posinset', 'aria-setsize'],
+    nameFrom: 'contents',
+  },
+  radiogroup: {
+    supported: ['aria-activedescendant', 'aria-orientation', 'aria-readonly', 'aria-required'],
+    nameFrom: 'author',
+  },
+  region: { nameFrom: 'author' },
+  row: {
+    supported: [
+      'aria-activedescendant',
+      'aria-colindex',
+      'aria-expanded',
+      'aria-level',
+      'aria-posinset',
+      'aria-rowindex',
+      'aria-rowindextext',
+      'aria-selected',
+      'aria-setsize',
+    ],
+    nameFrom: 'contents',
+  },
+  rowgroup: { nameFrom: 'contents' },
+  rowheader: { supported: [...GRIDCELL_ATTRIBUTES, 'aria-sort'], nameFrom: 'contents' },
+  scrollbar: {
+    required: ['aria-controls', 'aria-valuenow'],
+    supported: ['aria-orientation', 'aria-valuemax', 'aria-valuemin', 'aria-valuetext'],
+    nameFrom: 'author',
+  },
+  search: { nameFrom: 'author' },
+  searchbox: { supported: TEXTBOX_ATTRIBUTES, nameFrom: 'author' },
+  separator: { supported: ['aria-orientation', ...RANGE_ATTRIBUTES], nameFrom: 'author' },
+  slider: {
+    required: ['aria-valuenow'],
+    supported: [
+      'aria-orientation',
+      'aria-readonly',
+      'aria-valuemax',
+      'aria-valuemin',
+      'aria-valuetext',
+    ],
+    nameFrom: 'author',
+  },
+  spinbutton: {
+    supported: ['aria-activedescendant', 'aria-readonly', 'aria-required', ...RANGE_ATTRIBUTES],
+    nameFrom: 'author',
+  },
+  status: { nameFrom: 'author' },
+  strong: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  subscript: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  superscript: { prohibited: NAME_ATTRIBUTES, nameFrom: 'prohibited' },
+  switch: {
+    required: ['aria-checked'],
+    supported: ['aria-expanded', 'aria-readonly', 'aria-required'],
+    nameFrom: 'contents',
+  },
+  tab: {
+    supported: ['aria-expanded', 'aria-posinset', 'aria-selected', 'aria-setsize'],
+    nameFrom: 'contents',
+  },
+  table: { supported: ['aria-colcount', 'aria-rowcount'], nameFrom: 'author' },
+  tablist: {
+    supported: ['aria-activedescendant', 'aria-multiselectable', 'aria-orientation'],
+    nameFrom: 'author',
+  },
+  tabpanel: { nameFrom: 'author' },
+  term: { nameFrom: 'author' },
+  textbox: { supported: TEXTBOX_ATTRIBUTES, nameFrom: 'author' },
+  time: { nameFrom: 'author' },
+  timer: { nameFrom: 'author' },
+  toolbar: { supported: ['aria-activedescendant', 'aria-orientation'], nameFrom: 'author' },
+  tooltip: { nameFrom: 'contents' },
+  tree: {
+    supported: [
+      'aria-activedescendant',
+      'aria-multiselectable',
+      'aria-orientation',
+      'aria-required',
+    ],
+    nameFrom: 'author',
+  },
+  treegrid: {
+    supported: [
+      'aria-activedescendant',
+      'aria-colcount',
+      'aria-multiselectable',
+      'aria-orientation',
+      'aria-readonly',
+      'aria-required',
+      'aria-rowcount',
+    ],
+    nameFrom: 'author',
+  },
+  treeitem: {
+    supported: [
+      'aria-checked',
+      'aria-expanded',
+      'aria-level',
+      'aria-posinset',
+      'aria-selected',
+      'aria-setsize',
+    ],
+    nameFrom: 'contents',
+  },
+} as const satisfies Record<string, AriaRoleDefinition>;
+
+/**
+ * Name of a concrete ARIA role
+ */
+export type AriaRole = keyof typeof ariaRoles;
+
+// ============================================================================
+// Spec Links
+// ============================================================================
+
+const SPEC_URL = 'https://www.w3.org/TR/wai-aria-1.2/';
+const DRAFT_SPEC_URL = 'https://w3c.github.io/aria/';
+
+/**
+ * Attributes that are only defined in the ARIA 1.3 draft
+ */
+const ARIA_1_3_ATTRIBUTES = new Set<string>([
+  'aria-braillelabel',
+  'aria-brailleroledescription',
+  'aria-colindextext',
+  'aria-description',
+  'aria-rowindextext',
+]);
+
+/**
+ * Returns the spec link for a role or attribute
+ * ARIA 1.3 additions link to the editor's draft, everything else to ARIA 1.2.
+ *
+ * @param name - A role (e.g. `slider`) or attribute (e.g. `aria-valuenow`)
+ * @returns The URL of the definition in the spec
+ */
+export function getAriaSpecUrl(name: string): string {
+  return `${ARIA_1_3_ATTRIBUTES.has(name) ? DRAFT_SPEC_URL : SPEC_URL}#${name}`;
+}
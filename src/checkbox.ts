@@ -0,0 +1,403 @@
+/**
+ * Checkbox and Switch
+ * Switches that cannot be mixed, and checkbox groups whose "select all"
+ * checkbox derives its checked or mixed state from the children
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useEffect, useId, useRef, useState, type KeyboardEvent } from 'react';
+import {
+  createCheckedProps,
+  createDescribedByProps,
+  createLabelledByProps,
+  type AccessibilityProps,
+} from './index';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Accessibility props for a switch; unlike checkboxes, switches are never mixed
+ */
+export interface SwitchProps extends AccessibilityProps {
+  role: 'switch';
+  'aria-checked': 'true' | 'false';
+}
+
+/**
+ * Options shared by useSwitch and useCheckboxGroup
+ */
+export interface CheckableOptions {
+  /**
+   * Whether the controls are native `<input type="checkbox">` elements
+   * (`checked`, `disabled`, `onChange`) rather than custom elements
+   * (`aria-checked`, `tabIndex`, Space to toggle) (default: false)
+   */
+  native?: boolean;
+  /** Whether the controls are disabled (default: false) */
+  disabled?: boolean;
+  /** Base ID for the generated element IDs; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Options for useSwitch
+ */
+export interface UseSwitchOptions extends CheckableOptions {
+  /** Whether the switch is on in controlled mode */
+  checked?: boolean;
+  /** Whether the switch is initially on in uncontrolled mode (default: false) */
+  defaultChecked?: boolean;
+  /** Called when the switch is toggled */
+  onCheckedChange?: (checked: boolean) => void;
+}
+
+/**
+ * Options for useCheckboxGroup
+ */
+export interface UseCheckboxGroupOptions extends CheckableOptions {
+  /** Values of the child checkboxes, in display order */
+  items: string[];
+  /** Checked values in controlled mode */
+  value?: string[];
+  /** Initially checked values in uncontrolled mode (default: []) */
+  defaultValue?: string[];
+  /** Called whenever the checked values change */
+  onChange?: (value: string[]) => void;
+  /** Values of the disabled child checkboxes, which the parent leaves unchanged */
+  disabledItems?: string[];
+}
+
+/**
+ * Props for a checkbox or switch control, native or custom
+ */
+export interface CheckableControlProps extends AccessibilityProps {
+  id: string;
+  /** Native inputs only */
+  type?: 'checkbox';
+  /** Native inputs only */
+  checked?: boolean;
+  /** Native inputs only */
+  disabled?: boolean;
+  /** Native inputs only */
+  onChange?: () => void;
+  /** Custom elements only */
+  tabIndex?: number;
+  /** Custom elements only */
+  onClick?: () => void;
+  /** Custom elements only */
+  onKeyDown?: (event: KeyboardEvent<HTMLElement>) => void;
+}
+
+/**
+ * Props for the label of a switch or checkbox group
+ */
+export interface CheckableLabelProps {
+  id: string;
+  /** Native switches only, so that clicking the label toggles */
+  htmlFor?: string;
+  /** Custom switches only, so that clicking the label toggles */
+  onClick?: () => void;
+}
+
+/**
+ * Props for the description of a switch or checkbox group
+ */
+export interface CheckableDescriptionProps {
+  id: string;
+  ref: (element: HTMLElement | null) => void;
+}
+
+/**
+ * Return value of useSwitch
+ */
+export interface UseSwitchResult {
+  checked: boolean;
+  setChecked: (checked: boolean) => void;
+  toggle: () => void;
+  getLabelProps: () => CheckableLabelProps;
+  getDescriptionProps: () => CheckableDescriptionProps;
+  getSwitchProps: () => CheckableControlProps;
+}
+
+/**
+ * Return value of useCheckboxGroup
+ */
+export interface UseCheckboxGroupResult {
+  value: string[];
+  setValue: (value: string[]) => void;
+  /** State of the parent checkbox: true when all children are checked, 'mixed' when some are */
+  parentChecked: boolean | 'mixed';
+  /** Checks every enabled child, or unchecks them when all are checked */
+  toggleAll: () => void;
+  getLabelProps: () => CheckableLabelProps;
+  getDescriptionProps: () => CheckableDescriptionProps;
+  getGroupProps: () => AccessibilityProps & { role: 'group' };
+  getParentCheckboxProps: () => CheckableControlProps & {
+    ref: (element: HTMLElement | null) => void;
+  };
+  getCheckboxProps: (value: string) => CheckableControlProps;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Props for a checkbox-like control, using native attributes for inputs and
+ * ARIA plus keyboard handling for custom elements
+ */
+function getControlProps(
+  id: string,
+  checked: boolean | 'mixed',
+  native: boolean,
+  disabled: boolean,
+  toggle: () => void
+): CheckableControlProps {
+  if (native) {
+    // Native inputs expose checked (and indeterminate) themselves; aria-checked would conflict
+    return { id, type: 'checkbox', checked: checked === true, disabled, onChange: toggle };
+  }
+  const props: CheckableControlProps = {
+    ...createCheckedProps(checked),
+    id,
+    tabIndex: disabled ? -1 : 0,
+    onClick: () => {
+      if (!disabled) {
+        toggle();
+      }
+    },
+    onKeyDown: (event) => {
+      if (event.key === ' ') {
+        event.preventDefault();
+        if (!disabled) {
+          toggle();
+        }
+      }
+    },
+  };
+  if (disabled) {
+    props['aria-disabled'] = 'true';
+  }
+  return props;
+}
+
+/**
+ * Description props whose ID is only referenced once the description is mounted
+ */
+function useDescription(descriptionId: string) {
+  const [mounted, setMounted] = useState(false);
+  const ref = useCallback((element: HTMLElement | null) => setMounted(element !== null), []);
+  return {
+    describedByProps: mounted ? createDescribedByProps(descriptionId) : {},
+    getDescriptionProps: (): CheckableDescriptionProps => ({ id: descriptionId, ref }),
+  };
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Creates props for a switch
+ * Switches are on or off; `'mixed'` is rejected by the types, since it is not a
+ * valid switch state.
+ *
+ * @param checked - Whether the switch is on
+ * @returns Accessibility props for the switch
+ *
+ * @example
+ * ```tsx
+ * <button {...createSwitchProps(enabled)} onClick={() => setEnabled(!enabled)}>
+ *   Notifications
+ * </button>
+ * ```
+ */
+export function createSwitchProps(checked: boolean): SwitchProps {
+  return {
+    role: 'switch',
+    'aria-checked': checked ? 'true' : 'false',
+  };
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Owns the state, IDs and handlers of a switch
+ * With `native`, the props are for an `<input type="checkbox">` with
+ * `role="switch"`; otherwise for a custom element that toggles on click and
+ * Space. The switch is labelled by the label and, once it is rendered,
+ * described by the description.
+ *
+ * @param options - Configuration options
+ * @returns The state and prop getters for the label, description and switch
+ *
+ * @example
+ * ```tsx
+ * const wifi = useSwitch({ defaultChecked: true });
+ *
+ * <span {...wifi.getLabelProps()}>Wi-Fi</span>
+ * <div {...wifi.getSwitchProps()} />
+ * <p {...wifi.getDescriptionProps()}>Connects to known networks</p>
+ * ```
+ */
+export function useSwitch(options: UseSwitchOptions = {}): UseSwitchResult {
+  const { native = false, disabled = false } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const switchId = `${baseId}-switch`;
+  const labelId = `${baseId}-label`;
+
+  const [checked, setChecked] = useControllableState(
+    options.checked,
+    options.defaultChecked ?? false,
+    options.onCheckedChange
+  );
+  const { describedByProps, getDescriptionProps } = useDescription(`${baseId}-description`);
+
+  const toggle = () => setChecked((prev) => !prev);
+
+  const getLabelProps = (): CheckableLabelProps =>
+    native
+      ? { id: labelId, htmlFor: switchId }
+      : {
+          id: labelId,
+          onClick: () => {
+            if (!disabled) {
+              toggle();
+              document.getElementById(switchId)?.focus();
+            }
+          },
+        };
+
+  const getSwitchProps = (): CheckableControlProps => ({
+    ...getControlProps(switchId, checked, native, disabled, toggle),
+    // Native inputs keep their own checked state; role="switch" changes only how it is announced
+    ...(native ? { role: 'switch' } : createSwitchProps(checked)),
+    ...createLabelledByProps(labelId),
+    ...describedByProps,
+  });
+
+  return {
+    checked,
+    setChecked,
+    toggle,
+    getLabelProps,
+    getDescriptionProps,
+    getSwitchProps,
+  };
+}
+
+/**
+ * Implements a checkbox group with a parent "select all" checkbox
+ * The parent is checked when every child is, unchecked when none is and
+ * `mixed` otherwise (the `indeterminate` property for native inputs). Toggling
+ * it checks every enabled child, or unchecks them when all are checked;
+ * children listed in `disabledItems` keep their state. The parent controls the
+ * children via `aria-controls`, and the group is labelled by the label and,
+ * once it is rendered, described by the description.
+ *
+ * @param options - Configuration options
+ * @returns The checked values and prop getters
+ *
+ * @example
+ * ```tsx
+ * const toppings = useCheckboxGroup({
+ *   items: ['cheese', 'olives'],
+ *   disabledItems: soldOut ? ['olives'] : [],
+ *   native: true,
+ * });
+ *
+ * <fieldset {...toppings.getGroupProps()}>
+ *   <legend {...toppings.getLabelProps()}>Toppings</legend>
+ *   <label><input {...toppings.getParentCheckboxProps()} /> All</label>
+ *   <label><input {...toppings.getCheckboxProps('cheese')} /> Cheese</label>
+ *   <label><input {...toppings.getCheckboxProps('olives')} /> Olives</label>
+ * </fieldset>
+ * ```
+ */
+export function useCheckboxGroup(options: UseCheckboxGroupOptions): UseCheckboxGroupResult {
+  const { items, native = false, disabled = false, disabledItems = [] } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const labelId = `${baseId}-label`;
+  const getCheckboxId = (item: string) => `${baseId}-checkbox-${item}`;
+
+  const [value, setValue] = useControllableState(
+    options.value,
+    options.defaultValue ?? [],
+    options.onChange
+  );
+  const { describedByProps, getDescriptionProps } = useDescription(`${baseId}-description`);
+
+  const parentRef = useRef<HTMLElement | null>(null);
+  const setParentRef = useCallback((element: HTMLElement | null) => {
+    parentRef.current = element;
+  }, []);
+
+  const checkedCount = items.filter((item) => value.includes(item)).length;
+  const parentChecked: boolean | 'mixed' =
+    checkedCount === 0 ? false : checkedCount === items.length ? true : 'mixed';
+
+  // indeterminate has no HTML attribute, so it is set on the element
+  useEffect(() => {
+    if (native && parentRef.current instanceof HTMLInputElement) {
+      parentRef.current.indeterminate = parentChecked === 'mixed';
+    }
+  }, [native, parentChecked]);
+
+  const toggleItem = (item: string) =>
+    setValue(value.includes(item) ? value.filter((checked) => checked !== item) : [...value, item]);
+
+  const toggleAll = () => {
+    const enabled = items.filter((item) => !disabledItems.includes(item));
+    const allChecked = enabled.every((item) => value.includes(item));
+    const locked = value.filter((item) => disabledItems.includes(item));
+    setValue(
+      allChecked ? locked : items.filter((item) => locked.includes(item) || enabled.includes(item))
+    );
+  };
+
+  const getLabelProps = (): CheckableLabelProps => ({ id: labelId });
+
+  const getGroupProps = () => ({
+    ...createLabelledByProps(labelId),
+    ...describedByProps,
+    role: 'group' as const,
+  });
+
+  const getParentCheckboxProps = () => ({
+    ...getControlProps(`${baseId}-all`, parentChecked, native, disabled, toggleAll),
+    'aria-controls': items.map(getCheckboxId).join(' '),
+    ...(native ? {} : { role: 'checkbox' }),
+    ref: setParentRef,
+  });
+
+  const getCheckboxProps = (item: string): CheckableControlProps => {
+    const itemDisabled = disabled || disabledItems.includes(item);
+    const props = getControlProps(
+      getCheckboxId(item),
+      value.includes(item),
+      native,
+      itemDisabled,
+      () => toggleItem(item)
+    );
+    return native ? props : { ...props, role: 'checkbox' };
+  };
+
+  return {
+    value,
+    setValue,
+    parentChecked,
+    toggleAll,
+    getLabelProps,
+    getDescriptionProps,
+    getGroupProps,
+    getParentCheckboxProps,
+    getCheckboxProps,
+  };
+}
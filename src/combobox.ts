@@ -0,0 +1,504 @@
+/**
+ * Combobox
+ * Coordinated input, listbox and option props for the ARIA combobox pattern,
+ * using aria-activedescendant so focus stays in the input
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type KeyboardEvent,
+  type MouseEvent,
+} from 'react';
+import {
+  createLiveRegion,
+  createSelectedProps,
+  srOnly,
+  type A11yCSSProperties,
+  type AccessibilityProps,
+  type LiveRegionProps,
+  type SelectedProps,
+} from './index';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How the combobox completes what the user types
+ * - `none`: the popup lists the same options whatever is typed
+ * - `list`: the popup lists options matching what is typed
+ * - `inline`: the rest of the first match is inserted and selected in the input
+ * - `both`: `list` and `inline` together; the first match also becomes active
+ */
+export type ComboboxAutocomplete = 'none' | 'list' | 'inline' | 'both';
+
+/**
+ * Options for createComboboxProps
+ */
+export interface ComboboxPropsOptions {
+  /** Whether the listbox popup is displayed */
+  expanded: boolean;
+  /** ID of the listbox popup */
+  listboxId: string;
+  /** ID of the option that has visual focus, if any */
+  activeDescendantId?: string | null;
+  /** Autocomplete behaviour (default: 'list') */
+  autocomplete?: ComboboxAutocomplete;
+}
+
+/**
+ * Accessibility props for a combobox input
+ */
+export interface ComboboxProps extends AccessibilityProps {
+  role: 'combobox';
+  'aria-expanded': 'true' | 'false';
+  'aria-controls': string;
+  'aria-haspopup': 'listbox';
+  'aria-autocomplete': ComboboxAutocomplete;
+  'aria-activedescendant'?: string;
+}
+
+/**
+ * Options for useCombobox
+ */
+export interface UseComboboxOptions<T> {
+  /** The options to display, already filtered for the current input value */
+  items: T[];
+  /** Text used for an item in the input and for inline completion (default: String) */
+  itemToString?: (item: T) => string;
+  /** Whether an item can be chosen */
+  isItemDisabled?: (item: T) => boolean;
+  /** Autocomplete behaviour (default: 'list') */
+  autocomplete?: ComboboxAutocomplete;
+  /** The typed text in controlled mode */
+  inputValue?: string;
+  /** Initial typed text in uncontrolled mode (default: '') */
+  defaultInputValue?: string;
+  /** Called when the user types; filter `items` with this value */
+  onInputValueChange?: (value: string) => void;
+  /** The chosen item in controlled mode */
+  selectedItem?: T | null;
+  /** Initial chosen item in uncontrolled mode (default: null) */
+  defaultSelectedItem?: T | null;
+  /** Called when an item is chosen */
+  onSelectedItemChange?: (item: T | null) => void;
+  /** Whether the popup is open in controlled mode */
+  open?: boolean;
+  /** Whether the popup is initially open in uncontrolled mode (default: false) */
+  defaultOpen?: boolean;
+  /** Called when the popup opens or closes */
+  onOpenChange?: (open: boolean) => void;
+  /** Message announced when the number of results changes while open */
+  getResultsMessage?: (count: number) => string;
+  /** Base ID for the input, listbox and options; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Props for the combobox input
+ */
+export interface ComboboxInputProps extends ComboboxProps {
+  id: string;
+  ref: (element: HTMLInputElement | null) => void;
+  type: 'text';
+  value: string;
+  autoComplete: 'off';
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onKeyDown: (event: KeyboardEvent<HTMLInputElement>) => void;
+  onBlur: () => void;
+}
+
+/**
+ * Props for the listbox popup
+ */
+export interface ComboboxListboxProps extends AccessibilityProps {
+  id: string;
+  role: 'listbox';
+  'aria-labelledby': string;
+  hidden: boolean;
+}
+
+/**
+ * Props for a single option
+ */
+export interface ComboboxOptionProps extends SelectedProps {
+  id: string;
+  role: 'option';
+  onClick: () => void;
+  onMouseDown: (event: MouseEvent<HTMLElement>) => void;
+  onMouseMove: () => void;
+}
+
+/**
+ * Props for the visually hidden status region that announces result counts
+ */
+export interface ComboboxStatusProps extends LiveRegionProps {
+  role: 'status';
+  style: A11yCSSProperties;
+  children: string;
+}
+
+/**
+ * Return value of useCombobox
+ */
+export interface UseComboboxResult<T> {
+  isOpen: boolean;
+  /** The typed text */
+  inputValue: string;
+  selectedItem: T | null;
+  /** Index in `items` of the option with visual focus, or -1 */
+  activeIndex: number;
+  /** The result count message currently in the status region */
+  statusMessage: string;
+  open: () => void;
+  close: () => void;
+  selectItem: (item: T | null) => void;
+  setActiveIndex: (index: number) => void;
+  getLabelProps: () => { id: string; htmlFor: string };
+  getInputProps: () => ComboboxInputProps;
+  getListboxProps: () => ComboboxListboxProps;
+  getOptionProps: (index: number) => ComboboxOptionProps;
+  getStatusProps: () => ComboboxStatusProps;
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Creates props for a combobox input that controls a listbox popup
+ *
+ * @param options - Popup state and IDs
+ * @returns Accessibility props for the input
+ *
+ * @example
+ * ```tsx
+ * <input
+ *   {...createComboboxProps({ expanded: isOpen, listboxId: 'fruits', activeDescendantId })}
+ * />
+ * <ul id="fruits" role="listbox">...</ul>
+ * ```
+ */
+export function createComboboxProps(options: ComboboxPropsOptions): ComboboxProps {
+  const { expanded, listboxId, activeDescendantId, autocomplete = 'list' } = options;
+  const props: ComboboxProps = {
+    role: 'combobox',
+    'aria-expanded': expanded ? 'true' : 'false',
+    'aria-controls': listboxId,
+    'aria-haspopup': 'listbox',
+    'aria-autocomplete': autocomplete,
+  };
+  if (expanded && activeDescendantId) {
+    props['aria-activedescendant'] = activeDescendantId;
+  }
+  return props;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+const defaultResultsMessage = (count: number) =>
+  count === 0 ? 'No results' : `${count} ${count === 1 ? 'result' : 'results'} available`;
+
+/**
+ * Implements an editable combobox with a listbox popup
+ * Focus stays in the input and `aria-activedescendant` points at the option
+ * with visual focus. ArrowDown/ArrowUp open the popup and move through the
+ * enabled options, Alt+ArrowDown opens it without moving, Enter chooses the
+ * active option and Escape closes the popup (or clears the input when closed).
+ * With inline autocomplete, leaving the input chooses the option it shows.
+ * The number of results is announced through a polite status region.
+ *
+ * @param options - Configuration options
+ * @returns The combobox state, actions and prop getters
+ *
+ * @example
+ * ```tsx
+ * const [query, setQuery] = useState('');
+ * const items = fruits.filter((fruit) => fruit.toLowerCase().startsWith(query.toLowerCase()));
+ * const combobox = useCombobox({ items, inputValue: query, onInputValueChange: setQuery });
+ *
+ * <label {...combobox.getLabelProps()}>Fruit</label>
+ * <input {...combobox.getInputProps()} />
+ * <ul {...combobox.getListboxProps()}>
+ *   {items.map((fruit, index) => (
+ *     <li key={fruit} {...combobox.getOptionProps(index)}>{fruit}</li>
+ *   ))}
+ * </ul>
+ * <div {...combobox.getStatusProps()} />
+ * ```
+ */
+export function useCombobox<T>(options: UseComboboxOptions<T>): UseComboboxResult<T> {
+  const {
+    items,
+    itemToString = String,
+    isItemDisabled,
+    autocomplete = 'list',
+    getResultsMessage = defaultResultsMessage,
+  } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const inputId = `${baseId}-input`;
+  const labelId = `${baseId}-label`;
+  const listboxId = `${baseId}-listbox`;
+  const getOptionId = (index: number) => `${baseId}-option-${index}`;
+
+  const [isOpen, setIsOpen] = useControllableState(
+    options.open,
+    options.defaultOpen ?? false,
+    options.onOpenChange
+  );
+  const [inputValue, setInputValue] = useControllableState(
+    options.inputValue,
+    options.defaultInputValue ?? '',
+    options.onInputValueChange
+  );
+  const [selectedItem, setSelectedItem] = useControllableState<T | null>(
+    options.selectedItem,
+    options.defaultSelectedItem ?? null,
+    options.onSelectedItemChange
+  );
+  const [activeIndexState, setActiveIndex] = useState(-1);
+  // Text shown in place of the typed value: an inline completion or the option
+  // reached with the arrow keys
+  const [completion, setCompletion] = useState<string | null>(null);
+  const pendingCompletionRef = useRef<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const setInputRef = useCallback((element: HTMLInputElement | null) => {
+    inputRef.current = element;
+  }, []);
+
+  const inline = autocomplete === 'inline' || autocomplete === 'both';
+  const isEnabled = (index: number) => {
+    const item = items[index];
+    return item !== undefined && !isItemDisabled?.(item);
+  };
+
+  // The results can shrink while an option is active
+  const activeIndex = activeIndexState < items.length ? activeIndexState : -1;
+
+  // Inline completion once the caller has filtered `items` for the typed text
+  useEffect(() => {
+    const typed = pendingCompletionRef.current;
+    if (typed === null || typed !== inputValue) {
+      return;
+    }
+    pendingCompletionRef.current = null;
+    const index = items.findIndex(
+      (item, i) => isEnabled(i) && itemToString(item).toLowerCase().startsWith(typed.toLowerCase())
+    );
+    if (index === -1) {
+      return;
+    }
+    if (autocomplete === 'both') {
+      setActiveIndex(index);
+    }
+    const text = itemToString(items[index] as T);
+    if (text.length > typed.length) {
+      setCompletion(typed + text.slice(typed.length));
+    }
+  });
+
+  // Select the completed part so typing replaces it
+  useLayoutEffect(() => {
+    const input = inputRef.current;
+    if (completion !== null && input && input.value === completion) {
+      const typedLength = inputValue.length;
+      if (completion.toLowerCase().startsWith(inputValue.toLowerCase())) {
+        input.setSelectionRange(typedLength, completion.length);
+      }
+    }
+  }, [completion, inputValue]);
+
+  useEffect(() => {
+    if (isOpen && activeIndex >= 0) {
+      const option = document.getElementById(`${baseId}-option-${activeIndex}`);
+      option?.scrollIntoView?.({ block: 'nearest' });
+    }
+  }, [isOpen, activeIndex, baseId]);
+
+  const open = useCallback(() => setIsOpen(true), [setIsOpen]);
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  }, [setIsOpen]);
+
+  const selectItem = (item: T | null) => {
+    setSelectedItem(item);
+    setInputValue(item === null ? '' : itemToString(item));
+    setCompletion(null);
+    close();
+  };
+
+  const findEnabled = (from: number, step: 1 | -1): number => {
+    for (let i = 0; i < items.length; i++) {
+      const index = (((from + step * i) % items.length) + items.length) % items.length;
+      if (isEnabled(index)) {
+        return index;
+      }
+    }
+    return -1;
+  };
+
+  const moveActive = (index: number) => {
+    setActiveIndex(index);
+    const item = items[index];
+    if (inline && item !== undefined) {
+      setCompletion(itemToString(item));
+    }
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (!isOpen) {
+          open();
+          if (!event.altKey) {
+            const selectedIndex = selectedItem === null ? -1 : items.indexOf(selectedItem);
+            moveActive(selectedIndex >= 0 ? selectedIndex : findEnabled(0, 1));
+          }
+        } else if (!event.altKey) {
+          moveActive(findEnabled(activeIndex + 1, 1));
+        }
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (event.altKey) {
+          if (isOpen && activeIndex >= 0) {
+            selectItem(items[activeIndex] as T);
+          } else {
+            close();
+          }
+        } else if (!isOpen) {
+          open();
+          moveActive(findEnabled(items.length - 1, -1));
+        } else {
+          moveActive(findEnabled(activeIndex < 0 ? items.length - 1 : activeIndex - 1, -1));
+        }
+        break;
+      case 'Enter':
+        if (isOpen && activeIndex >= 0 && isEnabled(activeIndex)) {
+          event.preventDefault();
+          selectItem(items[activeIndex] as T);
+        }
+        break;
+      case 'Escape':
+        event.preventDefault();
+        if (isOpen) {
+          setCompletion(null);
+          close();
+        } else {
+          setSelectedItem(null);
+          setInputValue('');
+        }
+        break;
+    }
+  };
+
+  const onChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    const deleting = (event.nativeEvent as InputEvent).inputType?.startsWith('delete') ?? false;
+    setCompletion(null);
+    setActiveIndex(-1);
+    pendingCompletionRef.current = inline && !deleting && value !== '' ? value : null;
+    setInputValue(value);
+    open();
+  };
+
+  const statusMessage = isOpen ? getResultsMessage(items.length) : '';
+  const activeDescendantId = activeIndex >= 0 ? getOptionId(activeIndex) : null;
+
+  const getLabelProps = () => ({ id: labelId, htmlFor: inputId });
+
+  const getInputProps = (): ComboboxInputProps => ({
+    ...createComboboxProps({ expanded: isOpen, listboxId, activeDescendantId, autocomplete }),
+    id: inputId,
+    ref: setInputRef,
+    type: 'text',
+    value: completion ?? inputValue,
+    autoComplete: 'off',
+    onChange,
+    onKeyDown,
+    onBlur: () => {
+      // Leaving accepts a suggestion shown inline, like Enter would
+      const suggested =
+        completion === null
+          ? -1
+          : items.findIndex(
+              (item, index) =>
+                isEnabled(index) && itemToString(item).toLowerCase() === completion.toLowerCase()
+            );
+      if (inline && suggested >= 0) {
+        selectItem(items[suggested] as T);
+        return;
+      }
+      setCompletion(null);
+      close();
+    },
+  });
+
+  const getListboxProps = (): ComboboxListboxProps => ({
+    id: listboxId,
+    role: 'listbox',
+    'aria-labelledby': labelId,
+    hidden: !isOpen,
+  });
+
+  const getOptionProps = (index: number): ComboboxOptionProps => {
+    const props: ComboboxOptionProps = {
+      ...createSelectedProps(index === activeIndex),
+      id: getOptionId(index),
+      role: 'option',
+      onClick: () => {
+        if (isEnabled(index)) {
+          selectItem(items[index] as T);
+        }
+      },
+      // Keep focus in the input
+      onMouseDown: (event) => event.preventDefault(),
+      onMouseMove: () => {
+        if (index !== activeIndex && isEnabled(index)) {
+          setActiveIndex(index);
+        }
+      },
+    };
+    if (!isEnabled(index)) {
+      props['aria-disabled'] = 'true';
+    }
+    return props;
+  };
+
+  const getStatusProps = (): ComboboxStatusProps => ({
+    ...createLiveRegion({ atomic: true }),
+    role: 'status',
+    style: srOnly,
+    children: statusMessage,
+  });
+
+  return {
+    isOpen,
+    inputValue,
+    selectedItem,
+    activeIndex,
+    statusMessage,
+    open,
+    close,
+    selectItem,
+    setActiveIndex,
+    getLabelProps,
+    getInputProps,
+    getListboxProps,
+    getOptionProps,
+    getStatusProps,
+  };
+}
@@ -0,0 +1,338 @@
+/**
+ * Dialog
+ * Modal dialogs and alert dialogs with an inert background, scroll lock and
+ * nested stacking
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useId, useLayoutEffect, useRef, useState, type RefObject } from 'react';
+import {
+  createDescribedByProps,
+  createDialogTriggerProps,
+  createLabelledByProps,
+  type AccessibilityProps,
+} from './index';
+import { containsOrOwns } from './dom';
+import { useFocusTrap } from './focus-scope';
+import { hideOthers } from './hide-others';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for useDialog
+ */
+export interface UseDialogOptions {
+  /** Initial state in uncontrolled mode (default: false) */
+  defaultOpen?: boolean;
+  /** Current state in controlled mode */
+  open?: boolean;
+  /** Called whenever the dialog opens or closes */
+  onOpenChange?: (open: boolean) => void;
+  /** Whether Escape closes the dialog (default: true) */
+  closeOnEscape?: boolean;
+  /** Whether pressing outside the dialog closes it (default: true) */
+  closeOnOutsideClick?: boolean;
+  /** Whether page scrolling is locked while the dialog is open (default: true) */
+  preventScroll?: boolean;
+  /** Element to focus when the dialog opens (default: the first tabbable element) */
+  initialFocus?: RefObject<HTMLElement | null>;
+  /** Whether focus returns to the previously focused element on close (default: true) */
+  restoreFocus?: boolean;
+  /** ID of the dialog; a generated, SSR-stable ID is used when omitted */
+  id?: string;
+}
+
+/**
+ * Options for useAlertDialog
+ * Alert dialogs interrupt the user, so they never close on an outside click.
+ */
+export type UseAlertDialogOptions = Omit<UseDialogOptions, 'closeOnOutsideClick'>;
+
+/**
+ * Props for the button that opens the dialog
+ */
+export interface DialogTriggerProps extends AccessibilityProps {
+  onClick: () => void;
+}
+
+/**
+ * Props for the dialog element
+ */
+export interface DialogProps extends AccessibilityProps {
+  id: string;
+  role: 'dialog' | 'alertdialog';
+  'aria-modal': 'true';
+  tabIndex: -1;
+  ref: (element: HTMLElement | null) => void;
+}
+
+/**
+ * Props for the dialog title
+ */
+export interface DialogTitleProps {
+  id: string;
+}
+
+/**
+ * Props for the dialog description
+ */
+export interface DialogDescriptionProps {
+  id: string;
+  ref: (element: HTMLElement | null) => void;
+}
+
+/**
+ * Return value of useDialog and useAlertDialog
+ */
+export interface UseDialogResult {
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+  getTriggerProps: () => DialogTriggerProps;
+  getDialogProps: () => DialogProps;
+  getTitleProps: () => DialogTitleProps;
+  getDescriptionProps: () => DialogDescriptionProps;
+}
+
+// ============================================================================
+// Dialog Stack
+// ============================================================================
+
+/**
+ * Open dialogs, innermost last. Only the innermost dialog reacts to Escape and
+ * outside clicks, so closing a nested dialog leaves its parent open.
+ */
+const dialogStack: object[] = [];
+
+function isTopDialog(entry: object): boolean {
+  return dialogStack[dialogStack.length - 1] === entry;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+let scrollLockCount = 0;
+let savedBodyStyle: { overflow: string; paddingRight: string } | null = null;
+
+/**
+ * Locks page scrolling, padding the body by the scrollbar width so the layout
+ * does not shift when the scrollbar disappears; nested locks are counted
+ *
+ * @returns A function releasing this lock
+ */
+function lockScroll(): () => void {
+  const { body, documentElement } = document;
+  if (scrollLockCount === 0) {
+    savedBodyStyle = { overflow: body.style.overflow, paddingRight: body.style.paddingRight };
+    const scrollbarWidth =
+      documentElement.clientWidth > 0 ? window.innerWidth - documentElement.clientWidth : 0;
+    if (scrollbarWidth > 0) {
+      const padding = parseFloat(window.getComputedStyle(body).paddingRight) || 0;
+      body.style.paddingRight = `${padding + scrollbarWidth}px`;
+    }
+    body.style.overflow = 'hidden';
+  }
+  scrollLockCount++;
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    scrollLockCount--;
+    if (scrollLockCount === 0 && savedBodyStyle) {
+      body.style.overflow = savedBodyStyle.overflow;
+      body.style.paddingRight = savedBodyStyle.paddingRight;
+      savedBodyStyle = null;
+    }
+  };
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA modal dialog pattern
+ * While open, the dialog traps focus (via useFocusTrap), everything outside it
+ * except live regions is inert (via hideOthers, with an `aria-hidden` fallback)
+ * and page scrolling is locked. Popups the dialog owns through `aria-controls`
+ * or `aria-owns`, such as a listbox portaled to the body, count as inside it:
+ * they stay exposed and focusable, and pressing them does not close it. Escape
+ * and outside clicks close it, and nested dialogs stack: only the innermost
+ * one reacts, and closing it returns focus to its parent. The dialog is
+ * labelled by the title and, once it is rendered, described by the description.
+ *
+ * @param options - Configuration options
+ * @returns The open state, actions and prop getters for the trigger, dialog,
+ * title and description
+ *
+ * @example
+ * ```tsx
+ * const dialog = useDialog();
+ *
+ * <button {...dialog.getTriggerProps()}>Edit profile</button>
+ * {dialog.isOpen && (
+ *   <div {...dialog.getDialogProps()}>
+ *     <h2 {...dialog.getTitleProps()}>Edit profile</h2>
+ *     <p {...dialog.getDescriptionProps()}>Changes are saved automatically.</p>
+ *     <button onClick={dialog.close}>Done</button>
+ *   </div>
+ * )}
+ * ```
+ */
+export function useDialog(options: UseDialogOptions = {}): UseDialogResult {
+  return useDialogWithRole('dialog', options);
+}
+
+/**
+ * Implements the ARIA alert dialog pattern
+ * Behaves like useDialog with `role="alertdialog"`, except that outside clicks
+ * never close it. Pass `initialFocus` to focus the least destructive action.
+ *
+ * @param options - Configuration options
+ * @returns The open state, actions and prop getters for the trigger, dialog,
+ * title and description
+ *
+ * @example
+ * ```tsx
+ * const confirm = useAlertDialog({ initialFocus: cancelRef });
+ *
+ * {confirm.isOpen && (
+ *   <div {...confirm.getDialogProps()}>
+ *     <h2 {...confirm.getTitleProps()}>Delete file?</h2>
+ *     <p {...confirm.getDescriptionProps()}>This cannot be undone.</p>
+ *     <button ref={cancelRef} onClick={confirm.close}>Cancel</button>
+ *     <button onClick={deleteFile}>Delete</button>
+ *   </div>
+ * )}
+ * ```
+ */
+export function useAlertDialog(options: UseAlertDialogOptions = {}): UseDialogResult {
+  return useDialogWithRole('alertdialog', { ...options, closeOnOutsideClick: false });
+}
+
+function useDialogWithRole(
+  role: 'dialog' | 'alertdialog',
+  options: UseDialogOptions
+): UseDialogResult {
+  const {
+    defaultOpen = false,
+    open,
+    onOpenChange,
+    closeOnEscape = true,
+    closeOnOutsideClick = true,
+    preventScroll = true,
+    initialFocus,
+    restoreFocus = true,
+    id,
+  } = options;
+  const generatedId = useId();
+  const dialogId = id ?? `${generatedId}-dialog`;
+  const titleId = `${dialogId}-title`;
+  const descriptionId = `${dialogId}-description`;
+
+  const [isOpen, setIsOpen] = useControllableState(open, defaultOpen, onOpenChange);
+  const [hasDescription, setHasDescription] = useState(false);
+  const setDescriptionRef = useCallback(
+    (element: HTMLElement | null) => setHasDescription(element !== null),
+    []
+  );
+  const setTrapRef = useFocusTrap<HTMLElement>({ active: isOpen, initialFocus, restoreFocus });
+  const [dialog, setDialog] = useState<HTMLElement | null>(null);
+  const setDialogRef = useCallback(
+    (element: HTMLElement | null) => {
+      setTrapRef(element);
+      setDialog(element);
+    },
+    [setTrapRef]
+  );
+  const optionsRef = useRef({ closeOnEscape, closeOnOutsideClick, preventScroll });
+  optionsRef.current = { closeOnEscape, closeOnOutsideClick, preventScroll };
+
+  const openDialog = useCallback(() => setIsOpen(true), [setIsOpen]);
+  const close = useCallback(() => setIsOpen(false), [setIsOpen]);
+
+  // A layout effect, so the background is restored before useFocusTrap returns focus to it
+  useLayoutEffect(() => {
+    if (!isOpen || !dialog) {
+      return;
+    }
+
+    const entry = {};
+    dialogStack.push(entry);
+    const restoreOutside = hideOthers(dialog, { inert: true });
+    const releaseScroll = optionsRef.current.preventScroll ? lockScroll() : undefined;
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      // Content that handled Escape itself, e.g. closing a listbox, keeps the dialog open
+      if (event.defaultPrevented) {
+        return;
+      }
+      if (event.key === 'Escape' && optionsRef.current.closeOnEscape && isTopDialog(entry)) {
+        event.preventDefault();
+        close();
+      }
+    };
+    const onMouseDown = (event: MouseEvent) => {
+      if (
+        optionsRef.current.closeOnOutsideClick &&
+        isTopDialog(entry) &&
+        event.target instanceof Node &&
+        !containsOrOwns(dialog, event.target)
+      ) {
+        close();
+      }
+    };
+    document.addEventListener('keydown', onKeyDown);
+    document.addEventListener('mousedown', onMouseDown);
+
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+      document.removeEventListener('mousedown', onMouseDown);
+      releaseScroll?.();
+      restoreOutside();
+      const index = dialogStack.indexOf(entry);
+      if (index !== -1) {
+        dialogStack.splice(index, 1);
+      }
+    };
+  }, [isOpen, close, dialog]);
+
+  const getTriggerProps = (): DialogTriggerProps => ({
+    ...createDialogTriggerProps(dialogId, isOpen),
+    onClick: openDialog,
+  });
+
+  const getDialogProps = (): DialogProps => ({
+    ...createLabelledByProps(titleId),
+    ...(hasDescription ? createDescribedByProps(descriptionId) : {}),
+    id: dialogId,
+    role,
+    'aria-modal': 'true',
+    tabIndex: -1,
+    ref: setDialogRef,
+  });
+
+  const getTitleProps = (): DialogTitleProps => ({ id: titleId });
+
+  const getDescriptionProps = (): DialogDescriptionProps => ({
+    id: descriptionId,
+    ref: setDescriptionRef,
+  });
+
+  return {
+    isOpen,
+    open: openDialog,
+    close,
+    getTriggerProps,
+    getDialogProps,
+    getTitleProps,
+    getDescriptionProps,
+  };
+}
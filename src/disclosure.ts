@@ -0,0 +1,122 @@
+/**
+ * Disclosure
+ * State, IDs and event handlers around createDisclosureProps
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useId, useRef, type KeyboardEvent } from 'react';
+import { createDisclosureProps, type DisclosureProps } from './index';
+import { focusElement } from './dom';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for useDisclosure
+ */
+export interface UseDisclosureOptions {
+  /** Initial state in uncontrolled mode (default: false) */
+  defaultOpen?: boolean;
+  /** Current state in controlled mode */
+  open?: boolean;
+  /** Called whenever the disclosure opens or closes */
+  onOpenChange?: (open: boolean) => void;
+  /** Whether Escape closes the panel and returns focus to the trigger (default: false) */
+  closeOnEscape?: boolean;
+  /** Base ID for the panel; a generated, SSR-stable ID is used when omitted */
+  id?: string;
+}
+
+/**
+ * Props for the disclosure trigger
+ */
+export interface DisclosureTriggerProps extends DisclosureProps {
+  id: string;
+  ref: (element: HTMLElement | null) => void;
+  onClick: () => void;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+}
+
+/**
+ * Props for the disclosure panel
+ */
+export interface DisclosurePanelProps {
+  id: string;
+  hidden: boolean;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+}
+
+/**
+ * Return value of useDisclosure
+ */
+export interface UseDisclosureResult {
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+  toggle: () => void;
+  getTriggerProps: () => DisclosureTriggerProps;
+  getPanelProps: () => DisclosurePanelProps;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Owns the open state and IDs of a disclosure (show/hide) widget
+ * Works controlled (`open` + `onOpenChange`) or uncontrolled (`defaultOpen`).
+ *
+ * @param options - Configuration options
+ * @returns The open state, actions and prop getters for the trigger and panel
+ *
+ * @example
+ * ```tsx
+ * const { getTriggerProps, getPanelProps } = useDisclosure({ closeOnEscape: true });
+ *
+ * <button {...getTriggerProps()}>Show details</button>
+ * <div {...getPanelProps()}>Details</div>
+ * ```
+ */
+export function useDisclosure(options: UseDisclosureOptions = {}): UseDisclosureResult {
+  const { defaultOpen = false, open, onOpenChange, closeOnEscape = false, id } = options;
+  const generatedId = useId();
+  const panelId = id ?? `${generatedId}-panel`;
+  const triggerId = `${panelId}-trigger`;
+  const triggerRef = useRef<HTMLElement | null>(null);
+  const setTriggerRef = useCallback((element: HTMLElement | null) => {
+    triggerRef.current = element;
+  }, []);
+
+  const [isOpen, setIsOpen] = useControllableState(open, defaultOpen, onOpenChange);
+
+  const openDisclosure = useCallback(() => setIsOpen(true), [setIsOpen]);
+  const close = useCallback(() => setIsOpen(false), [setIsOpen]);
+  const toggle = useCallback(() => setIsOpen((prev) => !prev), [setIsOpen]);
+
+  const onKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (!closeOnEscape || !isOpen || event.key !== 'Escape') {
+      return;
+    }
+    event.preventDefault();
+    close();
+    focusElement(triggerRef.current);
+  };
+
+  const getTriggerProps = (): DisclosureTriggerProps => ({
+    ...createDisclosureProps(isOpen, panelId),
+    id: triggerId,
+    ref: setTriggerRef,
+    onClick: toggle,
+    onKeyDown,
+  });
+
+  const getPanelProps = (): DisclosurePanelProps => ({
+    id: panelId,
+    hidden: !isOpen,
+    onKeyDown,
+  });
+
+  return { isOpen, open: openDisclosure, close, toggle, getTriggerProps, getPanelProps };
+}
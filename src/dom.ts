@@ -0,0 +1,270 @@
+/**
+ * DOM helpers shared by the hooks in this package
+ * Not part of the public API
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+/**
+ * Elements that can receive focus, before tabindex/disabled/hidden filtering
+ */
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'area[href]',
+  'button',
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  'iframe',
+  'audio[controls]',
+  'video[controls]',
+  'summary',
+  '[contenteditable]:not([contenteditable="false"])',
+  '[tabindex]',
+].join(',');
+
+/**
+ * Whether an element is rendered in a way that lets it take focus
+ * Layout is not consulted so the check also works in jsdom
+ */
+function isAvailable(element: HTMLElement): boolean {
+  if ((element as HTMLButtonElement).disabled) {
+    return false;
+  }
+  return !element.closest('[hidden], [inert]');
+}
+
+/**
+ * Returns every focusable element inside a container, in DOM order
+ *
+ * @param container - The element to search
+ * @returns Focusable descendants, including those with a negative tabindex
+ */
+export function getFocusableElements(container: ParentNode): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)).filter(
+    isAvailable
+  );
+}
+
+/**
+ * Returns the elements inside a container that are reachable with Tab
+ *
+ * @param container - The element to search
+ * @returns Tabbable descendants, in DOM order
+ */
+export function getTabbableElements(container: ParentNode): HTMLElement[] {
+  return getFocusableElements(container).filter((element) => element.tabIndex >= 0);
+}
+
+/**
+ * Focuses an element without scrolling it into view when supported
+ *
+ * @param element - The element to focus
+ */
+export function focusElement(element: HTMLElement | null | undefined): void {
+  element?.focus({ preventScroll: true });
+}
+
+/**
+ * Whether an item element is disabled, either natively or through
+ * `aria-disabled` (e.g. when `disabledProps` is spread onto it)
+ */
+export function isItemDisabled(element: HTMLElement): boolean {
+  return (
+    (element as HTMLButtonElement).disabled === true ||
+    element.getAttribute('aria-disabled') === 'true'
+  );
+}
+
+/**
+ * Sorts registered `[key, element]` pairs into DOM order
+ */
+export function sortByDocumentPosition<T>(
+  entries: Array<[T, HTMLElement]>
+): Array<[T, HTMLElement]> {
+  return entries.sort(([, a], [, b]) =>
+    a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+  );
+}
+
+/**
+ * Returns the elements outside a container that it owns: those referenced by
+ * `aria-controls` or `aria-owns` inside it, such as a listbox or menu portaled
+ * to the body, and in turn the elements those own
+ *
+ * @param container - The owning element
+ * @returns Owned elements outside the container
+ */
+export function getOwnedElements(container: Element): Element[] {
+  const owned: Element[] = [];
+  const owners: Element[] = [container];
+  for (let i = 0; i < owners.length; i++) {
+    const owner = owners[i] as Element;
+    const references = [
+      owner,
+      ...Array.from(owner.querySelectorAll('[aria-controls], [aria-owns]')),
+    ];
+    for (const reference of references) {
+      const ids = ['aria-controls', 'aria-owns'].flatMap(
+        (name) => reference.getAttribute(name)?.split(/\s+/) ?? []
+      );
+      for (const id of ids.filter(Boolean)) {
+        const element = owner.ownerDocument.getElementById(id);
+        if (element && !owners.some((known) => known.contains(element))) {
+          owned.push(element);
+          owners.push(element);
+        }
+      }
+    }
+  }
+  return owned;
+}
+
+/**
+ * Whether a node is inside a container or inside an element it owns
+ * (see getOwnedElements)
+ */
+export function containsOrOwns(container: Element, node: Node): boolean {
+  return (
+    container.contains(node) || getOwnedElements(container).some((owned) => owned.contains(node))
+  );
+}
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  email: 'textbox',
+  image: 'button',
+  number: 'spinbutton',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  search: 'searchbox',
+  submit: 'button',
+  tel: 'textbox',
+  text: 'textbox',
+  url: 'textbox',
+};
+
+const ELEMENT_ROLES: Record<string, string> = {
+  article: 'article',
+  aside: 'complementary',
+  blockquote: 'blockquote',
+  button: 'button',
+  caption: 'caption',
+  code: 'code',
+  dd: 'definition',
+  del: 'deletion',
+  details: 'group',
+  dialog: 'dialog',
+  div: 'generic',
+  dt: 'term',
+  em: 'emphasis',
+  fieldset: 'group',
+  figure: 'figure',
+  footer: 'contentinfo',
+  form: 'form',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  header: 'banner',
+  hr: 'separator',
+  ins: 'insertion',
+  li: 'listitem',
+  main: 'main',
+  menu: 'list',
+  meter: 'meter',
+  nav: 'navigation',
+  ol: 'list',
+  optgroup: 'group',
+  option: 'option',
+  output: 'status',
+  p: 'paragraph',
+  progress: 'progressbar',
+  search: 'search',
+  section: 'region',
+  span: 'generic',
+  strong: 'strong',
+  sub: 'subscript',
+  sup: 'superscript',
+  table: 'table',
+  tbody: 'rowgroup',
+  td: 'cell',
+  textarea: 'textbox',
+  tfoot: 'rowgroup',
+  th: 'columnheader',
+  thead: 'rowgroup',
+  time: 'time',
+  tr: 'row',
+  ul: 'list',
+};
+
+/**
+ * Returns the implicit ARIA role of an element from its tag and attributes
+ * Follows HTML-AAM for the common cases, without consulting context such as
+ * whether a `<header>` is scoped to the body.
+ *
+ * @param element - The element to inspect
+ * @returns The implicit role, or null when the element has none
+ */
+export function getImplicitRole(element: Element): string | null {
+  const tag = element.localName;
+  switch (tag) {
+    case 'a':
+    case 'area':
+      return element.hasAttribute('href') ? 'link' : tag === 'a' ? 'generic' : null;
+    case 'img':
+      return element.getAttribute('alt') === '' ? 'presentation' : 'img';
+    case 'input': {
+      const type = (element.getAttribute('type') ?? 'text').toLowerCase();
+      if (
+        element.hasAttribute('list') &&
+        ['email', 'search', 'tel', 'text', 'url'].includes(type)
+      ) {
+        return 'combobox';
+      }
+      return INPUT_ROLES[type] ?? null;
+    }
+    case 'select': {
+      const select = element as HTMLSelectElement;
+      return select.multiple || select.size > 1 ? 'listbox' : 'combobox';
+    }
+    default:
+      return ELEMENT_ROLES[tag] ?? null;
+  }
+}
+
+/**
+ * Returns the role of an element: the first token of its `role` attribute
+ * when present, otherwise its implicit role
+ *
+ * @param element - The element to inspect
+ * @returns The role, or null when the element has none
+ */
+export function getElementRole(element: Element): string | null {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+  return explicit || getImplicitRole(element);
+}
+
+/**
+ * Whether an element is hidden from assistive technologies: it or an ancestor
+ * has `aria-hidden="true"`, the `hidden` attribute, `display: none` or
+ * `visibility: hidden`. Visually hidden content (e.g. `srOnly`) is not hidden.
+ *
+ * @param element - The element to inspect
+ */
+export function isHiddenFromAccessibility(element: Element): boolean {
+  const view = element.ownerDocument.defaultView;
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    if (node.getAttribute('aria-hidden') === 'true' || node.hasAttribute('hidden')) {
+      return true;
+    }
+    const style = view?.getComputedStyle(node);
+    if (style?.display === 'none' || style?.visibility === 'hidden') {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,225 @@
+/**
+ * Focus Scope
+ * Keeps keyboard focus inside a container (e.g. a modal dialog) and returns it
+ * to the trigger when the container goes away
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import {
+  useEffect,
+  useInsertionEffect,
+  useRef,
+  useState,
+  type ReactNode,
+  type RefObject,
+} from 'react';
+import { containsOrOwns, focusElement, getTabbableElements } from './dom';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for trapping focus inside a container
+ */
+export interface FocusTrapOptions {
+  /** Whether focus is currently trapped (default: true) */
+  active?: boolean;
+  /**
+   * Element to focus when the trap activates, or `false` to leave focus alone
+   * (default: the first tabbable element, or the container itself)
+   */
+  initialFocus?: RefObject<HTMLElement | null> | false;
+  /** Whether to return focus to the previously focused element on deactivation (default: true) */
+  restoreFocus?: boolean;
+}
+
+/**
+ * Props for the FocusScope component
+ */
+export interface FocusScopeProps extends FocusTrapOptions {
+  children?: ReactNode;
+}
+
+interface ScopeEntry {
+  container: HTMLElement;
+  lastFocused: HTMLElement | null;
+}
+
+// ============================================================================
+// Scope Stack
+// ============================================================================
+
+/**
+ * Active scopes, innermost last. Only the innermost scope traps focus so that a
+ * nested dialog can take over from its parent and hand focus back on close.
+ */
+const scopeStack: ScopeEntry[] = [];
+
+function isTopScope(scope: ScopeEntry): boolean {
+  return scopeStack[scopeStack.length - 1] === scope;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Traps focus inside the element the returned ref is attached to
+ * Tab and Shift+Tab wrap around the tabbable elements, which are looked up on
+ * every key press so elements added while the trap is active are included.
+ * Focus may also move into popups the container owns through `aria-controls`
+ * or `aria-owns`, such as a listbox portaled to the body.
+ *
+ * @param options - Configuration options for the focus trap
+ * @returns A callback ref to attach to the container element
+ *
+ * @example
+ * ```tsx
+ * const dialogRef = useFocusTrap<HTMLDivElement>({ active: isOpen });
+ *
+ * <button {...createDialogTriggerProps('dialog', isOpen)} onClick={open}>Open</button>
+ * {isOpen && <div id="dialog" role="dialog" ref={dialogRef}>...</div>}
+ * ```
+ */
+export function useFocusTrap<T extends HTMLElement = HTMLElement>(
+  options: FocusTrapOptions = {}
+): (element: T | null) => void {
+  const { active = true } = options;
+  // State rather than a ref, so a container mounted after activation is trapped too
+  const [container, setContainer] = useState<T | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Read in the mutation phase of each commit until the trap starts, since
+  // children with autoFocus take focus later in the commit that mounts them
+  const openerRef = useRef<HTMLElement | null>(null);
+  const trappingRef = useRef(false);
+  useInsertionEffect(() => {
+    const focused = document.activeElement as HTMLElement | null;
+    if (active && !trappingRef.current && !(focused && container?.contains(focused))) {
+      openerRef.current = focused;
+    }
+  });
+
+  useEffect(() => {
+    if (!active || !container) {
+      return;
+    }
+
+    const { initialFocus, restoreFocus = true } = optionsRef.current;
+    const previouslyFocused = openerRef.current;
+    const scope: ScopeEntry = { container, lastFocused: null };
+    scopeStack.push(scope);
+    trappingRef.current = true;
+
+    let addedTabIndex = false;
+    const focusFallback = () => {
+      const target = getTabbableElements(container)[0];
+      if (target) {
+        focusElement(target);
+        return;
+      }
+      if (!container.hasAttribute('tabindex')) {
+        container.tabIndex = -1;
+        addedTabIndex = true;
+      }
+      focusElement(container);
+    };
+
+    if (initialFocus) {
+      focusElement(initialFocus.current);
+    } else if (initialFocus !== false && !container.contains(document.activeElement)) {
+      focusFallback();
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Tab' || event.altKey || event.ctrlKey || event.metaKey) {
+        return;
+      }
+      if (!isTopScope(scope)) {
+        return;
+      }
+
+      const tabbables = getTabbableElements(container);
+      const first = tabbables[0];
+      const last = tabbables[tabbables.length - 1];
+      const current = document.activeElement;
+
+      if (!first || !last) {
+        event.preventDefault();
+        return;
+      }
+
+      const outside = !container.contains(current) || current === container;
+      if (event.shiftKey && (current === first || outside)) {
+        event.preventDefault();
+        focusElement(last);
+      } else if (!event.shiftKey && (current === last || outside)) {
+        event.preventDefault();
+        focusElement(first);
+      }
+    };
+
+    const onFocusIn = (event: FocusEvent) => {
+      if (!isTopScope(scope)) {
+        return;
+      }
+      const target = event.target as HTMLElement;
+      // Popups the container owns, e.g. a listbox portaled to the body, are part of the scope
+      if (containsOrOwns(container, target)) {
+        scope.lastFocused = target;
+        return;
+      }
+      if (scope.lastFocused?.isConnected && container.contains(scope.lastFocused)) {
+        focusElement(scope.lastFocused);
+      } else {
+        focusFallback();
+      }
+    };
+
+    document.addEventListener('keydown', onKeyDown, true);
+    document.addEventListener('focusin', onFocusIn, true);
+
+    return () => {
+      document.removeEventListener('keydown', onKeyDown, true);
+      document.removeEventListener('focusin', onFocusIn, true);
+
+      const index = scopeStack.indexOf(scope);
+      if (index !== -1) {
+        scopeStack.splice(index, 1);
+      }
+      trappingRef.current = false;
+      if (addedTabIndex) {
+        container.removeAttribute('tabindex');
+      }
+      if (restoreFocus && previouslyFocused?.isConnected) {
+        focusElement(previouslyFocused);
+      }
+    };
+  }, [active, container]);
+
+  return setContainer;
+}
+
+// ============================================================================
+// Components
+// ============================================================================
+
+/**
+ * Component form of useFocusTrap that wraps its children in a focus scope
+ * Scopes can be nested; the innermost active scope owns focus.
+ *
+ * @example
+ * ```tsx
+ * {isOpen && (
+ *   <FocusScope initialFocus={closeButtonRef}>
+ *     <div role="dialog" aria-modal="true" aria-labelledby="dialog-title">...</div>
+ *   </FocusScope>
+ * )}
+ * ```
+ */
+export function FocusScope({ children, ...options }: FocusScopeProps) {
+  const ref = useFocusTrap<HTMLDivElement>(options);
+  return <div ref={ref}>{children}</div>;
+}
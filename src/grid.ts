@@ -0,0 +1,491 @@
+/**
+ * Grid
+ * Grid and treegrid props with two-dimensional keyboard navigation, cell or
+ * row focus and index/count attributes for virtualized rows
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useId,
+  useRef,
+  useState,
+  type FocusEvent,
+  type KeyboardEvent,
+} from 'react';
+import type { AccessibilityProps } from './index';
+import { focusElement } from './dom';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What receives keyboard focus in a grid
+ * - `cell`: arrow keys move between cells
+ * - `row`: arrow keys move between whole rows (e.g. treegrid rows)
+ */
+export type GridFocusMode = 'cell' | 'row';
+
+/**
+ * Zero-based coordinates of a cell
+ */
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+/**
+ * Options for createGridProps
+ */
+export interface GridPropsOptions {
+  /** Total number of rows, including rows that are not rendered */
+  rowCount?: number;
+  /** Total number of columns, including columns that are not rendered */
+  colCount?: number;
+  /** Whether the grid is a treegrid (default: false) */
+  treegrid?: boolean;
+  /** Whether more than one cell or row can be selected (default: false) */
+  multiselectable?: boolean;
+}
+
+/**
+ * Accessibility props for a grid container
+ */
+export interface GridProps extends AccessibilityProps {
+  role: 'grid' | 'treegrid';
+}
+
+/**
+ * Options for useGrid
+ */
+export interface UseGridOptions {
+  /** Total number of rows, including header rows and rows outside the rendered window */
+  rowCount: number;
+  /** Total number of columns */
+  colCount: number;
+  /** What receives focus (default: 'cell') */
+  focusMode?: GridFocusMode;
+  /** Whether the grid is a treegrid (default: false) */
+  treegrid?: boolean;
+  /** Rows moved by PageUp and PageDown (default: 10) */
+  pageSize?: number;
+  /** The cell (or row, in row mode) holding the tab stop initially (default: the first) */
+  defaultFocusedCell?: GridCell;
+  /**
+   * Called when focus moves; virtualized grids should render the focused row,
+   * which is then focused as soon as it mounts
+   */
+  onFocusedCellChange?: (cell: GridCell) => void;
+  /** Called when a treegrid row is expanded with ArrowRight or collapsed with ArrowLeft */
+  onRowExpandedChange?: (row: number, expanded: boolean) => void;
+  /** Base ID for the rows and cells; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Options for a single row
+ */
+export interface GridRowOptions {
+  /** Nesting level of a treegrid row (1-based) */
+  level?: number;
+  /** Position among the rows sharing its parent (1-based) */
+  posinset?: number;
+  /** Number of rows sharing its parent */
+  setsize?: number;
+  /** Expanded state of a treegrid row with children; omit for leaf rows */
+  expanded?: boolean;
+}
+
+/**
+ * Options for a single cell
+ */
+export interface GridCellOptions {
+  /** Renders the cell as a column or row header */
+  header?: 'column' | 'row';
+  /** Number of columns the cell spans */
+  colSpan?: number;
+  /** Number of rows the cell spans */
+  rowSpan?: number;
+}
+
+/**
+ * Props for the grid container
+ */
+export interface GridContainerProps extends GridProps {
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+  ref: (element: HTMLElement | null) => void;
+}
+
+/**
+ * Props for a row
+ */
+export interface GridRowProps extends AccessibilityProps {
+  id: string;
+  role: 'row';
+  'aria-rowindex': number;
+  tabIndex?: number;
+  onFocus?: (event: FocusEvent<HTMLElement>) => void;
+}
+
+/**
+ * Props for a cell
+ */
+export interface GridCellProps extends AccessibilityProps {
+  id: string;
+  role: 'gridcell' | 'columnheader' | 'rowheader';
+  'aria-colindex': number;
+  tabIndex?: number;
+  onFocus?: () => void;
+}
+
+/**
+ * A spanning cell and the coordinates it covers
+ */
+interface GridCellSpan {
+  origin: GridCell;
+  colSpan: number;
+  rowSpan: number;
+}
+
+/**
+ * Return value of useGrid
+ */
+export interface UseGridResult {
+  /** The cell (or, in row mode, the row with `col` 0) holding the tab stop */
+  focusedCell: GridCell;
+  /** Moves focus to a cell (or row), rendering it first if it is virtualized */
+  focusCell: (cell: GridCell) => void;
+  getGridProps: () => GridContainerProps;
+  getRowProps: (row: number, options?: GridRowOptions) => GridRowProps;
+  getCellProps: (row: number, col: number, options?: GridCellOptions) => GridCellProps;
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Creates props for a grid or treegrid container
+ *
+ * Set the counts when not every row or column is in the DOM, so assistive
+ * technologies report the real size of the grid.
+ *
+ * @param options - Grid configuration
+ * @returns Accessibility props for the grid
+ *
+ * @example
+ * ```tsx
+ * <div {...createGridProps({ rowCount: 1000, colCount: 4 })} aria-label="Orders">
+ *   <div role="row" aria-rowindex={41}>...</div>
+ * </div>
+ * ```
+ */
+export function createGridProps(options: GridPropsOptions = {}): GridProps {
+  const { rowCount, colCount, treegrid = false, multiselectable = false } = options;
+  const props: GridProps = { role: treegrid ? 'treegrid' : 'grid' };
+  if (rowCount !== undefined) {
+    props['aria-rowcount'] = rowCount;
+  }
+  if (colCount !== undefined) {
+    props['aria-colcount'] = colCount;
+  }
+  if (multiselectable) {
+    props['aria-multiselectable'] = 'true';
+  }
+  return props;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The spanning cell covering `cell` in the rendered grid, read from the
+ * `aria-colspan`/`aria-rowspan` attributes the cell props set; cells that are
+ * not covered span themselves
+ */
+function findSpan(grid: HTMLElement | null, cell: GridCell): GridCellSpan {
+  const spanning = grid ? Array.from(grid.querySelectorAll('[aria-colspan], [aria-rowspan]')) : [];
+  for (const element of spanning) {
+    const row = Number(element.closest('[role="row"]')?.getAttribute('aria-rowindex')) - 1;
+    const col = Number(element.getAttribute('aria-colindex')) - 1;
+    const colSpan = Number(element.getAttribute('aria-colspan') ?? 1);
+    const rowSpan = Number(element.getAttribute('aria-rowspan') ?? 1);
+    if (
+      cell.row >= row &&
+      cell.row < row + rowSpan &&
+      cell.col >= col &&
+      cell.col < col + colSpan
+    ) {
+      return { origin: { row, col }, colSpan, rowSpan };
+    }
+  }
+  return { origin: cell, colSpan: 1, rowSpan: 1 };
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA grid and treegrid keyboard model
+ * Arrow keys move one cell, Home and End move to the first and last cell of
+ * the row, Ctrl+Home and Ctrl+End to the first and last cell of the grid and
+ * PageUp and PageDown by `pageSize` rows. Moving into a column or row covered
+ * by a spanning cell focuses that cell. In row mode, ArrowUp and ArrowDown
+ * move between rows and, in a treegrid, ArrowRight and ArrowLeft expand and
+ * collapse the focused row. ArrowRight on an expanded row or a leaf moves into
+ * its first cell, ArrowLeft on a collapsed row or a leaf moves to its parent
+ * row, and ArrowLeft from the first cell returns to the row. Rows and cells get `aria-rowindex` and
+ * `aria-colindex` from their position in the full grid, so only the rendered
+ * window of a virtualized grid needs to be in the DOM.
+ *
+ * @param options - Configuration options
+ * @returns The focused cell and prop getters
+ *
+ * @example
+ * ```tsx
+ * const grid = useGrid({ rowCount: rows.length, colCount: 3 });
+ *
+ * <div {...grid.getGridProps()} aria-label="Orders">
+ *   {visibleRows.map(({ index, cells }) => (
+ *     <div key={index} {...grid.getRowProps(index)}>
+ *       {cells.map((cell, col) => (
+ *         <div key={col} {...grid.getCellProps(index, col)}>{cell}</div>
+ *       ))}
+ *     </div>
+ *   ))}
+ * </div>
+ * ```
+ */
+export function useGrid(options: UseGridOptions): UseGridResult {
+  const { rowCount, colCount, focusMode = 'cell', treegrid = false, pageSize = 10 } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const getRowDomId = (row: number) => `${baseId}-row-${row}`;
+  const getCellDomId = (row: number, col: number) => `${baseId}-cell-${row}-${col}`;
+
+  const [focusedState, setFocusedState] = useState<GridCell>(
+    options.defaultFocusedCell ?? { row: 0, col: 0 }
+  );
+  // In row mode, whether focus moved from the row into one of its cells
+  const [cellFocusedInRow, setCellFocusedInRow] = useState(false);
+  const rowFocused = focusMode === 'row' && !cellFocusedInRow;
+  const focusedCell: GridCell = {
+    row: Math.min(Math.max(focusedState.row, 0), Math.max(rowCount - 1, 0)),
+    col: rowFocused ? 0 : Math.min(Math.max(focusedState.col, 0), Math.max(colCount - 1, 0)),
+  };
+  // The element to focus once it is rendered; virtualized rows may mount later
+  const pendingFocusRef = useRef<string | null>(null);
+  // Spans, levels and expanded states are read from the rendered rows and cells
+  // on key press, so rows that skipped a render (e.g. memoized ones) still count
+  const gridRef = useRef<HTMLElement | null>(null);
+  const setGridRef = useCallback((element: HTMLElement | null) => {
+    gridRef.current = element;
+  }, []);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    const pending = pendingFocusRef.current;
+    const element = pending ? document.getElementById(pending) : null;
+    if (element) {
+      pendingFocusRef.current = null;
+      focusElement(element);
+    }
+  });
+
+  // Coordinates covered by a spanning cell resolve to that cell, which is the one rendered
+  const getSpan = (cell: GridCell) => findSpan(gridRef.current, cell);
+  const getRowAttribute = (row: number, name: string) =>
+    document.getElementById(getRowDomId(row))?.getAttribute(name) ?? null;
+
+  const moveFocus = (cell: GridCell, toRow: boolean) => {
+    const clamped: GridCell = {
+      row: Math.min(Math.max(cell.row, 0), rowCount - 1),
+      col: toRow ? 0 : Math.min(Math.max(cell.col, 0), colCount - 1),
+    };
+    const next = toRow ? clamped : getSpan(clamped).origin;
+    pendingFocusRef.current = toRow ? getRowDomId(next.row) : getCellDomId(next.row, next.col);
+    setFocusedState(next);
+    if (focusMode === 'row') {
+      setCellFocusedInRow(!toRow);
+    }
+    if (next.row !== focusedCell.row || next.col !== focusedCell.col) {
+      optionsRef.current.onFocusedCellChange?.(next);
+    }
+    // Already rendered (e.g. focus returning to the current cell)
+    const element = document.getElementById(pendingFocusRef.current);
+    if (element) {
+      pendingFocusRef.current = null;
+      focusElement(element);
+    }
+  };
+
+  const focusCell = (cell: GridCell) => moveFocus(cell, focusMode === 'row');
+
+  // The closest rendered row above `row` with a lower level
+  const findParentRow = (row: number): number | null => {
+    const level = getRowAttribute(row, 'aria-level');
+    if (level === null) {
+      return null;
+    }
+    for (let candidate = row - 1; candidate >= 0; candidate--) {
+      const candidateLevel = getRowAttribute(candidate, 'aria-level');
+      if (candidateLevel !== null && Number(candidateLevel) < Number(level)) {
+        return candidate;
+      }
+    }
+    return null;
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (rowCount === 0 || colCount === 0) {
+      return;
+    }
+    const { origin, colSpan, rowSpan } = getSpan(focusedCell);
+    const { row, col } = origin;
+    const ctrl = event.ctrlKey || event.metaKey;
+    let target: GridCell | null = null;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        target = { row: row + rowSpan, col };
+        break;
+      case 'ArrowUp':
+        target = { row: row - 1, col };
+        break;
+      case 'PageDown':
+        target = { row: row + pageSize, col };
+        break;
+      case 'PageUp':
+        target = { row: row - pageSize, col };
+        break;
+      case 'ArrowRight':
+      case 'ArrowLeft': {
+        const expand = event.key === 'ArrowRight';
+        if (rowFocused) {
+          const expanded = getRowAttribute(row, 'aria-expanded');
+          event.preventDefault();
+          if (treegrid && expanded === String(!expand)) {
+            optionsRef.current.onRowExpandedChange?.(row, expand);
+          } else if (expand) {
+            // Expanded and leaf rows move into their first cell
+            moveFocus({ row, col: 0 }, false);
+          } else {
+            const parent = treegrid ? findParentRow(row) : null;
+            if (parent !== null) {
+              moveFocus({ row: parent, col: 0 }, true);
+            }
+          }
+          return;
+        }
+        if (!expand && col === 0 && focusMode === 'row') {
+          // The first cell hands focus back to its row
+          event.preventDefault();
+          moveFocus({ row, col: 0 }, true);
+          return;
+        }
+        target = { row, col: expand ? col + colSpan : col - 1 };
+        break;
+      }
+      case 'Home':
+        target = ctrl || rowFocused ? { row: 0, col: 0 } : { row, col: 0 };
+        break;
+      case 'End':
+        target =
+          ctrl || rowFocused
+            ? { row: rowCount - 1, col: colCount - 1 }
+            : { row, col: colCount - 1 };
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    moveFocus(target, rowFocused);
+  };
+
+  const getGridProps = (): GridContainerProps => ({
+    ...createGridProps({ rowCount, colCount, treegrid }),
+    onKeyDown,
+    ref: setGridRef,
+  });
+
+  const getRowProps = (row: number, rowOptions: GridRowOptions = {}): GridRowProps => {
+    const props: GridRowProps = {
+      id: getRowDomId(row),
+      role: 'row',
+      'aria-rowindex': row + 1,
+    };
+    if (treegrid) {
+      const { level, posinset, setsize, expanded } = rowOptions;
+      if (level !== undefined) {
+        props['aria-level'] = level;
+      }
+      if (posinset !== undefined) {
+        props['aria-posinset'] = posinset;
+      }
+      if (setsize !== undefined) {
+        props['aria-setsize'] = setsize;
+      }
+      if (expanded !== undefined) {
+        props['aria-expanded'] = expanded ? 'true' : 'false';
+      }
+    }
+    if (focusMode === 'row') {
+      props.tabIndex = rowFocused && row === focusedCell.row ? 0 : -1;
+      props.onFocus = (event: FocusEvent<HTMLElement>) => {
+        // Focus events from the row's cells bubble here too
+        if (event.target === event.currentTarget) {
+          setFocusedState({ row, col: 0 });
+          setCellFocusedInRow(false);
+        }
+      };
+    }
+    return props;
+  };
+
+  const getCellProps = (
+    row: number,
+    col: number,
+    cellOptions: GridCellOptions = {}
+  ): GridCellProps => {
+    const { header, colSpan = 1, rowSpan = 1 } = cellOptions;
+    const props: GridCellProps = {
+      id: getCellDomId(row, col),
+      role: header === 'column' ? 'columnheader' : header === 'row' ? 'rowheader' : 'gridcell',
+      'aria-colindex': col + 1,
+    };
+    if (colSpan > 1) {
+      props['aria-colspan'] = colSpan;
+    }
+    if (rowSpan > 1) {
+      props['aria-rowspan'] = rowSpan;
+    }
+    const covers =
+      !rowFocused &&
+      focusedCell.row >= row &&
+      focusedCell.row < row + rowSpan &&
+      focusedCell.col >= col &&
+      focusedCell.col < col + colSpan;
+    props.tabIndex = covers ? 0 : -1;
+    props.onFocus = () => {
+      setFocusedState({ row, col });
+      if (focusMode === 'row') {
+        setCellFocusedInRow(true);
+      }
+    };
+    return props;
+  };
+
+  return {
+    focusedCell,
+    focusCell,
+    getGridProps,
+    getRowProps,
+    getCellProps,
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Hide Others
+ * Hides everything outside a set of elements from assistive technology, for
+ * modals, drawers and popovers, and restores it exactly when done
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { decorative } from './index';
+import { getOwnedElements } from './dom';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for hideOthers
+ */
+export interface HideOthersOptions {
+  /**
+   * Whether to make the hidden elements `inert`, which also blocks pointer and
+   * keyboard interaction; falls back to `aria-hidden` where `inert` is not
+   * supported (default: false, which applies `aria-hidden="true"`)
+   */
+  inert?: boolean;
+  /** Element whose descendants may be hidden (default: document.body) */
+  root?: HTMLElement;
+}
+
+/**
+ * Restores the elements hidden by a hideOthers call
+ */
+export type UndoHideOthers = () => void;
+
+type HidingAttribute = 'inert' | 'aria-hidden';
+
+interface Layer {
+  targets: Element[];
+  /** The targets and the elements they own, which stay exposed */
+  exposed: Element[];
+  root: HTMLElement;
+  attribute: HidingAttribute;
+  hidden: Set<Element>;
+  observer: MutationObserver | null;
+}
+
+// ============================================================================
+// Reference Counting
+// ============================================================================
+
+/**
+ * Live regions stay exposed so that announcements made while a layer is open
+ * (toasts, form status) are still heard
+ */
+const LIVE_REGION_SELECTOR =
+  '[aria-live]:not([aria-live="off"]), [role="alert"], [role="status"], [role="log"]';
+
+/**
+ * How many layers hide each element, per attribute, and the attribute values
+ * the elements had before the first of them did
+ */
+const hiddenCounts: Record<HidingAttribute, WeakMap<Element, number>> = {
+  inert: new WeakMap(),
+  'aria-hidden': new WeakMap(),
+};
+const originalValues: Record<HidingAttribute, WeakMap<Element, string | null>> = {
+  inert: new WeakMap(),
+  'aria-hidden': new WeakMap(),
+};
+
+/**
+ * Active layers, most recent last. Only the most recent layer watches for
+ * added elements, so a nested layer's own portal is not hidden by its parent.
+ */
+const layerStack: Layer[] = [];
+
+function hideElement(layer: Layer, element: Element): void {
+  if (layer.hidden.has(element)) {
+    return;
+  }
+  const { attribute } = layer;
+  const count = hiddenCounts[attribute].get(element) ?? 0;
+  if (count === 0) {
+    originalValues[attribute].set(element, element.getAttribute(attribute));
+    if (attribute === 'inert') {
+      element.setAttribute('inert', '');
+    } else {
+      element.setAttribute('aria-hidden', String(decorative['aria-hidden']));
+    }
+  }
+  hiddenCounts[attribute].set(element, count + 1);
+  layer.hidden.add(element);
+}
+
+function restoreElement(attribute: HidingAttribute, element: Element): void {
+  const count = hiddenCounts[attribute].get(element) ?? 0;
+  if (count > 1) {
+    hiddenCounts[attribute].set(element, count - 1);
+    return;
+  }
+  hiddenCounts[attribute].delete(element);
+  const original = originalValues[attribute].get(element);
+  originalValues[attribute].delete(element);
+  if (original === null || original === undefined) {
+    element.removeAttribute(attribute);
+  } else {
+    element.setAttribute(attribute, original);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The targets and the elements they own through `aria-controls`/`aria-owns`,
+ * such as a listbox a dialog portals to the body
+ */
+const getExposed = (targets: Element[]) =>
+  targets.flatMap((target) => [target, ...getOwnedElements(target)]);
+
+/**
+ * Hides `element` unless it is exposed or a live region; elements containing
+ * an exposed element or live region are walked into instead, so only their
+ * other descendants are hidden
+ */
+function hideTree(layer: Layer, element: Element): void {
+  if (layer.exposed.includes(element) || element.matches(LIVE_REGION_SELECTOR)) {
+    return;
+  }
+  const containsTarget = layer.exposed.some((exposed) => element.contains(exposed));
+  if (containsTarget || element.querySelector(LIVE_REGION_SELECTOR)) {
+    for (const child of Array.from(element.children)) {
+      hideTree(layer, child);
+    }
+    return;
+  }
+  hideElement(layer, element);
+}
+
+/**
+ * Whether `element` is already covered by the layer: inside an exposed or a
+ * hidden element
+ */
+function isCovered(layer: Layer, element: Element): boolean {
+  for (let node: Element | null = element; node && node !== layer.root; node = node.parentElement) {
+    if (layer.exposed.includes(node) || layer.hidden.has(node)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Exposes an element inside one the layer hides, such as a live region added
+ * there: the hidden ancestor is restored and walked into, so only its other
+ * descendants stay hidden
+ */
+function exposeAncestors(layer: Layer, element: Element): void {
+  for (let node: Element | null = element; node && node !== layer.root; node = node.parentElement) {
+    if (layer.hidden.has(node)) {
+      layer.hidden.delete(node);
+      restoreElement(layer.attribute, node);
+      hideTree(layer, node);
+      return;
+    }
+  }
+}
+
+/**
+ * Hides everything in the layer's root outside its targets, and keeps hiding
+ * elements added later (portals, toasts) until the observer is disconnected
+ */
+function activate(layer: Layer): void {
+  layer.exposed = getExposed(layer.targets);
+  for (const child of Array.from(layer.root.children)) {
+    hideTree(layer, child);
+  }
+  if (typeof MutationObserver === 'undefined') {
+    return;
+  }
+  layer.observer = new MutationObserver((records) => {
+    const previous = layer.exposed;
+    layer.exposed = getExposed(layer.targets);
+    // Popups the targets have started to own, e.g. a listbox portaled from a dialog
+    for (const element of layer.exposed) {
+      if (!previous.includes(element)) {
+        exposeAncestors(layer, element);
+      }
+    }
+    for (const record of records) {
+      for (const node of Array.from(record.addedNodes)) {
+        if (!(node instanceof Element) || !node.isConnected) {
+          continue;
+        }
+        if (!isCovered(layer, node)) {
+          hideTree(layer, node);
+        } else if (node.matches(LIVE_REGION_SELECTOR) || node.querySelector(LIVE_REGION_SELECTOR)) {
+          exposeAncestors(layer, node);
+        }
+      }
+    }
+  });
+  layer.observer.observe(layer.root, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ['aria-controls', 'aria-owns'],
+  });
+}
+
+function deactivate(layer: Layer): void {
+  layer.observer?.disconnect();
+  layer.observer = null;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Hides every element outside `targets` from assistive technology
+ * Siblings of the targets and of their ancestors get `aria-hidden="true"` (the
+ * `decorative` props), or `inert` with `inert: true`, and live regions stay
+ * exposed, including ones added inside a hidden element later. Elements the
+ * targets own through `aria-controls` or `aria-owns` (e.g. a portaled listbox)
+ * stay exposed as well, while other elements added during the layer are hidden
+ * too. Layers can overlap: each element is reference counted and gets its original
+ * attribute value back once the last layer hiding it is undone, in any order.
+ *
+ * @param targets - The element or elements that stay exposed
+ * @param options - Hiding options
+ * @returns A function that undoes this call
+ *
+ * @example
+ * ```tsx
+ * useLayoutEffect(() => {
+ *   if (isOpen && drawerRef.current) {
+ *     return hideOthers(drawerRef.current, { inert: true });
+ *   }
+ * }, [isOpen]);
+ * ```
+ */
+export function hideOthers(
+  targets: Element | Element[],
+  options: HideOthersOptions = {}
+): UndoHideOthers {
+  const { inert = false, root = document.body } = options;
+  const layer: Layer = {
+    targets: Array.isArray(targets) ? targets : [targets],
+    exposed: [],
+    root,
+    attribute: inert && 'inert' in HTMLElement.prototype ? 'inert' : 'aria-hidden',
+    hidden: new Set(),
+    observer: null,
+  };
+
+  const previousTop = layerStack[layerStack.length - 1];
+  if (previousTop) {
+    deactivate(previousTop);
+  }
+  layerStack.push(layer);
+  activate(layer);
+
+  let undone = false;
+  return () => {
+    if (undone) {
+      return;
+    }
+    undone = true;
+    deactivate(layer);
+    layer.hidden.forEach((element) => restoreElement(layer.attribute, element));
+    layer.hidden.clear();
+
+    const index = layerStack.indexOf(layer);
+    layerStack.splice(index, 1);
+    const top = layerStack[layerStack.length - 1];
+    if (index === layerStack.length && top) {
+      // The layer below is on top again; hide whatever was added in the meantime
+      activate(top);
+    }
+  };
+}
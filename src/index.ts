@@ -8,52 +8,95 @@
 // Types
 // ============================================================================
 
+/**
+ * Boolean ARIA value
+ * React serialises `true`/`false` to the strings "true"/"false"
+ */
+export type AriaBooleanish = boolean | 'true' | 'false';
+
+/**
+ * Tri-state ARIA value used by `aria-checked` and `aria-pressed`
+ */
+export type AriaTristate = AriaBooleanish | 'mixed';
+
+/**
+ * Value of `aria-relevant`: `all` or a space-separated list of distinct
+ * `additions`, `removals` and `text` tokens (the default is "additions text").
+ * Three tokens are expressed as `all`, matching React's DOM attribute types.
+ */
+export type AriaRelevant =
+  | 'all'
+  | 'additions'
+  | 'removals'
+  | 'text'
+  | 'additions removals'
+  | 'additions text'
+  | 'removals additions'
+  | 'removals text'
+  | 'text additions'
+  | 'text removals';
+
 /**
  * Standard accessibility props that can be spread onto elements
+ * Covers every WAI-ARIA 1.2 state and property plus the ARIA 1.3 additions.
+ * Boolean states also accept `true`/`false`; leaving a state `undefined`
+ * means it does not apply (e.g. an element that cannot be expanded).
  */
 export interface AccessibilityProps {
   'aria-activedescendant'?: string;
-  'aria-atomic'?: 'true' | 'false';
+  'aria-atomic'?: AriaBooleanish;
   'aria-autocomplete'?: 'inline' | 'list' | 'both' | 'none';
-  'aria-busy'?: 'true' | 'false';
-  'aria-checked'?: 'true' | 'false' | 'mixed';
+  /** @since ARIA 1.3 */
+  'aria-braillelabel'?: string;
+  /** @since ARIA 1.3 */
+  'aria-brailleroledescription'?: string;
+  'aria-busy'?: AriaBooleanish;
+  'aria-checked'?: AriaTristate;
   'aria-colcount'?: number;
   'aria-colindex'?: number;
+  /** @since ARIA 1.3 */
+  'aria-colindextext'?: string;
   'aria-colspan'?: number;
   'aria-controls'?: string;
-  'aria-current'?: 'page' | 'step' | 'location' | 'date' | 'time' | 'true' | 'false';
+  'aria-current'?: AriaBooleanish | 'page' | 'step' | 'location' | 'date' | 'time';
   'aria-describedby'?: string;
+  /** @since ARIA 1.3 */
+  'aria-description'?: string;
   'aria-details'?: string;
-  'aria-disabled'?: 'true' | 'false';
+  'aria-disabled'?: AriaBooleanish;
+  /** @deprecated Deprecated in ARIA 1.1 */
   'aria-dropeffect'?: 'copy' | 'execute' | 'link' | 'move' | 'none' | 'popup';
   'aria-errormessage'?: string;
-  'aria-expanded'?: 'true' | 'false';
+  'aria-expanded'?: AriaBooleanish;
   'aria-flowto'?: string;
-  'aria-grabbed'?: 'true' | 'false';
-  'aria-haspopup'?: 'false' | 'true' | 'menu' | 'listbox' | 'tree' | 'grid' | 'dialog';
-  'aria-hidden'?: 'true' | 'false';
-  'aria-invalid'?: 'true' | 'false' | 'grammar' | 'spelling';
+  /** @deprecated Deprecated in ARIA 1.1 */
+  'aria-grabbed'?: AriaBooleanish;
+  'aria-haspopup'?: AriaBooleanish | 'menu' | 'listbox' | 'tree' | 'grid' | 'dialog';
+  'aria-hidden'?: AriaBooleanish;
+  'aria-invalid'?: AriaBooleanish | 'grammar' | 'spelling';
   'aria-keyshortcuts'?: string;
   'aria-label'?: string;
   'aria-labelledby'?: string;
   'aria-level'?: number;
   'aria-live'?: 'off' | 'polite' | 'assertive';
-  'aria-modal'?: 'true' | 'false';
-  'aria-multiline'?: 'true' | 'false';
-  'aria-multiselectable'?: 'true' | 'false';
+  'aria-modal'?: AriaBooleanish;
+  'aria-multiline'?: AriaBooleanish;
+  'aria-multiselectable'?: AriaBooleanish;
   'aria-orientation'?: 'horizontal' | 'vertical';
   'aria-owns'?: string;
   'aria-placeholder'?: string;
   'aria-posinset'?: number;
-  'aria-pressed'?: 'true' | 'false' | 'mixed';
-  'aria-readonly'?: 'true' | 'false';
-  'aria-relevant'?: 'additions' | 'removals' | 'text' | 'all';
-  'aria-required'?: 'true' | 'false';
+  'aria-pressed'?: AriaTristate;
+  'aria-readonly'?: AriaBooleanish;
+  'aria-relevant'?: AriaRelevant;
+  'aria-required'?: AriaBooleanish;
   'aria-roledescription'?: string;
   'aria-rowcount'?: number;
   'aria-rowindex'?: number;
+  /** @since ARIA 1.3 */
+  'aria-rowindextext'?: string;
   'aria-rowspan'?: number;
-  'aria-selected'?: 'true' | 'false';
+  'aria-selected'?: AriaBooleanish;
   'aria-setsize'?: number;
   'aria-sort'?: 'ascending' | 'descending' | 'none' | 'other';
   'aria-valuemax'?: number;
@@ -70,7 +113,7 @@ export interface AccessibilityProps {
 export interface LiveRegionProps extends AccessibilityProps {
   'aria-live'?: 'off' | 'polite' | 'assertive';
   'aria-atomic'?: 'true' | 'false';
-  'aria-relevant'?: 'additions' | 'removals' | 'text' | 'all';
+  'aria-relevant'?: AriaRelevant;
   'aria-busy'?: 'true' | 'false';
 }
 
@@ -80,8 +123,8 @@ export interface LiveRegionProps extends AccessibilityProps {
 export interface LiveRegionOptions {
   /** Whether the entire region should be announced (true) or just changes (false) */
   atomic?: boolean;
-  /** What types of changes are relevant */
-  relevant?: 'additions' | 'removals' | 'text' | 'all';
+  /** What types of changes are relevant, e.g. 'additions text' */
+  relevant?: AriaRelevant;
   /** Whether the region is currently being updated */
   busy?: boolean;
   /** How assertive the announcement should be */
@@ -122,6 +165,32 @@ export interface CheckedProps extends AccessibilityProps {
  */
 export type A11yCSSProperties = Record<string, string | number | undefined>;
 
+/**
+ * Any props object accepted by mergeA11yProps
+ */
+export type MergeableProps = AccessibilityProps | Record<string, unknown>;
+
+/**
+ * Options for mergeA11yPropsWith
+ */
+export interface MergeA11yPropsOptions {
+  /** Keys that keep "last one wins" semantics instead of being combined */
+  override?: string[];
+}
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (
+  arg: infer I
+) => void
+  ? I
+  : never;
+
+/**
+ * The result of merging a list of props objects
+ */
+export type MergedProps<T extends unknown[]> = [NonNullable<T[number]>] extends [never]
+  ? AccessibilityProps
+  : UnionToIntersection<NonNullable<T[number]>>;
+
 // ============================================================================
 // Screen Reader Utilities
 // ============================================================================
@@ -372,23 +441,120 @@ export function createCheckedProps(
 // ============================================================================
 
 /**
- * Combines multiple accessibility props objects
- * Later props override earlier ones for the same keys
+ * Attributes holding space-separated ID reference lists
+ * mergeA11yProps combines these instead of letting one value replace another
+ */
+const IDREF_LIST_ATTRIBUTES = new Set([
+  'aria-describedby',
+  'aria-labelledby',
+  'aria-controls',
+  'aria-owns',
+  'aria-flowto',
+]);
+
+function mergeTokens(first: string, second: string): string {
+  return Array.from(new Set(`${first} ${second}`.split(/\s+/).filter(Boolean))).join(' ');
+}
+
+function chainHandlers(
+  first: (...args: unknown[]) => unknown,
+  second: (...args: unknown[]) => unknown
+): (...args: unknown[]) => void {
+  return (...args) => {
+    first(...args);
+    second(...args);
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Combines multiple props objects
+ * - ID reference lists (`aria-describedby`, `aria-labelledby`, `aria-controls`,
+ *   `aria-owns`, `aria-flowto`) and `className` are concatenated and de-duplicated
+ * - Event handlers (`onX` keys) are chained and called in order
+ * - `style` objects are shallow-merged
+ * - Any other key: later props override earlier ones
+ *
+ * `undefined` values never replace a value set by an earlier object.
  *
- * @param props - Array of accessibility props to merge
- * @returns Combined accessibility props
+ * @param props - Props objects to merge; `null` and `undefined` are skipped
+ * @returns Combined props
  *
  * @example
  * ```tsx
- * <div {...mergeA11yProps(statusMessageProps, { 'aria-label': 'Status' })}>
- *   {message}
- * </div>
+ * <input
+ *   {...mergeA11yProps(createDescribedByProps('hint'), createDescribedByProps('error'))}
+ * />
+ * // aria-describedby="hint error"
  * ```
  */
-export function mergeA11yProps(
-  ...props: AccessibilityProps[]
-): AccessibilityProps {
-  return Object.assign({}, ...props);
+export function mergeA11yProps<T extends Array<MergeableProps | null | undefined>>(
+  ...props: T
+): MergedProps<T> {
+  return mergeA11yPropsWith({}, ...props);
+}
+
+/**
+ * Combines multiple props objects like mergeA11yProps, with per-key control
+ * over which keys keep plain "last one wins" semantics; as there, `undefined`
+ * values never replace an earlier value
+ *
+ * @param options - Merge options
+ * @param props - Props objects to merge; `null` and `undefined` are skipped
+ * @returns Combined props
+ *
+ * @example
+ * ```tsx
+ * // Replace the description instead of appending to it
+ * mergeA11yPropsWith({ override: ['aria-describedby'] }, fieldProps, { 'aria-describedby': 'error' });
+ * ```
+ */
+export function mergeA11yPropsWith<T extends Array<MergeableProps | null | undefined>>(
+  options: MergeA11yPropsOptions,
+  ...props: T
+): MergedProps<T> {
+  const override = new Set(options.override);
+  const result: Record<string, unknown> = {};
+
+  for (const source of props) {
+    if (!source) {
+      continue;
+    }
+    for (const [key, value] of Object.entries(source)) {
+      const existing = result[key];
+      if (value === undefined && existing !== undefined) {
+        // Never replaces an earlier value, not even for override keys
+        continue;
+      }
+      if (override.has(key) || existing === undefined) {
+        result[key] = value;
+      } else if (
+        (IDREF_LIST_ATTRIBUTES.has(key) || key === 'className') &&
+        typeof existing === 'string' &&
+        typeof value === 'string'
+      ) {
+        result[key] = mergeTokens(existing, value);
+      } else if (key === 'style' && isPlainObject(existing) && isPlainObject(value)) {
+        result[key] = { ...existing, ...value };
+      } else if (
+        /^on[A-Z]/.test(key) &&
+        typeof existing === 'function' &&
+        typeof value === 'function'
+      ) {
+        result[key] = chainHandlers(
+          existing as (...args: unknown[]) => unknown,
+          value as (...args: unknown[]) => unknown
+        );
+      } else {
+        result[key] = value;
+      }
+    }
+  }
+
+  return result as MergedProps<T>;
 }
 
 /**
@@ -484,3 +650,335 @@ export function createLabelledByProps(
     'aria-labelledby': labelledById,
   };
 }
+
+// ============================================================================
+// Live Announcer
+// ============================================================================
+
+export { LiveAnnouncerProvider, useAnnounce } from './live-announcer';
+export type {
+  Politeness,
+  AnnounceOptions,
+  AnnounceFunction,
+  LiveAnnouncerProviderProps,
+} from './live-announcer';
+
+// ============================================================================
+// Focus Scope
+// ============================================================================
+
+export { FocusScope, useFocusTrap } from './focus-scope';
+export type { FocusTrapOptions, FocusScopeProps } from './focus-scope';
+
+// ============================================================================
+// Roving Tab Index
+// ============================================================================
+
+export { useRovingTabIndex } from './roving-tab-index';
+export type {
+  RovingOrientation,
+  RovingTabIndexOptions,
+  RovingItemOptions,
+  RovingItemProps,
+  RovingTabIndexResult,
+} from './roving-tab-index';
+
+// ============================================================================
+// Disclosure
+// ============================================================================
+
+export { useDisclosure } from './disclosure';
+export type {
+  UseDisclosureOptions,
+  DisclosureTriggerProps,
+  DisclosurePanelProps,
+  UseDisclosureResult,
+} from './disclosure';
+
+// ============================================================================
+// ARIA Model & Validation
+// ============================================================================
+
+export {
+  ariaAttributes,
+  ariaRoles,
+  abstractAriaRoles,
+  globalAriaAttributes,
+  getAriaSpecUrl,
+} from './aria-model';
+export type {
+  AriaValueType,
+  AriaAttributeDefinition,
+  AriaAttributeName,
+  GlobalAriaAttributeName,
+  AriaNameFrom,
+  AriaRoleDefinition,
+  AriaRole,
+} from './aria-model';
+export { validateA11yProps, assertValidA11yProps, A11yValidationError } from './validate';
+export type {
+  A11yDiagnosticCode,
+  A11yDiagnostic,
+  A11yValidationResult,
+  ValidateA11yPropsOptions,
+} from './validate';
+
+// ============================================================================
+// Role Props
+// ============================================================================
+
+export { createRoleProps } from './role-props';
+export type {
+  RoleProps,
+  RoleAttributes,
+  RequiredAttributesOf,
+  SupportedAttributesOf,
+  ProhibitedAttributesOf,
+} from './role-props';
+
+// ============================================================================
+// Accessible Name
+// ============================================================================
+
+export { computeAccessibleName, computeAccessibleDescription } from './accname';
+
+// ============================================================================
+// Combobox
+// ============================================================================
+
+export { createComboboxProps, useCombobox } from './combobox';
+export type {
+  ComboboxAutocomplete,
+  ComboboxPropsOptions,
+  ComboboxProps,
+  UseComboboxOptions,
+  ComboboxInputProps,
+  ComboboxListboxProps,
+  ComboboxOptionProps,
+  ComboboxStatusProps,
+  UseComboboxResult,
+} from './combobox';
+
+// ============================================================================
+// Listbox
+// ============================================================================
+
+export { createListboxProps, useListbox } from './listbox';
+export type {
+  FocusStrategy,
+  ListboxPropsOptions,
+  ListboxProps,
+  UseListboxOptions,
+  ListboxContainerProps,
+  ListboxOptionProps,
+  UseListboxResult,
+} from './listbox';
+
+// ============================================================================
+// Menu
+// ============================================================================
+
+export { createMenuButtonProps, useMenuButton, useMenubar } from './menu';
+export type {
+  MenuItemType,
+  MenuItemDefinition,
+  MenuTreeOptions,
+  UseMenuButtonOptions,
+  UseMenubarOptions,
+  MenuButtonAriaProps,
+  MenuButtonProps,
+  MenuProps,
+  MenubarProps,
+  MenuItemProps,
+  UseMenuButtonResult,
+  UseMenubarResult,
+} from './menu';
+
+// ============================================================================
+// Tabs
+// ============================================================================
+
+export { useTabs } from './tabs';
+export type {
+  TabsActivation,
+  UseTabsOptions,
+  TabOptions,
+  TabListProps,
+  TabProps,
+  TabPanelProps,
+  UseTabsResult,
+} from './tabs';
+
+// ============================================================================
+// Tree View
+// ============================================================================
+
+export { flattenTree, useTreeView } from './tree';
+export type {
+  TreeNode,
+  FlatTreeNode,
+  UseTreeViewOptions,
+  TreeProps,
+  TreeItemProps,
+  TreeGroupProps,
+  UseTreeViewResult,
+} from './tree';
+
+// ============================================================================
+// Grid
+// ============================================================================
+
+export { createGridProps, useGrid } from './grid';
+export type {
+  GridFocusMode,
+  GridCell,
+  GridPropsOptions,
+  GridProps,
+  UseGridOptions,
+  GridRowOptions,
+  GridCellOptions,
+  GridContainerProps,
+  GridRowProps,
+  GridCellProps,
+  UseGridResult,
+} from './grid';
+
+// ============================================================================
+// Slider
+// ============================================================================
+
+export { createSliderProps, useSlider, useRangeSlider } from './slider';
+export type {
+  SliderPropsOptions,
+  SliderProps,
+  SliderBaseOptions,
+  UseSliderOptions,
+  SliderRange,
+  UseRangeSliderOptions,
+  SliderThumbProps,
+  SliderTrackProps,
+  UseSliderResult,
+  UseRangeSliderResult,
+} from './slider';
+
+// ============================================================================
+// Spin Button
+// ============================================================================
+
+export { useSpinButton } from './spin-button';
+export type {
+  UseSpinButtonOptions,
+  SpinButtonInputProps,
+  SpinButtonStepperProps,
+  SpinButtonStatusProps,
+  UseSpinButtonResult,
+} from './spin-button';
+
+// ============================================================================
+// Accordion
+// ============================================================================
+
+export { useAccordion } from './accordion';
+export type {
+  UseAccordionOptions,
+  AccordionItemOptions,
+  AccordionHeadingProps,
+  AccordionTriggerProps,
+  AccordionPanelProps,
+  UseAccordionResult,
+} from './accordion';
+
+// ============================================================================
+// Toolbar
+// ============================================================================
+
+export { createToolbarProps, useToolbar } from './toolbar';
+export type {
+  ToolbarPropsOptions,
+  ToolbarProps,
+  UseToolbarOptions,
+  ToolbarItemOptions,
+  ToolbarToggleOptions,
+  ToolbarItemProps,
+  ToolbarToggleProps,
+  ToolbarGroupProps,
+  UseToolbarResult,
+} from './toolbar';
+
+// ============================================================================
+// Radio Group
+// ============================================================================
+
+export { useRadioGroup } from './radio-group';
+export type {
+  UseRadioGroupOptions,
+  RadioOptions,
+  RadioGroupProps,
+  RadioProps,
+  UseRadioGroupResult,
+} from './radio-group';
+
+// ============================================================================
+// Checkbox and Switch
+// ============================================================================
+
+export { createSwitchProps, useSwitch, useCheckboxGroup } from './checkbox';
+export type {
+  SwitchProps,
+  CheckableOptions,
+  UseSwitchOptions,
+  UseCheckboxGroupOptions,
+  CheckableControlProps,
+  CheckableLabelProps,
+  CheckableDescriptionProps,
+  UseSwitchResult,
+  UseCheckboxGroupResult,
+} from './checkbox';
+
+// ============================================================================
+// Tooltip
+// ============================================================================
+
+export { useTooltip } from './tooltip';
+export type {
+  UseTooltipOptions,
+  TooltipTriggerProps,
+  TooltipProps,
+  UseTooltipResult,
+} from './tooltip';
+
+// ============================================================================
+// Dialog
+// ============================================================================
+
+export { useDialog, useAlertDialog } from './dialog';
+export type {
+  UseDialogOptions,
+  UseAlertDialogOptions,
+  DialogTriggerProps,
+  DialogProps,
+  DialogTitleProps,
+  DialogDescriptionProps,
+  UseDialogResult,
+} from './dialog';
+
+// ============================================================================
+// Hide Others
+// ============================================================================
+
+export { hideOthers } from './hide-others';
+export type { HideOthersOptions, UndoHideOthers } from './hide-others';
+
+// ============================================================================
+// Skip Links
+// ============================================================================
+
+export { focusSkipTarget, useSkipLinks, SkipLinks } from './skip-links';
+export type {
+  SkipLink,
+  SkipLinkLandmark,
+  UseSkipLinksOptions,
+  SkipLinkProps,
+  UseSkipLinksResult,
+  SkipLinksProps,
+} from './skip-links';
@@ -0,0 +1,396 @@
+/**
+ * Listbox
+ * Single and multiple selection listboxes with roving tabindex or
+ * aria-activedescendant focus, range selection and type-ahead
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useId, useRef, useState, type KeyboardEvent, type MouseEvent } from 'react';
+import { createSelectedProps, type AccessibilityProps, type SelectedProps } from './index';
+import { focusElement } from './dom';
+import { useControllableState } from './use-controllable-state';
+import { isTypeaheadKey, useTypeahead } from './use-typeahead';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How keyboard focus is represented in a composite widget
+ * - `roving`: DOM focus moves between options (roving tabindex)
+ * - `activedescendant`: DOM focus stays on the container, which points at the
+ *   focused option with `aria-activedescendant`
+ */
+export type FocusStrategy = 'roving' | 'activedescendant';
+
+/**
+ * Options for createListboxProps
+ */
+export interface ListboxPropsOptions {
+  /** Whether more than one option can be selected (default: false) */
+  multiselectable?: boolean;
+  /** Orientation of the options (default: 'vertical') */
+  orientation?: 'horizontal' | 'vertical';
+  /** ID of the focused option when using aria-activedescendant */
+  activeDescendantId?: string | null;
+}
+
+/**
+ * Accessibility props for a listbox container
+ */
+export interface ListboxProps extends AccessibilityProps {
+  role: 'listbox';
+  'aria-multiselectable'?: 'true';
+  'aria-orientation'?: 'horizontal';
+  'aria-activedescendant'?: string;
+}
+
+/**
+ * Options for useListbox
+ */
+export interface UseListboxOptions<T> {
+  /** The options, in display order */
+  items: T[];
+  /** Unique key for an item, used in the selection (default: String) */
+  getKey?: (item: T) => string;
+  /** Text used for type-ahead (default: String) */
+  itemToString?: (item: T) => string;
+  /** Whether an item can be focused and selected */
+  isItemDisabled?: (item: T) => boolean;
+  /** Whether more than one option can be selected (default: false) */
+  multiple?: boolean;
+  /** How focus is represented (default: 'roving') */
+  focusStrategy?: FocusStrategy;
+  /** Orientation of the options; decides which arrow keys move (default: 'vertical') */
+  orientation?: 'horizontal' | 'vertical';
+  /** Whether moving focus also selects in a single selection listbox (default: false) */
+  selectionFollowsFocus?: boolean;
+  /** Selected keys in controlled mode */
+  selectedKeys?: string[];
+  /** Initially selected keys in uncontrolled mode (default: []) */
+  defaultSelectedKeys?: string[];
+  /** Called whenever the selection changes */
+  onSelectionChange?: (keys: string[]) => void;
+  /** Base ID for the listbox and options; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Props for the listbox container
+ */
+export interface ListboxContainerProps extends ListboxProps {
+  id: string;
+  tabIndex?: number;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+  onFocus?: () => void;
+}
+
+/**
+ * Props for a single option
+ */
+export interface ListboxOptionProps extends SelectedProps {
+  id: string;
+  role: 'option';
+  tabIndex?: number;
+  onClick: (event: MouseEvent<HTMLElement>) => void;
+  onFocus?: () => void;
+}
+
+/**
+ * Return value of useListbox
+ */
+export interface UseListboxResult {
+  selectedKeys: string[];
+  /** Index of the focused option, or -1 before the listbox is focused */
+  focusedIndex: number;
+  /** Replaces the selection */
+  setSelectedKeys: (keys: string[]) => void;
+  /** Moves focus to an option */
+  focusOption: (index: number) => void;
+  getListboxProps: () => ListboxContainerProps;
+  getOptionProps: (index: number) => ListboxOptionProps;
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Creates props for a listbox container
+ *
+ * @param options - Listbox configuration
+ * @returns Accessibility props for the listbox
+ *
+ * @example
+ * ```tsx
+ * <ul {...createListboxProps({ multiselectable: true })} aria-label="Toppings">
+ *   <li role="option" {...createSelectedProps(true)}>Cheese</li>
+ * </ul>
+ * ```
+ */
+export function createListboxProps(options: ListboxPropsOptions = {}): ListboxProps {
+  const { multiselectable = false, orientation = 'vertical', activeDescendantId } = options;
+  const props: ListboxProps = { role: 'listbox' };
+  if (multiselectable) {
+    props['aria-multiselectable'] = 'true';
+  }
+  if (orientation === 'horizontal') {
+    props['aria-orientation'] = 'horizontal';
+  }
+  if (activeDescendantId) {
+    props['aria-activedescendant'] = activeDescendantId;
+  }
+  return props;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA listbox pattern
+ * Arrow keys, Home and End move focus between enabled options and Space
+ * selects (or toggles, when `multiple`). In a multiple selection listbox,
+ * Shift+Arrow and Shift+Space select the range from the last option selected
+ * without Shift, Ctrl+Shift+Home/End select to the first or last option and
+ * Ctrl+A selects all options, or none when all are selected. Typing characters
+ * moves focus to the next option whose text starts with them.
+ *
+ * @param options - Configuration options
+ * @returns The selection, focus and prop getters
+ *
+ * @example
+ * ```tsx
+ * const listbox = useListbox({ items: toppings, multiple: true });
+ *
+ * <ul {...listbox.getListboxProps()} aria-label="Toppings">
+ *   {toppings.map((topping, index) => (
+ *     <li key={topping} {...listbox.getOptionProps(index)}>{topping}</li>
+ *   ))}
+ * </ul>
+ * ```
+ */
+export function useListbox<T>(options: UseListboxOptions<T>): UseListboxResult {
+  const {
+    items,
+    getKey = String,
+    itemToString = String,
+    isItemDisabled,
+    multiple = false,
+    focusStrategy = 'roving',
+    orientation = 'vertical',
+    selectionFollowsFocus = false,
+  } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const getOptionId = (index: number) => `${baseId}-option-${index}`;
+
+  const [selectedKeys, setSelectedKeys] = useControllableState(
+    options.selectedKeys,
+    options.defaultSelectedKeys ?? [],
+    options.onSelectionChange
+  );
+  const [focusedIndexState, setFocusedIndex] = useState(-1);
+  const focusedIndex = focusedIndexState < items.length ? focusedIndexState : -1;
+  // The option range selection extends from
+  const anchorRef = useRef(-1);
+  const search = useTypeahead();
+
+  const isEnabled = (index: number) => {
+    const item = items[index];
+    return item !== undefined && !isItemDisabled?.(item);
+  };
+  const isSelected = (index: number) => {
+    const item = items[index];
+    return item !== undefined && selectedKeys.includes(getKey(item));
+  };
+  const enabledIndexes = items.map((_, index) => index).filter(isEnabled);
+
+  // Where focus lands when the listbox is entered
+  const entryIndex =
+    focusedIndex >= 0 && isEnabled(focusedIndex)
+      ? focusedIndex
+      : (enabledIndexes.find(isSelected) ?? enabledIndexes[0] ?? -1);
+
+  const focusOption = useCallback(
+    (index: number) => {
+      setFocusedIndex(index);
+      if (focusStrategy === 'roving') {
+        focusElement(document.getElementById(`${baseId}-option-${index}`));
+      } else {
+        document
+          .getElementById(`${baseId}-option-${index}`)
+          ?.scrollIntoView?.({ block: 'nearest' });
+      }
+    },
+    [focusStrategy, baseId]
+  );
+
+  const keysBetween = (from: number, to: number) => {
+    const [start, end] = from < to ? [from, to] : [to, from];
+    return enabledIndexes
+      .filter((index) => index >= start && index <= end)
+      .map((index) => getKey(items[index] as T));
+  };
+
+  const select = (index: number) => {
+    const key = getKey(items[index] as T);
+    anchorRef.current = index;
+    if (!multiple) {
+      if (selectedKeys.length !== 1 || selectedKeys[0] !== key) {
+        setSelectedKeys([key]);
+      }
+    } else if (selectedKeys.includes(key)) {
+      setSelectedKeys(selectedKeys.filter((selected) => selected !== key));
+    } else {
+      setSelectedKeys([...selectedKeys, key]);
+    }
+  };
+
+  const selectRange = (index: number) => {
+    const anchor = anchorRef.current >= 0 ? anchorRef.current : index;
+    anchorRef.current = anchor;
+    setSelectedKeys(keysBetween(anchor, index));
+  };
+
+  const moveFocus = (index: number, event: KeyboardEvent<HTMLElement>) => {
+    if (index < 0) {
+      return;
+    }
+    event.preventDefault();
+    focusOption(index);
+    if (multiple && event.shiftKey) {
+      selectRange(index);
+    } else if (!multiple && selectionFollowsFocus) {
+      select(index);
+    }
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    const first = enabledIndexes[0];
+    const last = enabledIndexes[enabledIndexes.length - 1];
+    if (first === undefined || last === undefined) {
+      return;
+    }
+    const current = focusedIndex >= 0 ? focusedIndex : entryIndex;
+    const position = enabledIndexes.indexOf(current);
+    const previousKey = orientation === 'vertical' ? 'ArrowUp' : 'ArrowLeft';
+    const nextKey = orientation === 'vertical' ? 'ArrowDown' : 'ArrowRight';
+    const ctrl = event.ctrlKey || event.metaKey;
+
+    if (event.key === nextKey) {
+      moveFocus(enabledIndexes[Math.min(position + 1, enabledIndexes.length - 1)] ?? first, event);
+    } else if (event.key === previousKey) {
+      moveFocus(enabledIndexes[Math.max(position - 1, 0)] ?? first, event);
+    } else if (event.key === 'Home') {
+      if (multiple && ctrl && event.shiftKey) {
+        event.preventDefault();
+        focusOption(first);
+        anchorRef.current = current;
+        setSelectedKeys(keysBetween(current, first));
+      } else {
+        moveFocus(first, event);
+      }
+    } else if (event.key === 'End') {
+      if (multiple && ctrl && event.shiftKey) {
+        event.preventDefault();
+        focusOption(last);
+        anchorRef.current = current;
+        setSelectedKeys(keysBetween(current, last));
+      } else {
+        moveFocus(last, event);
+      }
+    } else if (event.key === ' ') {
+      event.preventDefault();
+      // A disabled option can still hold focus, e.g. after a click
+      if (!isEnabled(current)) {
+        return;
+      }
+      if (multiple && event.shiftKey) {
+        selectRange(current);
+      } else {
+        select(current);
+      }
+      setFocusedIndex(current);
+    } else if (multiple && ctrl && event.key.toLowerCase() === 'a') {
+      event.preventDefault();
+      const all = enabledIndexes.map((index) => getKey(items[index] as T));
+      const allSelected = all.every((key) => selectedKeys.includes(key));
+      setSelectedKeys(allSelected ? [] : all);
+    } else if (isTypeaheadKey(event)) {
+      const match = search(
+        event.key,
+        items.map((item) => itemToString(item)),
+        current,
+        isEnabled
+      );
+      if (match >= 0) {
+        event.preventDefault();
+        focusOption(match);
+        if (!multiple && selectionFollowsFocus) {
+          select(match);
+        }
+      }
+    }
+  };
+
+  const getListboxProps = (): ListboxContainerProps => {
+    const props: ListboxContainerProps = {
+      ...createListboxProps({
+        multiselectable: multiple,
+        orientation,
+        activeDescendantId:
+          focusStrategy === 'activedescendant' && focusedIndex >= 0
+            ? getOptionId(focusedIndex)
+            : null,
+      }),
+      id: baseId,
+      onKeyDown,
+    };
+    if (focusStrategy === 'activedescendant') {
+      props.tabIndex = 0;
+      props.onFocus = () => {
+        if (focusedIndex < 0 && entryIndex >= 0) {
+          setFocusedIndex(entryIndex);
+        }
+      };
+    }
+    return props;
+  };
+
+  const getOptionProps = (index: number): ListboxOptionProps => {
+    const props: ListboxOptionProps = {
+      ...createSelectedProps(isSelected(index)),
+      id: getOptionId(index),
+      role: 'option',
+      onClick: (event) => {
+        if (!isEnabled(index)) {
+          return;
+        }
+        focusOption(index);
+        if (multiple && event.shiftKey) {
+          selectRange(index);
+        } else {
+          select(index);
+        }
+      },
+    };
+    if (focusStrategy === 'roving') {
+      props.tabIndex = index === entryIndex ? 0 : -1;
+      props.onFocus = () => setFocusedIndex(index);
+    }
+    if (!isEnabled(index)) {
+      props['aria-disabled'] = 'true';
+    }
+    return props;
+  };
+
+  return {
+    selectedKeys,
+    focusedIndex,
+    setSelectedKeys,
+    focusOption,
+    getListboxProps,
+    getOptionProps,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Live Announcer
+ * A single, pre-mounted pair of live regions that every screen reader
+ * announcement in an application can be routed through
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import { createLiveRegion, srOnly, type LiveRegionOptions } from './index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How urgently a message should be announced
+ */
+export type Politeness = 'polite' | 'assertive';
+
+/**
+ * Options for a single announcement
+ */
+export interface AnnounceOptions {
+  /** Which live region the message is routed to (default: 'polite') */
+  politeness?: Politeness;
+  /** Milliseconds before the message is removed from the region (default: provider `clearAfter`) */
+  clearAfter?: number;
+}
+
+/**
+ * Announces a message through the nearest LiveAnnouncerProvider
+ */
+export type AnnounceFunction = (message: string, options?: AnnounceOptions) => void;
+
+/**
+ * Props for the LiveAnnouncerProvider component
+ */
+export interface LiveAnnouncerProviderProps {
+  children?: ReactNode;
+  /** Default milliseconds before announced messages are cleared (default: 7000) */
+  clearAfter?: number;
+  /** Live region options for the polite region */
+  politeOptions?: Omit<LiveRegionOptions, 'live'>;
+  /** Live region options for the assertive region */
+  assertiveOptions?: Omit<LiveRegionOptions, 'live'>;
+}
+
+interface Announcement {
+  id: number;
+  message: string;
+}
+
+type AnnouncementQueues = Record<Politeness, Announcement[]>;
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+const LiveAnnouncerContext = createContext<AnnounceFunction | null>(null);
+
+/**
+ * Mounts a polite and an assertive live region up front so that the first
+ * message is already announced, and exposes them through `useAnnounce()`.
+ * Render it once, near the root of the application.
+ *
+ * Messages are queued in the order they are announced, identical consecutive
+ * messages are dropped while the previous one is still in the region, and each
+ * message is cleared after a timeout so stale text is not re-read.
+ *
+ * @example
+ * ```tsx
+ * <LiveAnnouncerProvider clearAfter={5000}>
+ *   <App />
+ * </LiveAnnouncerProvider>
+ * ```
+ */
+export function LiveAnnouncerProvider({
+  children,
+  clearAfter = 7000,
+  politeOptions,
+  assertiveOptions,
+}: LiveAnnouncerProviderProps) {
+  const [queues, setQueues] = useState<AnnouncementQueues>({ polite: [], assertive: [] });
+  const nextId = useRef(0);
+  const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach((timer) => clearTimeout(timer));
+      pending.clear();
+    };
+  }, []);
+
+  const announce = useCallback<AnnounceFunction>(
+    (message, options = {}) => {
+      const { politeness = 'polite', clearAfter: timeout = clearAfter } = options;
+      if (!message.trim()) {
+        return;
+      }
+
+      const id = nextId.current++;
+
+      setQueues((prev) => {
+        const queue = prev[politeness];
+        if (queue[queue.length - 1]?.message === message) {
+          return prev;
+        }
+        return { ...prev, [politeness]: [...queue, { id, message }] };
+      });
+
+      const timer = setTimeout(() => {
+        timers.current.delete(timer);
+        setQueues((prev) => ({
+          ...prev,
+          [politeness]: prev[politeness].filter((entry) => entry.id !== id),
+        }));
+      }, timeout);
+      timers.current.add(timer);
+    },
+    [clearAfter]
+  );
+
+  const politeProps = useMemo(
+    () => createLiveRegion({ ...politeOptions, live: 'polite' }),
+    [politeOptions]
+  );
+  const assertiveProps = useMemo(
+    () => createLiveRegion({ ...assertiveOptions, live: 'assertive' }),
+    [assertiveOptions]
+  );
+
+  return (
+    <LiveAnnouncerContext.Provider value={announce}>
+      {children}
+      <div {...politeProps} style={srOnly} data-live-announcer="polite">
+        {queues.polite.map((entry) => (
+          <div key={entry.id}>{entry.message}</div>
+        ))}
+      </div>
+      <div {...assertiveProps} style={srOnly} data-live-announcer="assertive">
+        {queues.assertive.map((entry) => (
+          <div key={entry.id}>{entry.message}</div>
+        ))}
+      </div>
+    </LiveAnnouncerContext.Provider>
+  );
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Returns a function that announces messages to screen readers through the
+ * nearest LiveAnnouncerProvider
+ *
+ * @returns The announce function
+ *
+ * @example
+ * ```tsx
+ * const announce = useAnnounce();
+ * announce('Changes saved');
+ * announce('Connection lost', { politeness: 'assertive' });
+ * ```
+ */
+export function useAnnounce(): AnnounceFunction {
+  const announce = useContext(LiveAnnouncerContext);
+  if (!announce) {
+    throw new Error('useAnnounce must be used within a LiveAnnouncerProvider');
+  }
+  return announce;
+}
@@ -0,0 +1,681 @@
+/**
+ * Menu
+ * Menu buttons, menus and menubars with checkable items, nested submenus and
+ * type-ahead
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from 'react';
+import { createCheckedProps, type AccessibilityProps } from './index';
+import { focusElement } from './dom';
+import { useControllableState } from './use-controllable-state';
+import { isTypeaheadKey, useTypeahead } from './use-typeahead';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Kind of menu item
+ * - `item`: `role="menuitem"`, runs an action
+ * - `checkbox`: `role="menuitemcheckbox"`, toggles independently
+ * - `radio`: `role="menuitemradio"`, one checked item per group
+ */
+export type MenuItemType = 'item' | 'checkbox' | 'radio';
+
+/**
+ * A menu item; items with `items` open a submenu
+ */
+export interface MenuItemDefinition {
+  /** Unique ID within the menu tree */
+  id: string;
+  /** Text of the item, used for type-ahead */
+  label: string;
+  /** Kind of item (default: 'item') */
+  type?: MenuItemType;
+  /** Checked state of `checkbox` and `radio` items */
+  checked?: boolean;
+  disabled?: boolean;
+  /** Items of the submenu this item opens */
+  items?: MenuItemDefinition[];
+}
+
+/**
+ * Options shared by useMenuButton and useMenubar
+ */
+export interface MenuTreeOptions {
+  /** The menu items, including nested submenus */
+  items: MenuItemDefinition[];
+  /** Called when an `item` is activated; menus then close */
+  onAction?: (id: string) => void;
+  /** Called when a `checkbox` or `radio` item is activated with its new checked state */
+  onCheckedChange?: (id: string, checked: boolean) => void;
+  /** Base ID for the generated element IDs; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Options for useMenuButton
+ */
+export interface UseMenuButtonOptions extends MenuTreeOptions {
+  /** Whether the menu is open in controlled mode */
+  open?: boolean;
+  /** Whether the menu is initially open in uncontrolled mode (default: false) */
+  defaultOpen?: boolean;
+  /** Called when the menu opens or closes */
+  onOpenChange?: (open: boolean) => void;
+}
+
+/**
+ * Options for useMenubar
+ */
+export type UseMenubarOptions = MenuTreeOptions;
+
+/**
+ * Accessibility props for a button that opens a menu
+ */
+export interface MenuButtonAriaProps extends AccessibilityProps {
+  'aria-haspopup': 'menu';
+  'aria-expanded': 'true' | 'false';
+  'aria-controls': string;
+}
+
+/**
+ * Props for the menu button
+ */
+export interface MenuButtonProps extends MenuButtonAriaProps {
+  id: string;
+  onClick: () => void;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+}
+
+/**
+ * Props for a menu or submenu
+ */
+export interface MenuProps extends AccessibilityProps {
+  id: string;
+  role: 'menu';
+  'aria-labelledby': string;
+  hidden: boolean;
+  tabIndex: -1;
+}
+
+/**
+ * Props for a menubar
+ */
+export interface MenubarProps extends AccessibilityProps {
+  id: string;
+  role: 'menubar';
+}
+
+/**
+ * Props for a menu item
+ */
+export interface MenuItemProps extends AccessibilityProps {
+  id: string;
+  role: 'menuitem' | 'menuitemcheckbox' | 'menuitemradio';
+  tabIndex: number;
+  onClick: () => void;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+  onFocus: () => void;
+}
+
+/**
+ * Return value of useMenuButton
+ */
+export interface UseMenuButtonResult {
+  isOpen: boolean;
+  /** IDs of the items whose submenus are open, outermost first */
+  openPath: string[];
+  open: () => void;
+  close: () => void;
+  getButtonProps: () => MenuButtonProps;
+  /** Props for the menu, or for the submenu of `parentId` */
+  getMenuProps: (parentId?: string) => MenuProps;
+  getItemProps: (id: string) => MenuItemProps;
+}
+
+/**
+ * Return value of useMenubar
+ */
+export interface UseMenubarResult {
+  /** IDs of the items whose submenus are open, outermost first */
+  openPath: string[];
+  close: () => void;
+  getMenubarProps: () => MenubarProps;
+  /** Props for the submenu of `parentId` */
+  getMenuProps: (parentId: string) => MenuProps;
+  getItemProps: (id: string) => MenuItemProps;
+}
+
+interface MenuEntry {
+  item: MenuItemDefinition;
+  parentId: string | null;
+  siblings: MenuItemDefinition[];
+}
+
+type MenuTreeKind = 'button' | 'menubar';
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Creates props for a button that opens a menu
+ *
+ * @param menuId - The ID of the menu
+ * @param isOpen - Whether the menu is open
+ * @returns Accessibility props for the button
+ *
+ * @example
+ * ```tsx
+ * <button {...createMenuButtonProps('actions-menu', isOpen)}>Actions</button>
+ * <ul id="actions-menu" role="menu" hidden={!isOpen}>...</ul>
+ * ```
+ */
+export function createMenuButtonProps(menuId: string, isOpen: boolean): MenuButtonAriaProps {
+  return {
+    'aria-haspopup': 'menu',
+    'aria-expanded': isOpen ? 'true' : 'false',
+    'aria-controls': menuId,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const ITEM_ROLES = {
+  item: 'menuitem',
+  checkbox: 'menuitemcheckbox',
+  radio: 'menuitemradio',
+} as const;
+
+function indexMenuTree(
+  items: MenuItemDefinition[],
+  parentId: string | null = null,
+  index = new Map<string, MenuEntry>()
+): Map<string, MenuEntry> {
+  for (const item of items) {
+    index.set(item.id, { item, parentId, siblings: items });
+    if (item.items) {
+      indexMenuTree(item.items, item.id, index);
+    }
+  }
+  return index;
+}
+
+/**
+ * Shared state and keyboard handling for menu buttons and menubars
+ */
+function useMenuTree(
+  kind: MenuTreeKind,
+  options: MenuTreeOptions,
+  rootOpen: boolean,
+  setRootOpen: (open: boolean) => void
+) {
+  const { items } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const rootId = `${baseId}-${kind === 'button' ? 'menu' : 'menubar'}`;
+  const buttonId = `${baseId}-button`;
+  const getItemDomId = (id: string) => `${baseId}-item-${id}`;
+  const getSubmenuDomId = (id: string) => `${baseId}-menu-${id}`;
+
+  const index = useMemo(() => indexMenuTree(items), [items]);
+  const [openPath, setOpenPath] = useState<string[]>([]);
+  const [menubarActiveId, setMenubarActiveId] = useState<string | null>(null);
+  const [focusRequest, setFocusRequest] = useState(0);
+  const pendingFocusRef = useRef<string | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const search = useTypeahead();
+
+  // Focus is requested before a submenu is shown, so it is applied after render
+  useEffect(() => {
+    const pending = pendingFocusRef.current;
+    if (pending !== null) {
+      pendingFocusRef.current = null;
+      focusElement(document.getElementById(pending));
+    }
+  }, [focusRequest]);
+
+  const requestFocus = (domId: string) => {
+    pendingFocusRef.current = domId;
+    setFocusRequest((request) => request + 1);
+  };
+
+  const getChain = (id: string): string[] => {
+    const chain: string[] = [];
+    for (let current: string | null = id; current !== null;) {
+      chain.unshift(current);
+      current = index.get(current)?.parentId ?? null;
+    }
+    return chain;
+  };
+
+  const isEnabled = (item: MenuItemDefinition) => !item.disabled;
+
+  const findSibling = (siblings: MenuItemDefinition[], from: number, step: 1 | -1) => {
+    for (let i = 1; i <= siblings.length; i++) {
+      const n = siblings.length;
+      const candidate = siblings[(((from + step * i) % n) + n) % n];
+      if (candidate && isEnabled(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  };
+
+  const firstEnabled = (list: MenuItemDefinition[]) => list.find(isEnabled);
+  const lastEnabled = (list: MenuItemDefinition[]) => [...list].reverse().find(isEnabled);
+
+  const focusItem = (id: string) => requestFocus(getItemDomId(id));
+
+  const openSubmenu = (item: MenuItemDefinition, focus: 'first' | 'last' | null) => {
+    if (!item.items) {
+      return;
+    }
+    setOpenPath(getChain(item.id));
+    const target = focus === 'last' ? lastEnabled(item.items) : firstEnabled(item.items);
+    if (focus && target) {
+      focusItem(target.id);
+    }
+  };
+
+  const closeAll = (returnFocusFrom: string | null) => {
+    setOpenPath([]);
+    if (kind === 'button') {
+      setRootOpen(false);
+      if (returnFocusFrom !== null) {
+        requestFocus(buttonId);
+      }
+    } else if (returnFocusFrom !== null) {
+      const top = getChain(returnFocusFrom)[0];
+      if (top) {
+        focusItem(top);
+      }
+    }
+  };
+
+  const openRoot = (focus: 'first' | 'last' | null) => {
+    setRootOpen(true);
+    const target = focus === 'last' ? lastEnabled(items) : firstEnabled(items);
+    if (focus && target) {
+      focusItem(target.id);
+    }
+  };
+
+  const moveInMenubar = (fromTopId: string, step: 1 | -1, openMenu: boolean) => {
+    const position = items.findIndex((item) => item.id === fromTopId);
+    const next = findSibling(items, position, step);
+    if (!next) {
+      return;
+    }
+    setMenubarActiveId(next.id);
+    if (openMenu && next.items) {
+      openSubmenu(next, 'first');
+    } else {
+      setOpenPath([]);
+      focusItem(next.id);
+    }
+  };
+
+  const activate = (item: MenuItemDefinition, key: 'Enter' | ' ' | null) => {
+    if (!isEnabled(item)) {
+      return;
+    }
+    if (item.items) {
+      openSubmenu(item, 'first');
+      return;
+    }
+
+    const type = item.type ?? 'item';
+    const { onAction, onCheckedChange } = optionsRef.current;
+    if (type === 'checkbox') {
+      onCheckedChange?.(item.id, !item.checked);
+    } else if (type === 'radio') {
+      onCheckedChange?.(item.id, true);
+    } else {
+      onAction?.(item.id);
+    }
+
+    // Space toggles checkable items without closing the menu
+    if (type === 'item' || key !== ' ') {
+      closeAll(item.id);
+    }
+  };
+
+  const onItemKeyDown = (id: string, event: KeyboardEvent<HTMLElement>) => {
+    const entry = index.get(id);
+    if (!entry) {
+      return;
+    }
+    const { item, parentId, siblings } = entry;
+    const position = siblings.indexOf(item);
+    const inMenubar = kind === 'menubar' && parentId === null;
+    const parentIsMenubarItem =
+      kind === 'menubar' && parentId !== null && index.get(parentId)?.parentId === null;
+    const [previousKey, nextKey] = inMenubar
+      ? ['ArrowLeft', 'ArrowRight']
+      : ['ArrowUp', 'ArrowDown'];
+    let handled = true;
+
+    if (event.key === nextKey) {
+      const next = findSibling(siblings, position, 1);
+      if (inMenubar) {
+        moveInMenubar(id, 1, false);
+      } else if (next) {
+        focusItem(next.id);
+      }
+    } else if (event.key === previousKey) {
+      const previous = findSibling(siblings, position, -1);
+      if (inMenubar) {
+        moveInMenubar(id, -1, false);
+      } else if (previous) {
+        focusItem(previous.id);
+      }
+    } else if (event.key === 'Home' || event.key === 'End') {
+      const target = event.key === 'Home' ? firstEnabled(siblings) : lastEnabled(siblings);
+      if (target) {
+        focusItem(target.id);
+        if (inMenubar) {
+          setMenubarActiveId(target.id);
+        }
+      }
+    } else if (inMenubar && (event.key === 'ArrowDown' || event.key === 'ArrowUp')) {
+      if (item.items) {
+        openSubmenu(item, event.key === 'ArrowDown' ? 'first' : 'last');
+      }
+    } else if (event.key === 'ArrowRight') {
+      if (item.items) {
+        openSubmenu(item, 'first');
+      } else if (kind === 'menubar') {
+        const top = getChain(id)[0];
+        if (top) {
+          moveInMenubar(top, 1, true);
+        }
+      } else {
+        handled = false;
+      }
+    } else if (event.key === 'ArrowLeft') {
+      if (parentIsMenubarItem && parentId) {
+        moveInMenubar(parentId, -1, true);
+      } else if (parentId !== null) {
+        setOpenPath(getChain(parentId).slice(0, -1));
+        focusItem(parentId);
+      } else {
+        handled = false;
+      }
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      activate(item, event.key);
+    } else if (event.key === 'Escape') {
+      if (parentId === null) {
+        if (kind === 'button') {
+          closeAll(id);
+        } else {
+          handled = false;
+        }
+      } else if (parentIsMenubarItem) {
+        setOpenPath([]);
+        focusItem(parentId);
+      } else {
+        setOpenPath(getChain(parentId).slice(0, -1));
+        focusItem(parentId);
+      }
+    } else if (event.key === 'Tab') {
+      closeAll(null);
+      handled = false;
+    } else if (isTypeaheadKey(event)) {
+      const match = search(
+        event.key,
+        siblings.map((sibling) => sibling.label),
+        position,
+        (i) => {
+          const sibling = siblings[i];
+          return sibling !== undefined && isEnabled(sibling);
+        }
+      );
+      const target = siblings[match];
+      if (target) {
+        focusItem(target.id);
+        if (inMenubar) {
+          setMenubarActiveId(target.id);
+        }
+      }
+    } else {
+      handled = false;
+    }
+
+    if (handled) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  };
+
+  const isAnyOpen = rootOpen || openPath.length > 0;
+
+  // Clicking outside closes every menu
+  const openPathRef = useRef(openPath);
+  openPathRef.current = openPath;
+  const closeAllRef = useRef(closeAll);
+  closeAllRef.current = closeAll;
+  useEffect(() => {
+    if (!isAnyOpen) {
+      return;
+    }
+    const onPointerDown = (event: Event) => {
+      const target = event.target as Node;
+      const submenuIds = openPathRef.current.map((id) => `${baseId}-menu-${id}`);
+      const inside = [buttonId, rootId, ...submenuIds].some((domId) =>
+        document.getElementById(domId)?.contains(target)
+      );
+      if (!inside) {
+        closeAllRef.current(null);
+      }
+    };
+    document.addEventListener('mousedown', onPointerDown);
+    return () => document.removeEventListener('mousedown', onPointerDown);
+  }, [isAnyOpen, buttonId, rootId, baseId]);
+
+  const getSubmenuProps = (parentId: string): MenuProps => ({
+    id: getSubmenuDomId(parentId),
+    role: 'menu',
+    'aria-labelledby': getItemDomId(parentId),
+    hidden: !openPath.includes(parentId),
+    tabIndex: -1,
+  });
+
+  const getItemProps = (id: string): MenuItemProps => {
+    const entry = index.get(id);
+    const item = entry?.item;
+    const type = item?.type ?? 'item';
+    const inMenubar = kind === 'menubar' && entry?.parentId === null;
+    const menubarTabStop =
+      menubarActiveId !== null && index.has(menubarActiveId)
+        ? menubarActiveId
+        : firstEnabled(items)?.id;
+
+    const props: MenuItemProps = {
+      id: getItemDomId(id),
+      role: ITEM_ROLES[type],
+      tabIndex: inMenubar && id === menubarTabStop ? 0 : -1,
+      onClick: () => {
+        if (item) {
+          if (item.items && openPath.includes(id)) {
+            setOpenPath(getChain(id).slice(0, -1));
+          } else {
+            activate(item, null);
+          }
+        }
+      },
+      onKeyDown: (event) => onItemKeyDown(id, event),
+      onFocus: () => {
+        if (inMenubar) {
+          setMenubarActiveId(id);
+        }
+      },
+    };
+    if (item?.items) {
+      props['aria-haspopup'] = 'menu';
+      props['aria-expanded'] = openPath.includes(id) ? 'true' : 'false';
+      props['aria-controls'] = getSubmenuDomId(id);
+    }
+    if (type !== 'item') {
+      Object.assign(props, createCheckedProps(item?.checked ?? false));
+    }
+    if (item?.disabled) {
+      props['aria-disabled'] = 'true';
+    }
+    return props;
+  };
+
+  return {
+    baseId,
+    rootId,
+    buttonId,
+    openPath,
+    openRoot,
+    closeAll,
+    getSubmenuProps,
+    getItemProps,
+  };
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements a menu button that opens a menu of actions
+ * Enter, Space and ArrowDown on the button open the menu and focus the first
+ * item; ArrowUp focuses the last. In the menu, arrow keys, Home, End and
+ * type-ahead move between items, ArrowRight and ArrowLeft open and close
+ * submenus, Escape closes one level and returns focus to its parent item (or
+ * the button) and Tab closes every menu. Activating an item closes the menu;
+ * Space toggles checkbox and radio items without closing it.
+ *
+ * @param options - Configuration options
+ * @returns The open state and prop getters for the button, menus and items
+ *
+ * @example
+ * ```tsx
+ * const items = [
+ *   { id: 'cut', label: 'Cut' },
+ *   { id: 'wrap', label: 'Word wrap', type: 'checkbox', checked: wrap },
+ *   { id: 'share', label: 'Share', items: [{ id: 'email', label: 'Email' }] },
+ * ];
+ * const menu = useMenuButton({ items, onAction, onCheckedChange });
+ *
+ * <button {...menu.getButtonProps()}>Edit</button>
+ * <ul {...menu.getMenuProps()}>
+ *   <li {...menu.getItemProps('cut')}>Cut</li>
+ *   <li {...menu.getItemProps('wrap')}>Word wrap</li>
+ *   <li role="none">
+ *     <span {...menu.getItemProps('share')}>Share</span>
+ *     <ul {...menu.getMenuProps('share')}>
+ *       <li {...menu.getItemProps('email')}>Email</li>
+ *     </ul>
+ *   </li>
+ * </ul>
+ * ```
+ */
+export function useMenuButton(options: UseMenuButtonOptions): UseMenuButtonResult {
+  const [isOpen, setIsOpen] = useControllableState(
+    options.open,
+    options.defaultOpen ?? false,
+    options.onOpenChange
+  );
+  const tree = useMenuTree('button', options, isOpen, setIsOpen);
+  const { rootId, buttonId, openPath, openRoot, closeAll } = tree;
+
+  const open = useCallback(() => setIsOpen(true), [setIsOpen]);
+  const close = () => closeAll(null);
+
+  const onKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key === 'Enter' || event.key === ' ' || event.key === 'ArrowDown') {
+      event.preventDefault();
+      openRoot('first');
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      openRoot('last');
+    }
+  };
+
+  const getButtonProps = (): MenuButtonProps => ({
+    ...createMenuButtonProps(rootId, isOpen),
+    id: buttonId,
+    onClick: () => (isOpen ? closeAll(null) : openRoot('first')),
+    onKeyDown,
+  });
+
+  const getMenuProps = (parentId?: string): MenuProps =>
+    parentId === undefined
+      ? {
+          id: rootId,
+          role: 'menu',
+          'aria-labelledby': buttonId,
+          hidden: !isOpen,
+          tabIndex: -1,
+        }
+      : tree.getSubmenuProps(parentId);
+
+  return {
+    isOpen,
+    openPath,
+    open,
+    close,
+    getButtonProps,
+    getMenuProps,
+    getItemProps: tree.getItemProps,
+  };
+}
+
+/**
+ * Implements a menubar whose items open dropdown menus
+ * ArrowLeft and ArrowRight move between menubar items (one of which holds the
+ * tab stop), ArrowDown and ArrowUp open an item's menu. Inside menus the
+ * keyboard works as in useMenuButton, and ArrowLeft/ArrowRight on items
+ * without a submenu move to the neighbouring menubar item's menu.
+ *
+ * @param options - Configuration options
+ * @returns Prop getters for the menubar, menus and items
+ *
+ * @example
+ * ```tsx
+ * const menubar = useMenubar({ items, onAction });
+ *
+ * <ul {...menubar.getMenubarProps()} aria-label="Text editor">
+ *   {items.map((top) => (
+ *     <li key={top.id} role="none">
+ *       <a href="#" {...menubar.getItemProps(top.id)}>{top.label}</a>
+ *       <ul {...menubar.getMenuProps(top.id)}>...</ul>
+ *     </li>
+ *   ))}
+ * </ul>
+ * ```
+ */
+export function useMenubar(options: UseMenubarOptions): UseMenubarResult {
+  const tree = useMenuTree('menubar', options, false, () => undefined);
+
+  const getMenubarProps = (): MenubarProps => ({
+    id: tree.rootId,
+    role: 'menubar',
+  });
+
+  return {
+    openPath: tree.openPath,
+    close: () => tree.closeAll(null),
+    getMenubarProps,
+    getMenuProps: tree.getSubmenuProps,
+    getItemProps: tree.getItemProps,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Radio Group
+ * Radio groups with a single tab stop, selection following focus and
+ * required/invalid group state
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useEffect, type KeyboardEvent } from 'react';
+import {
+  createCheckedProps,
+  createFormFieldProps,
+  type AccessibilityProps,
+  type CheckedProps,
+} from './index';
+import { useRovingTabIndex, type RovingItemProps } from './roving-tab-index';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for useRadioGroup
+ */
+export interface UseRadioGroupOptions {
+  /** The checked radio in controlled mode */
+  value?: string | null;
+  /** The initially checked radio in uncontrolled mode (default: none) */
+  defaultValue?: string | null;
+  /** Called when another radio is checked */
+  onChange?: (value: string) => void;
+  /**
+   * Arrow keys that move between radios (default: 'both', since radio groups
+   * conventionally respond to all four)
+   */
+  orientation?: 'horizontal' | 'vertical' | 'both';
+  /** Text direction; in right-to-left layouts ArrowLeft moves forward (default: 'ltr') */
+  dir?: 'ltr' | 'rtl';
+  /** Whether a radio must be checked (default: false) */
+  required?: boolean;
+  /** Whether the group fails validation (default: false) */
+  invalid?: boolean;
+  /** Whether the whole group is disabled (default: false) */
+  disabled?: boolean;
+}
+
+/**
+ * Options for a single radio
+ */
+export interface RadioOptions {
+  /** Whether the radio is disabled; disabled radios are skipped by arrow keys */
+  disabled?: boolean;
+}
+
+/**
+ * Props for the radio group container
+ */
+export interface RadioGroupProps extends AccessibilityProps {
+  role: 'radiogroup';
+}
+
+/**
+ * Props for a radio
+ */
+export interface RadioProps extends RovingItemProps {
+  role: 'radio';
+  'aria-checked': CheckedProps['aria-checked'];
+  onClick: () => void;
+}
+
+/**
+ * Return value of useRadioGroup
+ */
+export interface UseRadioGroupResult {
+  /** The checked radio */
+  value: string | null;
+  setValue: (value: string) => void;
+  getRadioGroupProps: () => RadioGroupProps;
+  getRadioProps: (value: string, options?: RadioOptions) => RadioProps;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA radio group pattern
+ * The group is a single tab stop on the checked radio (or the first enabled
+ * one). Arrow keys move to the next or previous enabled radio and check it,
+ * wrapping around; Space checks the focused radio. In right-to-left layouts,
+ * ArrowLeft and ArrowRight are mirrored. The group gets `aria-required` and
+ * `aria-invalid` via createFormFieldProps.
+ *
+ * @param options - Configuration options
+ * @returns The checked value and prop getters for the group and radios
+ *
+ * @example
+ * ```tsx
+ * const radios = useRadioGroup({ defaultValue: 'standard', required: true });
+ *
+ * <div {...radios.getRadioGroupProps()} aria-labelledby="shipping-label">
+ *   <div {...radios.getRadioProps('standard')}>Standard</div>
+ *   <div {...radios.getRadioProps('express')}>Express</div>
+ * </div>
+ * ```
+ */
+export function useRadioGroup(options: UseRadioGroupOptions = {}): UseRadioGroupResult {
+  const {
+    orientation = 'both',
+    dir = 'ltr',
+    required = false,
+    invalid = false,
+    disabled = false,
+  } = options;
+  const [value, setValueState] = useControllableState<string | null>(
+    options.value,
+    options.defaultValue ?? null,
+    (next) => {
+      if (next !== null) {
+        options.onChange?.(next);
+      }
+    }
+  );
+  const setValue = (next: string) => setValueState(next);
+
+  const roving = useRovingTabIndex({
+    orientation,
+    dir,
+    defaultActiveId: value ?? undefined,
+    onSelectedChange: setValue,
+    selectionFollowsFocus: true,
+  });
+
+  // The checked radio holds the tab stop, also when checked from outside
+  const { setActiveId } = roving;
+  useEffect(() => {
+    if (value !== null) {
+      setActiveId(value);
+    }
+  }, [value, setActiveId]);
+
+  const getRadioGroupProps = (): RadioGroupProps => {
+    const props: RadioGroupProps = {
+      ...roving.getContainerProps(),
+      ...createFormFieldProps(required, invalid),
+      role: 'radiogroup',
+    };
+    if (disabled) {
+      props['aria-disabled'] = 'true';
+    }
+    return props;
+  };
+
+  const getRadioProps = (radioValue: string, radioOptions: RadioOptions = {}): RadioProps => {
+    const radioDisabled = disabled || radioOptions.disabled === true;
+    const itemProps = roving.getItemProps(radioValue, { disabled: radioDisabled });
+    return {
+      ...itemProps,
+      ...createCheckedProps(radioValue === value),
+      role: 'radio',
+      onClick: () => {
+        if (!radioDisabled) {
+          roving.setActiveId(radioValue, true);
+          setValue(radioValue);
+        }
+      },
+      onKeyDown: (event: KeyboardEvent<HTMLElement>) => {
+        if (event.key === ' ') {
+          event.preventDefault();
+          if (!radioDisabled) {
+            setValue(radioValue);
+          }
+        } else if (!radioDisabled) {
+          itemProps.onKeyDown(event);
+        }
+      },
+    };
+  };
+
+  return { value, setValue, getRadioGroupProps, getRadioProps };
+}
@@ -0,0 +1,103 @@
+/**
+ * Role Props
+ * Role-aware accessibility prop types derived from the ARIA 1.2 role model
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import type { AccessibilityProps } from './index';
+import type { AriaAttributeName, AriaRole, GlobalAriaAttributeName, ariaRoles } from './aria-model';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type RoleDefinition<R extends AriaRole> = (typeof ariaRoles)[R];
+
+type RoleField<R extends AriaRole, F extends 'required' | 'supported' | 'prohibited'> =
+  RoleDefinition<R> extends { readonly [K in F]: readonly (infer A)[] }
+    ? A & AriaAttributeName
+    : never;
+
+/**
+ * Attributes that must be present on an element with role `R`
+ *
+ * @example
+ * ```ts
+ * type T = RequiredAttributesOf<'slider'>; // 'aria-valuenow'
+ * ```
+ */
+export type RequiredAttributesOf<R extends AriaRole> = RoleField<R, 'required'>;
+
+/**
+ * Attributes that must not be used on an element with role `R`
+ */
+export type ProhibitedAttributesOf<R extends AriaRole> = RoleField<R, 'prohibited'>;
+
+/**
+ * Attributes that may be used on an element with role `R`, including global
+ * and required ones and excluding prohibited ones
+ */
+export type SupportedAttributesOf<R extends AriaRole> = Exclude<
+  GlobalAriaAttributeName | RoleField<R, 'supported'> | RequiredAttributesOf<R>,
+  ProhibitedAttributesOf<R>
+>;
+
+type AttributeValue<K extends AriaAttributeName> = K extends keyof AccessibilityProps
+  ? NonNullable<AccessibilityProps[K]>
+  : never;
+
+/**
+ * Accessibility props for an element with role `R`
+ * Required attributes are mandatory, supported ones are optional and every
+ * other ARIA attribute is typed `never`, so the compiler rejects e.g.
+ * `aria-checked` on a `button` or a `slider` without `aria-valuenow`.
+ *
+ * @example
+ * ```tsx
+ * const props: RoleProps<'slider'> = {
+ *   role: 'slider',
+ *   'aria-valuenow': 50,
+ *   'aria-valuemin': 0,
+ *   'aria-valuemax': 100,
+ * };
+ * ```
+ */
+export type RoleProps<R extends AriaRole> = R extends AriaRole
+  ? { role: R; tabIndex?: number } & {
+      [K in RequiredAttributesOf<R>]-?: AttributeValue<K>;
+    } & {
+      [K in Exclude<SupportedAttributesOf<R>, RequiredAttributesOf<R>>]?: AttributeValue<K>;
+    } & {
+      [K in Exclude<AriaAttributeName, SupportedAttributesOf<R>>]?: never;
+    }
+  : never;
+
+/**
+ * The attributes accepted by createRoleProps for role `R`
+ */
+export type RoleAttributes<R extends AriaRole> = Omit<RoleProps<R>, 'role'>;
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Creates role-checked accessibility props
+ * The attributes are type-checked against the role: required attributes must
+ * be provided and unsupported or prohibited attributes are rejected.
+ *
+ * @param role - The ARIA role
+ * @param attributes - ARIA attributes for the role
+ * @returns Accessibility props including the role
+ *
+ * @example
+ * ```tsx
+ * <div {...createRoleProps('slider', { 'aria-valuenow': volume, 'aria-label': 'Volume' })} />
+ * ```
+ */
+export function createRoleProps<R extends AriaRole>(
+  role: R,
+  attributes: RoleAttributes<R>
+): RoleProps<R> {
+  return { ...attributes, role } as RoleProps<R>;
+}
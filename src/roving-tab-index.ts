@@ -0,0 +1,252 @@
+/**
+ * Roving Tab Index
+ * Keeps a single tab stop inside composite widgets (toolbars, listboxes, tab
+ * lists) and moves it with the arrow keys
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useEffect, useRef, useState, type KeyboardEvent } from 'react';
+import { createSelectedProps, type AccessibilityProps } from './index';
+import { focusElement, isItemDisabled, sortByDocumentPosition } from './dom';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Which arrow keys move between items
+ * `both` is for widgets such as grids of icons where every arrow key applies
+ */
+export type RovingOrientation = 'horizontal' | 'vertical' | 'both';
+
+/**
+ * Options for useRovingTabIndex
+ */
+export interface RovingTabIndexOptions {
+  /** Arrow keys that move focus; also reported as `aria-orientation` (default: 'horizontal') */
+  orientation?: RovingOrientation;
+  /** Whether moving past the last item wraps to the first and vice versa (default: true) */
+  loop?: boolean;
+  /** The item that holds the tab stop initially (default: the first enabled item) */
+  defaultActiveId?: string;
+  /** Called when the tab stop moves to another item */
+  onActiveChange?: (id: string) => void;
+  /** The selected item; when provided, items receive `aria-selected` via createSelectedProps */
+  selectedId?: string | null;
+  /** Called when an item should become selected */
+  onSelectedChange?: (id: string) => void;
+  /** Whether moving focus also selects the focused item (default: false) */
+  selectionFollowsFocus?: boolean;
+  /** Text direction; in right-to-left layouts ArrowLeft moves forward (default: 'ltr') */
+  dir?: 'ltr' | 'rtl';
+}
+
+/**
+ * Options for a single roving item
+ */
+export interface RovingItemOptions {
+  /** Whether the item is disabled; disabled items are skipped by arrow keys */
+  disabled?: boolean;
+}
+
+/**
+ * Props to spread onto a roving item
+ */
+export interface RovingItemProps extends AccessibilityProps {
+  ref: (element: HTMLElement | null) => void;
+  tabIndex: number;
+  onFocus: () => void;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+}
+
+/**
+ * Return value of useRovingTabIndex
+ */
+export interface RovingTabIndexResult {
+  /** The item that currently holds the tab stop */
+  activeId: string | null;
+  /** Moves the tab stop (and focus, when `focus` is true) to an item */
+  setActiveId: (id: string, focus?: boolean) => void;
+  /** Props for the composite widget container */
+  getContainerProps: () => AccessibilityProps;
+  /** Props for an item with the given ID */
+  getItemProps: (id: string, options?: RovingItemOptions) => RovingItemProps;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const PREVIOUS_KEYS: Record<RovingOrientation, string[]> = {
+  horizontal: ['ArrowLeft'],
+  vertical: ['ArrowUp'],
+  both: ['ArrowLeft', 'ArrowUp'],
+};
+
+const NEXT_KEYS: Record<RovingOrientation, string[]> = {
+  horizontal: ['ArrowRight'],
+  vertical: ['ArrowDown'],
+  both: ['ArrowRight', 'ArrowDown'],
+};
+
+const RTL_MIRRORED_KEYS: Record<string, string> = {
+  ArrowLeft: 'ArrowRight',
+  ArrowRight: 'ArrowLeft',
+};
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the roving tabindex technique for composite widgets
+ * Exactly one enabled item has `tabIndex={0}`; arrow keys (according to the
+ * orientation and, for horizontal keys, the text direction), Home and End
+ * move focus between the enabled items.
+ *
+ * @param options - Configuration options
+ * @returns The active item and prop getters for the container and items
+ *
+ * @example
+ * ```tsx
+ * const { getContainerProps, getItemProps } = useRovingTabIndex({
+ *   orientation: 'vertical',
+ *   selectedId,
+ *   onSelectedChange: setSelectedId,
+ *   selectionFollowsFocus: true,
+ * });
+ *
+ * <ul role="listbox" {...getContainerProps()}>
+ *   {options.map((option) => (
+ *     <li key={option.id} role="option" {...getItemProps(option.id)}>{option.label}</li>
+ *   ))}
+ * </ul>
+ * ```
+ */
+export function useRovingTabIndex(options: RovingTabIndexOptions = {}): RovingTabIndexResult {
+  const {
+    orientation = 'horizontal',
+    loop = true,
+    defaultActiveId,
+    selectedId,
+    dir = 'ltr',
+  } = options;
+  const [activeId, setActiveIdState] = useState<string | null>(defaultActiveId ?? null);
+  const activeIdRef = useRef(activeId);
+  activeIdRef.current = activeId;
+  const items = useRef(new Map<string, HTMLElement>());
+  const refCallbacks = useRef(new Map<string, (element: HTMLElement | null) => void>());
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const getEnabledItems = useCallback(
+    () =>
+      sortByDocumentPosition(Array.from(items.current.entries())).filter(
+        ([, element]) => !isItemDisabled(element)
+      ),
+    []
+  );
+
+  const setActiveId = useCallback((id: string, focus = false) => {
+    if (activeIdRef.current !== id) {
+      activeIdRef.current = id;
+      setActiveIdState(id);
+      optionsRef.current.onActiveChange?.(id);
+    }
+    if (focus) {
+      focusElement(items.current.get(id));
+    }
+  }, []);
+
+  // Keep the tab stop on an enabled, mounted item
+  useEffect(() => {
+    const enabled = getEnabledItems();
+    if (enabled.some(([id]) => id === activeId)) {
+      return;
+    }
+    const fallback = enabled.find(([id]) => id === optionsRef.current.selectedId) ?? enabled[0];
+    if (fallback) {
+      setActiveIdState(fallback[0]);
+    }
+  });
+
+  const moveTo = useCallback(
+    (id: string) => {
+      setActiveId(id, true);
+      const { selectionFollowsFocus, onSelectedChange } = optionsRef.current;
+      if (selectionFollowsFocus) {
+        onSelectedChange?.(id);
+      }
+    },
+    [setActiveId]
+  );
+
+  const onItemKeyDown = useCallback(
+    (id: string, event: KeyboardEvent<HTMLElement>) => {
+      if (event.altKey || event.ctrlKey || event.metaKey) {
+        return;
+      }
+
+      const enabled = getEnabledItems();
+      if (enabled.length === 0) {
+        return;
+      }
+      const index = enabled.findIndex(([itemId]) => itemId === id);
+      let nextIndex: number | null = null;
+      const key = dir === 'rtl' ? (RTL_MIRRORED_KEYS[event.key] ?? event.key) : event.key;
+
+      if (PREVIOUS_KEYS[orientation].includes(key)) {
+        nextIndex = index > 0 ? index - 1 : loop ? enabled.length - 1 : index;
+      } else if (NEXT_KEYS[orientation].includes(key)) {
+        nextIndex = index < enabled.length - 1 ? index + 1 : loop ? 0 : index;
+      } else if (event.key === 'Home') {
+        nextIndex = 0;
+      } else if (event.key === 'End') {
+        nextIndex = enabled.length - 1;
+      }
+
+      const next = nextIndex === null ? undefined : enabled[nextIndex];
+      if (!next) {
+        return;
+      }
+      event.preventDefault();
+      moveTo(next[0]);
+    },
+    [getEnabledItems, orientation, loop, dir, moveTo]
+  );
+
+  const getContainerProps = useCallback(
+    (): AccessibilityProps => (orientation === 'both' ? {} : { 'aria-orientation': orientation }),
+    [orientation]
+  );
+
+  const getItemProps = (id: string, itemOptions: RovingItemOptions = {}): RovingItemProps => {
+    let ref = refCallbacks.current.get(id);
+    if (!ref) {
+      ref = (element: HTMLElement | null) => {
+        if (element) {
+          items.current.set(id, element);
+        } else {
+          items.current.delete(id);
+        }
+      };
+      refCallbacks.current.set(id, ref);
+    }
+
+    const props: RovingItemProps = {
+      ref,
+      tabIndex: id === activeId && !itemOptions.disabled ? 0 : -1,
+      onFocus: () => setActiveId(id),
+      onKeyDown: (event) => onItemKeyDown(id, event),
+    };
+    if (itemOptions.disabled) {
+      props['aria-disabled'] = 'true';
+    }
+    if (selectedId !== undefined) {
+      Object.assign(props, createSelectedProps(id === selectedId));
+    }
+    return props;
+  };
+
+  return { activeId, setActiveId, getContainerProps, getItemProps };
+}
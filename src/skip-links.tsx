@@ -0,0 +1,294 @@
+/**
+ * Skip Links
+ * Skip links that move focus to their target, including non-focusable
+ * landmarks, without touching the URL hash
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useEffect, useId, useRef, useState, type MouseEvent } from 'react';
+import { createSkipLinkProps, srOnly, srOnlyFocusable, type A11yCSSProperties } from './index';
+import { computeAccessibleName } from './accname';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A skip link and the element it moves focus to
+ */
+export interface SkipLink {
+  /** ID of the target element */
+  targetId: string;
+  /** Text of the link */
+  label: string;
+}
+
+/**
+ * Landmarks that can be discovered automatically
+ */
+export type SkipLinkLandmark = 'main' | 'navigation' | 'search';
+
+/**
+ * Options for useSkipLinks
+ */
+export interface UseSkipLinksOptions {
+  /**
+   * Links to render; when omitted, landmarks are discovered after mount and
+   * again whenever the document changes
+   */
+  links?: SkipLink[];
+  /** Landmarks to discover, in document order (default: all of them) */
+  landmarks?: SkipLinkLandmark[];
+  /** Link text for discovered landmarks without an accessible name */
+  labels?: Partial<Record<SkipLinkLandmark, string>>;
+}
+
+/**
+ * Props for a skip link
+ */
+export interface SkipLinkProps {
+  href: string;
+  tabIndex: number;
+  style: A11yCSSProperties;
+  onClick: (event: MouseEvent<HTMLAnchorElement>) => void;
+  onFocus: () => void;
+  onBlur: () => void;
+}
+
+/**
+ * Return value of useSkipLinks
+ */
+export interface UseSkipLinksResult {
+  /** The given links, or the discovered landmarks */
+  links: SkipLink[];
+  /** Props for the element containing the links, which discovery skips */
+  getContainerProps: () => { ref: (element: HTMLElement | null) => void };
+  getLinkProps: (link: SkipLink) => SkipLinkProps;
+}
+
+/**
+ * Props for the SkipLinks component
+ */
+export interface SkipLinksProps extends UseSkipLinksOptions {
+  /** Accessible name of the list of links (default: 'Skip links') */
+  label?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const LANDMARK_SELECTORS: Record<SkipLinkLandmark, string> = {
+  main: 'main, [role="main"]',
+  navigation: 'nav, [role="navigation"]',
+  search: 'search, [role="search"]',
+};
+
+const DEFAULT_LABELS: Record<SkipLinkLandmark, string> = {
+  main: 'Skip to main content',
+  navigation: 'Skip to navigation',
+  search: 'Skip to search',
+};
+
+/**
+ * Finds the landmarks in document order, giving each one without an ID a
+ * generated ID so that it can be linked to
+ */
+function discoverLandmarks(
+  landmarks: SkipLinkLandmark[],
+  labels: Partial<Record<SkipLinkLandmark, string>>,
+  container: HTMLElement | null,
+  baseId: string
+): SkipLink[] {
+  const selector = landmarks.map((landmark) => LANDMARK_SELECTORS[landmark]).join(', ');
+  if (!selector) {
+    return [];
+  }
+  return Array.from(document.querySelectorAll<HTMLElement>(selector))
+    .filter((element) => !container?.contains(element))
+    .map((element, index) => {
+      const landmark =
+        landmarks.find((candidate) => element.matches(LANDMARK_SELECTORS[candidate])) ?? 'main';
+      if (!element.id) {
+        // Landmarks added later can take an index an earlier one was named with
+        let id = `${baseId}-${landmark}-${index}`;
+        for (let suffix = 1; document.getElementById(id); suffix++) {
+          id = `${baseId}-${landmark}-${index}-${suffix}`;
+        }
+        element.id = id;
+      }
+      const name = computeAccessibleName(element);
+      return {
+        targetId: element.id,
+        label: name ? `Skip to ${name}` : (labels[landmark] ?? DEFAULT_LABELS[landmark]),
+      };
+    });
+}
+
+function isSameLinks(first: SkipLink[], second: SkipLink[]): boolean {
+  return (
+    first.length === second.length &&
+    first.every(
+      (link, index) =>
+        link.targetId === second[index]?.targetId && link.label === second[index]?.label
+    )
+  );
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Moves focus to the target of a skip link
+ * Elements that cannot take focus, such as `<main>`, get `tabIndex={-1}` until
+ * focus leaves them. Browsers only scroll to the target of an in-page link, so
+ * call this from the link's click handler.
+ *
+ * @param targetId - ID of the target element
+ * @returns Whether the target was found
+ *
+ * @example
+ * ```tsx
+ * <a
+ *   {...createSkipLinkProps('main-content')}
+ *   onClick={(event) => {
+ *     event.preventDefault();
+ *     focusSkipTarget('main-content');
+ *   }}
+ * >
+ *   Skip to main content
+ * </a>
+ * ```
+ */
+export function focusSkipTarget(targetId: string): boolean {
+  const target = document.getElementById(targetId);
+  if (!target) {
+    return false;
+  }
+  if (!target.hasAttribute('tabindex') && target.tabIndex < 0) {
+    target.tabIndex = -1;
+    target.addEventListener('blur', () => target.removeAttribute('tabindex'), { once: true });
+  }
+  target.focus();
+  return true;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Owns the links, focus handling and styles of a set of skip links
+ * Each link is visually hidden with `srOnly` until it is focused, then shown
+ * with `srOnlyFocusable`. Activating a link moves focus to its target with
+ * focusSkipTarget and does not change the URL, so hash-based routers never see
+ * the target ID as a route. Without `links`, the `main`, `nav` and `search`
+ * landmarks are linked, and they are discovered again whenever elements or
+ * their roles and labels change, so landmarks of later routes are included.
+ *
+ * @param options - Configuration options
+ * @returns The links and a prop getter for each link
+ *
+ * @example
+ * ```tsx
+ * const { links, getContainerProps, getLinkProps } = useSkipLinks();
+ *
+ * <div {...getContainerProps()}>
+ *   {links.map((link) => (
+ *     <a key={link.targetId} {...getLinkProps(link)}>{link.label}</a>
+ *   ))}
+ * </div>
+ * ```
+ */
+export function useSkipLinks(options: UseSkipLinksOptions = {}): UseSkipLinksResult {
+  const { links } = options;
+  const baseId = useId();
+  const containerRef = useRef<HTMLElement | null>(null);
+  const [discovered, setDiscovered] = useState<SkipLink[]>([]);
+  // Compared before updating, so mutations that change no link schedule no render
+  const discoveredRef = useRef(discovered);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const setContainerRef = useCallback((element: HTMLElement | null) => {
+    containerRef.current = element;
+  }, []);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const shouldDiscover = links === undefined;
+  useEffect(() => {
+    if (!shouldDiscover) {
+      return;
+    }
+    const discover = () => {
+      const { landmarks = ['main', 'navigation', 'search'], labels = {} } = optionsRef.current;
+      const next = discoverLandmarks(landmarks, labels, containerRef.current, baseId);
+      if (!isSameLinks(discoveredRef.current, next)) {
+        discoveredRef.current = next;
+        setDiscovered(next);
+      }
+    };
+    discover();
+    if (typeof MutationObserver === 'undefined') {
+      return;
+    }
+    const observer = new MutationObserver(discover);
+    observer.observe(document.body, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: ['role', 'aria-label', 'aria-labelledby'],
+    });
+    return () => observer.disconnect();
+  }, [shouldDiscover, baseId]);
+
+  const onBlur = useCallback(() => setFocusedId(null), []);
+
+  const getLinkProps = (link: SkipLink): SkipLinkProps => ({
+    ...createSkipLinkProps(link.targetId),
+    style: focusedId === link.targetId ? { ...srOnly, ...srOnlyFocusable } : srOnly,
+    onClick: (event) => {
+      if (focusSkipTarget(link.targetId)) {
+        event.preventDefault();
+      }
+    },
+    onFocus: () => setFocusedId(link.targetId),
+    onBlur,
+  });
+
+  const getContainerProps = () => ({ ref: setContainerRef });
+
+  return { links: links ?? discovered, getContainerProps, getLinkProps };
+}
+
+// ============================================================================
+// Components
+// ============================================================================
+
+/**
+ * Component form of useSkipLinks that renders the links as a list
+ * Render it first in the page so the links are the first tab stops.
+ *
+ * @example
+ * ```tsx
+ * <SkipLinks />
+ * <nav aria-label="Primary">...</nav>
+ * <main>...</main>
+ * ```
+ */
+export function SkipLinks({ label = 'Skip links', ...options }: SkipLinksProps) {
+  const { links, getContainerProps, getLinkProps } = useSkipLinks(options);
+  return (
+    <ul
+      {...getContainerProps()}
+      aria-label={label}
+      style={{ listStyle: 'none', margin: 0, padding: 0 }}
+    >
+      {links.map((link) => (
+        <li key={link.targetId}>
+          <a {...getLinkProps(link)}>{link.label}</a>
+        </li>
+      ))}
+    </ul>
+  );
+}
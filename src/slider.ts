@@ -0,0 +1,487 @@
+/**
+ * Slider
+ * Single and two-thumb range sliders with formatted value text, keyboard
+ * stepping and pointer dragging
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useId, useRef, type CSSProperties, type KeyboardEvent, type PointerEvent } from 'react';
+import type { AccessibilityProps } from './index';
+import { focusElement } from './dom';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for createSliderProps
+ */
+export interface SliderPropsOptions {
+  /** The current value */
+  value: number;
+  /** Minimum value (default: 0) */
+  min?: number;
+  /** Maximum value (default: 100) */
+  max?: number;
+  /** Human-readable value, e.g. "$40" or "Medium" */
+  valueText?: string;
+  /** Orientation of the slider (default: 'horizontal') */
+  orientation?: 'horizontal' | 'vertical';
+  disabled?: boolean;
+}
+
+/**
+ * Accessibility props for a slider thumb
+ */
+export interface SliderProps extends AccessibilityProps {
+  role: 'slider';
+  'aria-valuenow': number;
+  'aria-valuemin': number;
+  'aria-valuemax': number;
+}
+
+/**
+ * Options shared by useSlider and useRangeSlider
+ */
+export interface SliderBaseOptions {
+  /** Minimum value (default: 0) */
+  min?: number;
+  /** Maximum value (default: 100) */
+  max?: number;
+  /** Step of the arrow keys and pointer snapping (default: 1) */
+  step?: number;
+  /** Step of PageUp and PageDown (default: 10 steps) */
+  largeStep?: number;
+  /** Orientation of the slider (default: 'horizontal') */
+  orientation?: 'horizontal' | 'vertical';
+  disabled?: boolean;
+  /** Formats a thumb's value for `aria-valuetext` */
+  formatValue?: (value: number, thumb: number) => string;
+  /** Base ID for the thumbs; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Options for useSlider
+ */
+export interface UseSliderOptions extends SliderBaseOptions {
+  /** The value in controlled mode */
+  value?: number;
+  /** The initial value in uncontrolled mode (default: `min`) */
+  defaultValue?: number;
+  /** Called whenever the value changes, including while dragging */
+  onChange?: (value: number) => void;
+  /** Called when a keyboard change or drag ends, e.g. to commit the value */
+  onChangeEnd?: (value: number) => void;
+}
+
+/**
+ * Lower and upper values of a range slider
+ */
+export type SliderRange = [number, number];
+
+/**
+ * Options for useRangeSlider
+ */
+export interface UseRangeSliderOptions extends SliderBaseOptions {
+  /** The values in controlled mode */
+  value?: SliderRange;
+  /** The initial values in uncontrolled mode (default: `[min, max]`) */
+  defaultValue?: SliderRange;
+  /** Called whenever either value changes, including while dragging */
+  onChange?: (value: SliderRange) => void;
+  /** Called when a keyboard change or drag ends, e.g. to commit the values */
+  onChangeEnd?: (value: SliderRange) => void;
+  /** Smallest allowed distance between the thumbs (default: 0) */
+  minDistance?: number;
+}
+
+/**
+ * Props for a slider thumb
+ */
+export interface SliderThumbProps extends SliderProps {
+  id: string;
+  tabIndex: number;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+}
+
+/**
+ * Props for the slider track, which handles pointer dragging
+ */
+export interface SliderTrackProps {
+  style: CSSProperties;
+  onPointerDown: (event: PointerEvent<HTMLElement>) => void;
+  onPointerMove: (event: PointerEvent<HTMLElement>) => void;
+  onPointerUp: (event: PointerEvent<HTMLElement>) => void;
+  onPointerCancel: (event: PointerEvent<HTMLElement>) => void;
+}
+
+/**
+ * Return value of useSlider
+ */
+export interface UseSliderResult {
+  value: number;
+  setValue: (value: number) => void;
+  /** Position of a value along the track, from 0 to 100 */
+  getPercent: (value: number) => number;
+  getLabelProps: () => { id: string };
+  getTrackProps: () => SliderTrackProps;
+  getThumbProps: () => SliderThumbProps;
+}
+
+/**
+ * Return value of useRangeSlider
+ */
+export interface UseRangeSliderResult {
+  value: SliderRange;
+  setValue: (value: SliderRange) => void;
+  /** Position of a value along the track, from 0 to 100 */
+  getPercent: (value: number) => number;
+  getTrackProps: () => SliderTrackProps;
+  /** Props for the lower (0) or upper (1) thumb */
+  getThumbProps: (thumb: 0 | 1) => SliderThumbProps;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Bundlers replace `process.env.NODE_ENV`; without one there is no `process` to read
+const isDevelopment = () => {
+  try {
+    return process.env.NODE_ENV !== 'production';
+  } catch {
+    return true;
+  }
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const countDecimals = (value: number) => (String(value).split('.')[1] ?? '').length;
+
+/**
+ * Rounds a value to the nearest step from `min`, without floating point noise
+ */
+function snapToStep(value: number, min: number, step: number): number {
+  const snapped = min + Math.round((value - min) / step) * step;
+  return Number(snapped.toFixed(Math.max(countDecimals(step), countDecimals(min))));
+}
+
+/**
+ * Clamps values into `min`..`max` and keeps each at or above the one before,
+ * so an out-of-range controlled or default value still renders a valid slider
+ */
+function clampValues(values: number[], min: number, max: number): number[] {
+  let previous = min;
+  return values.map((value) => {
+    previous = clamp(Number.isNaN(value) ? previous : value, previous, max);
+    return previous;
+  });
+}
+
+interface SliderThumbsConfig extends SliderBaseOptions {
+  minDistance?: number;
+  onChangeEnd?: (values: number[]) => void;
+}
+
+/**
+ * Keyboard and pointer handling shared by the single and range sliders
+ */
+function useSliderThumbs(
+  rawValues: number[],
+  setValues: (values: number[]) => void,
+  config: SliderThumbsConfig
+) {
+  const {
+    min = 0,
+    max = 100,
+    step = 1,
+    largeStep = step * 10,
+    orientation = 'horizontal',
+    disabled = false,
+    minDistance = 0,
+  } = config;
+  const generatedId = useId();
+  const baseId = config.id ?? generatedId;
+  const getThumbDomId = (thumb: number) => `${baseId}-thumb-${thumb}`;
+  const values = clampValues(rawValues, min, max);
+
+  // Pointer moves can arrive faster than renders
+  const valuesRef = useRef(values);
+  valuesRef.current = values;
+  const draggingRef = useRef<number | null>(null);
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  // Widened to include the thumb's own value when the thumbs are closer than `minDistance`
+  const getBounds = (thumb: number): [number, number] => {
+    const value = values[thumb] ?? min;
+    const previous = values[thumb - 1];
+    const next = values[thumb + 1];
+    return [
+      previous === undefined ? min : Math.min(previous + minDistance, value),
+      next === undefined ? max : Math.max(next - minDistance, value),
+    ];
+  };
+
+  const setThumb = (thumb: number, value: number) => {
+    const [lower, upper] = getBounds(thumb);
+    const nextValue = clamp(snapToStep(value, min, step), lower, upper);
+    if (valuesRef.current[thumb] === nextValue) {
+      return false;
+    }
+    const next = valuesRef.current.map((current, index) => (index === thumb ? nextValue : current));
+    valuesRef.current = next;
+    setValues(next);
+    return true;
+  };
+
+  const getPercent = (value: number) => (max === min ? 0 : ((value - min) / (max - min)) * 100);
+
+  const getPointerValue = (event: PointerEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const ratio =
+      orientation === 'vertical'
+        ? rect.height === 0
+          ? 0
+          : (rect.bottom - event.clientY) / rect.height
+        : rect.width === 0
+          ? 0
+          : (event.clientX - rect.left) / rect.width;
+    return min + clamp(ratio, 0, 1) * (max - min);
+  };
+
+  const endDrag = (event: PointerEvent<HTMLElement>) => {
+    if (draggingRef.current === null) {
+      return;
+    }
+    draggingRef.current = null;
+    event.currentTarget.releasePointerCapture?.(event.pointerId);
+    configRef.current.onChangeEnd?.(valuesRef.current);
+  };
+
+  const getTrackProps = (): SliderTrackProps => ({
+    // Keeps touch dragging from scrolling the page
+    style: { touchAction: 'none' },
+    onPointerDown: (event) => {
+      if (disabled || event.button !== 0) {
+        return;
+      }
+      event.preventDefault();
+      const value = getPointerValue(event);
+      // Move the nearest thumb; between stacked thumbs, the one on the side of the pointer
+      let thumb = 0;
+      values.forEach((current, index) => {
+        const best = Math.abs((values[thumb] ?? 0) - value);
+        const distance = Math.abs(current - value);
+        if (distance < best || (distance === best && value > current)) {
+          thumb = index;
+        }
+      });
+      draggingRef.current = thumb;
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+      focusElement(document.getElementById(getThumbDomId(thumb)));
+      setThumb(thumb, value);
+    },
+    onPointerMove: (event) => {
+      if (draggingRef.current !== null) {
+        setThumb(draggingRef.current, getPointerValue(event));
+      }
+    },
+    onPointerUp: endDrag,
+    onPointerCancel: endDrag,
+  });
+
+  const getThumbProps = (thumb: number): SliderThumbProps => {
+    const value = values[thumb] ?? min;
+    const [lower, upper] = getBounds(thumb);
+    const valueText = config.formatValue?.(value, thumb);
+    return {
+      ...createSliderProps({
+        value,
+        min: lower,
+        max: upper,
+        valueText,
+        orientation,
+        disabled,
+      }),
+      id: getThumbDomId(thumb),
+      tabIndex: disabled ? -1 : 0,
+      onKeyDown: (event) => {
+        if (disabled) {
+          return;
+        }
+        let next: number;
+        switch (event.key) {
+          case 'ArrowRight':
+          case 'ArrowUp':
+            next = value + step;
+            break;
+          case 'ArrowLeft':
+          case 'ArrowDown':
+            next = value - step;
+            break;
+          case 'PageUp':
+            next = value + largeStep;
+            break;
+          case 'PageDown':
+            next = value - largeStep;
+            break;
+          case 'Home':
+            next = lower;
+            break;
+          case 'End':
+            next = upper;
+            break;
+          default:
+            return;
+        }
+        event.preventDefault();
+        if (setThumb(thumb, next)) {
+          configRef.current.onChangeEnd?.(valuesRef.current);
+        }
+      },
+    };
+  };
+
+  return { values, getPercent, getTrackProps, getThumbProps, getThumbDomId };
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Creates props for a slider thumb
+ *
+ * In development, throws when the value is outside `min`..`max` or `min` is
+ * greater than `max`, since assistive technologies cannot present such a
+ * slider. The hooks clamp their values, so they never pass such a state.
+ *
+ * @param options - Slider state
+ * @returns Accessibility props for the slider
+ *
+ * @example
+ * ```tsx
+ * <div {...createSliderProps({ value: 40, valueText: '$40' })} tabIndex={0} aria-label="Price" />
+ * ```
+ */
+export function createSliderProps(options: SliderPropsOptions): SliderProps {
+  const { value, min = 0, max = 100, valueText, orientation = 'horizontal', disabled } = options;
+  if (isDevelopment() && (min > max || value < min || value > max || Number.isNaN(value))) {
+    throw new Error(
+      `Invalid slider state: aria-valuenow ${value} must be between aria-valuemin ${min} and aria-valuemax ${max}`
+    );
+  }
+  const props: SliderProps = {
+    role: 'slider',
+    'aria-valuenow': value,
+    'aria-valuemin': min,
+    'aria-valuemax': max,
+  };
+  if (valueText !== undefined) {
+    props['aria-valuetext'] = valueText;
+  }
+  if (orientation === 'vertical') {
+    props['aria-orientation'] = 'vertical';
+  }
+  if (disabled) {
+    props['aria-disabled'] = 'true';
+  }
+  return props;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA slider pattern
+ * ArrowRight and ArrowUp increase the value by `step`, ArrowLeft and ArrowDown
+ * decrease it, PageUp and PageDown change it by `largeStep` and Home and End
+ * set it to the minimum and maximum. Pressing on the track moves the thumb
+ * there and dragging follows the pointer, snapping to `step`. A controlled or
+ * default value outside `min`..`max` is clamped into it.
+ *
+ * @param options - Configuration options
+ * @returns The value and prop getters for the label, track and thumb
+ *
+ * @example
+ * ```tsx
+ * const slider = useSlider({ defaultValue: 40, formatValue: (value) => `$${value}` });
+ *
+ * <span {...slider.getLabelProps()}>Price</span>
+ * <div {...slider.getTrackProps()} className="track">
+ *   <div {...slider.getThumbProps()} style={{ left: `${slider.getPercent(slider.value)}%` }} />
+ * </div>
+ * ```
+ */
+export function useSlider(options: UseSliderOptions = {}): UseSliderResult {
+  const { onChangeEnd } = options;
+  const [rawValue, setValue] = useControllableState(
+    options.value,
+    options.defaultValue ?? options.min ?? 0,
+    options.onChange
+  );
+  const thumbs = useSliderThumbs([rawValue], ([next]) => setValue(next ?? rawValue), {
+    ...options,
+    onChangeEnd: onChangeEnd ? ([next]) => onChangeEnd(next ?? rawValue) : undefined,
+  });
+  const labelId = `${thumbs.getThumbDomId(0)}-label`;
+
+  return {
+    value: thumbs.values[0] ?? rawValue,
+    setValue,
+    getPercent: thumbs.getPercent,
+    getLabelProps: () => ({ id: labelId }),
+    getTrackProps: thumbs.getTrackProps,
+    getThumbProps: () => ({ ...thumbs.getThumbProps(0), 'aria-labelledby': labelId }),
+  };
+}
+
+/**
+ * Implements a two-thumb range slider
+ * Each thumb behaves like a single slider whose `aria-valuemin` and
+ * `aria-valuemax` are bounded by the other thumb (and `minDistance`), so the
+ * thumbs can never cross. Pressing on the track moves the nearest thumb.
+ * Controlled or default values outside the range or out of order are clamped.
+ * Label each thumb, e.g. with `aria-label="Minimum price"`.
+ *
+ * @param options - Configuration options
+ * @returns The values and prop getters for the track and thumbs
+ *
+ * @example
+ * ```tsx
+ * const range = useRangeSlider({ defaultValue: [20, 80], minDistance: 5 });
+ *
+ * <div {...range.getTrackProps()} className="track">
+ *   <div {...range.getThumbProps(0)} aria-label="Minimum price" />
+ *   <div {...range.getThumbProps(1)} aria-label="Maximum price" />
+ * </div>
+ * ```
+ */
+export function useRangeSlider(options: UseRangeSliderOptions = {}): UseRangeSliderResult {
+  const { onChangeEnd } = options;
+  const [rawValue, setValue] = useControllableState<SliderRange>(
+    options.value,
+    options.defaultValue ?? [options.min ?? 0, options.max ?? 100],
+    options.onChange
+  );
+  const toRange = (values: number[]): SliderRange => [
+    values[0] ?? rawValue[0],
+    values[1] ?? rawValue[1],
+  ];
+  const thumbs = useSliderThumbs(rawValue, (next) => setValue(toRange(next)), {
+    ...options,
+    onChangeEnd: onChangeEnd ? (next) => onChangeEnd(toRange(next)) : undefined,
+  });
+
+  return {
+    value: toRange(thumbs.values),
+    setValue,
+    getPercent: thumbs.getPercent,
+    getTrackProps: thumbs.getTrackProps,
+    getThumbProps: thumbs.getThumbProps,
+  };
+}
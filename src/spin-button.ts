@@ -0,0 +1,462 @@
+/**
+ * Spin Button
+ * Numeric entry with locale-aware formatting and parsing, stepper buttons
+ * with hold-to-repeat and throttled value announcements
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import {
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type KeyboardEvent,
+  type MouseEvent,
+  type PointerEvent,
+} from 'react';
+import {
+  createLiveRegion,
+  srOnly,
+  type A11yCSSProperties,
+  type AccessibilityProps,
+  type LiveRegionProps,
+} from './index';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for useSpinButton
+ */
+export interface UseSpinButtonOptions {
+  /** The value in controlled mode; null when the input is empty */
+  value?: number | null;
+  /** The initial value in uncontrolled mode (default: null) */
+  defaultValue?: number | null;
+  /** Called when the value changes, after typing is committed or on each step */
+  onChange?: (value: number | null) => void;
+  /** Minimum value */
+  min?: number;
+  /** Maximum value */
+  max?: number;
+  /** Step of the arrow keys and buttons (default: 1) */
+  step?: number;
+  /** Step of PageUp and PageDown (default: 10 steps) */
+  largeStep?: number;
+  /** Locale used to format and parse the value (default: the runtime locale) */
+  locale?: string;
+  /** Formatting of the value, e.g. `{ style: 'currency', currency: 'EUR' }` */
+  formatOptions?: Intl.NumberFormatOptions;
+  /** Milliseconds between announcements of the value while stepping (default: 500) */
+  announceDelay?: number;
+  disabled?: boolean;
+  readOnly?: boolean;
+  /** Base ID for the input and buttons; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Props for the spin button input
+ */
+export interface SpinButtonInputProps extends AccessibilityProps {
+  id: string;
+  role: 'spinbutton';
+  type: 'text';
+  inputMode: 'decimal';
+  value: string;
+  autoComplete: 'off';
+  autoCorrect: 'off';
+  spellCheck: false;
+  disabled?: boolean;
+  readOnly?: boolean;
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onBlur: () => void;
+  onKeyDown: (event: KeyboardEvent<HTMLInputElement>) => void;
+}
+
+/**
+ * Props for the increment and decrement buttons
+ */
+export interface SpinButtonStepperProps extends AccessibilityProps {
+  type: 'button';
+  tabIndex: -1;
+  'aria-controls': string;
+  'aria-label': string;
+  disabled: boolean;
+  onClick: (event: MouseEvent<HTMLButtonElement>) => void;
+  onPointerDown: (event: PointerEvent<HTMLButtonElement>) => void;
+  onPointerUp: (event: PointerEvent<HTMLButtonElement>) => void;
+  onPointerLeave: (event: PointerEvent<HTMLButtonElement>) => void;
+  onPointerCancel: (event: PointerEvent<HTMLButtonElement>) => void;
+}
+
+/**
+ * Props for the visually hidden region announcing stepped values
+ */
+export interface SpinButtonStatusProps extends LiveRegionProps {
+  role: 'status';
+  style: A11yCSSProperties;
+  children: string;
+}
+
+/**
+ * Return value of useSpinButton
+ */
+export interface UseSpinButtonResult {
+  value: number | null;
+  /** The text in the input: the formatted value, or what is being typed */
+  inputValue: string;
+  setValue: (value: number | null) => void;
+  increment: (amount?: number) => void;
+  decrement: (amount?: number) => void;
+  /** Formats a value with the locale and format options */
+  format: (value: number) => string;
+  /** Parses localized text, returning null when it is not a number */
+  parse: (text: string) => number | null;
+  getLabelProps: () => { id: string; htmlFor: string };
+  getInputProps: () => SpinButtonInputProps;
+  getIncrementButtonProps: () => SpinButtonStepperProps;
+  getDecrementButtonProps: () => SpinButtonStepperProps;
+  getStatusProps: () => SpinButtonStatusProps;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Delay before a held stepper button starts repeating */
+const REPEAT_DELAY = 400;
+/** Interval between repeated steps while a stepper button is held */
+const REPEAT_INTERVAL = 60;
+
+const countDecimals = (value: number) => (String(value).split('.')[1] ?? '').length;
+
+/**
+ * Creates a parser for numbers formatted by `formatter`, understanding its
+ * group and decimal separators, minus sign, digits and percent scaling
+ */
+function createNumberParser(formatter: Intl.NumberFormat): (text: string) => number | null {
+  const { locale, numberingSystem, style } = formatter.resolvedOptions();
+  const parts = new Intl.NumberFormat(locale).formatToParts(-12345.6);
+  const group = parts.find((part) => part.type === 'group')?.value ?? ',';
+  const decimal = parts.find((part) => part.type === 'decimal')?.value ?? '.';
+  const digitFormatter = new Intl.NumberFormat(locale, { numberingSystem, useGrouping: false });
+  const digits = new Map(
+    Array.from({ length: 10 }, (_, digit) => [digitFormatter.format(digit), String(digit)])
+  );
+
+  return (text) => {
+    let normalized = '';
+    for (const char of text.replaceAll(group, '').replaceAll(decimal, '.')) {
+      const digit = digits.get(char) ?? (/[0-9.]/.test(char) ? char : undefined);
+      if (digit !== undefined) {
+        normalized += digit;
+      } else if (/[-−]/.test(char) && normalized === '') {
+        normalized = '-';
+      }
+    }
+    if (!/^-?(\d+\.?\d*|\.\d+)$/.test(normalized)) {
+      return null;
+    }
+    const parsed = Number(normalized);
+    return style === 'percent' ? parsed / 100 : parsed;
+  };
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA spinbutton pattern for numeric entry
+ * ArrowUp and ArrowDown change the value by `step`, PageUp and PageDown by
+ * `largeStep` and Home and End set it to `min` and `max`. Typed text is parsed
+ * with the locale when the input loses focus or Enter is pressed. Holding a
+ * stepper button repeats the step. Stepped values are announced through a
+ * visually hidden live region, at most once per `announceDelay`, because
+ * screen readers do not reliably announce value changes made with the buttons.
+ *
+ * @param options - Configuration options
+ * @returns The value and prop getters for the label, input, buttons and status
+ *
+ * @example
+ * ```tsx
+ * const quantity = useSpinButton({ defaultValue: 1, min: 1, max: 99 });
+ *
+ * <label {...quantity.getLabelProps()}>Quantity</label>
+ * <button {...quantity.getDecrementButtonProps()}>−</button>
+ * <input {...quantity.getInputProps()} />
+ * <button {...quantity.getIncrementButtonProps()}>+</button>
+ * <div {...quantity.getStatusProps()} />
+ * ```
+ */
+export function useSpinButton(options: UseSpinButtonOptions = {}): UseSpinButtonResult {
+  const {
+    min,
+    max,
+    step = 1,
+    largeStep = step * 10,
+    locale,
+    formatOptions,
+    announceDelay = 500,
+    disabled = false,
+    readOnly = false,
+  } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const inputId = `${baseId}-input`;
+  const labelId = `${baseId}-label`;
+
+  const [value, setValue] = useControllableState(
+    options.value,
+    options.defaultValue ?? null,
+    options.onChange
+  );
+  // Text being typed; null while the input shows the formatted value
+  const [draft, setDraft] = useState<string | null>(null);
+  const draftRef = useRef(draft);
+  draftRef.current = draft;
+  const [announcement, setAnnouncement] = useState('');
+
+  const formatKey = JSON.stringify(formatOptions ?? {});
+  const formatter = useMemo(
+    () => new Intl.NumberFormat(locale, formatOptions),
+    // formatOptions is compared by value, since callers usually pass a literal
+    [locale, formatKey]
+  );
+  const parse = useMemo(() => createNumberParser(formatter), [formatter]);
+  const format = (next: number) => formatter.format(next);
+
+  const pendingRef = useRef<string | null>(null);
+  const announceTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const repeatTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Set while a pointer is pressing a stepper, so its click does not step again
+  const pointerStepRef = useRef(false);
+
+  useEffect(
+    () => () => {
+      clearTimeout(announceTimerRef.current);
+      clearTimeout(repeatTimerRef.current);
+    },
+    []
+  );
+
+  // Announces immediately, then at most once per announceDelay with the latest value
+  const flushAnnouncement = () => {
+    const message = pendingRef.current;
+    if (message === null) {
+      announceTimerRef.current = undefined;
+      return;
+    }
+    pendingRef.current = null;
+    setAnnouncement(message);
+    announceTimerRef.current = setTimeout(flushAnnouncement, announceDelay);
+  };
+
+  const announce = (message: string) => {
+    pendingRef.current = message;
+    if (announceTimerRef.current === undefined) {
+      flushAnnouncement();
+    }
+  };
+
+  const clamp = (next: number) => Math.min(Math.max(next, min ?? -Infinity), max ?? Infinity);
+
+  const commit = (next: number | null) => {
+    setDraft(null);
+    setValue(next === null ? null : clamp(next));
+  };
+
+  const commitDraft = () => {
+    if (draft !== null) {
+      commit(draft.trim() === '' ? null : (parse(draft) ?? value));
+    }
+  };
+
+  /**
+   * Moves the value from its current (or typed) value, announcing the result.
+   * Reads state through refs because held stepper buttons call it from timers.
+   */
+  const update = (getNext: (base: number) => number) => {
+    if (disabled || readOnly) {
+      return false;
+    }
+    const typed = draftRef.current === null ? null : parse(draftRef.current);
+    draftRef.current = null;
+    setDraft(null);
+    let changed = null as number | null;
+    setValue((current) => {
+      const next = clamp(getNext(typed ?? current ?? min ?? 0));
+      changed = next !== current ? next : null;
+      return next;
+    });
+    if (changed !== null) {
+      announce(format(changed));
+    }
+    return changed !== null;
+  };
+
+  const stepBy = (amount: number) =>
+    update((base) => {
+      const decimals = Math.max(countDecimals(step), countDecimals(base));
+      return Number((base + amount).toFixed(decimals));
+    });
+
+  const increment = (amount = step) => stepBy(amount);
+  const decrement = (amount = step) => stepBy(-amount);
+
+  const stopRepeat = () => {
+    clearTimeout(repeatTimerRef.current);
+    repeatTimerRef.current = undefined;
+  };
+
+  // A pointerup on the button is followed by its click in the same task, so
+  // the flag is cleared after it; leaving or cancelling produces no click
+  const endPointerPress = (event: PointerEvent<HTMLButtonElement>) => {
+    stopRepeat();
+    if (event.type === 'pointerup') {
+      setTimeout(() => {
+        pointerStepRef.current = false;
+      });
+    } else {
+      pointerStepRef.current = false;
+    }
+  };
+
+  const getInputProps = (): SpinButtonInputProps => {
+    const props: SpinButtonInputProps = {
+      id: inputId,
+      role: 'spinbutton',
+      type: 'text',
+      inputMode: 'decimal',
+      value: draft ?? (value === null ? '' : format(value)),
+      autoComplete: 'off',
+      autoCorrect: 'off',
+      spellCheck: false,
+      onChange: (event) => setDraft(event.target.value),
+      onBlur: commitDraft,
+      onKeyDown: (event) => {
+        switch (event.key) {
+          case 'ArrowUp':
+            increment();
+            break;
+          case 'ArrowDown':
+            decrement();
+            break;
+          case 'PageUp':
+            increment(largeStep);
+            break;
+          case 'PageDown':
+            decrement(largeStep);
+            break;
+          case 'Home':
+            if (min === undefined) {
+              return;
+            }
+            update(() => min);
+            break;
+          case 'End':
+            if (max === undefined) {
+              return;
+            }
+            update(() => max);
+            break;
+          case 'Enter':
+            commitDraft();
+            return;
+          default:
+            return;
+        }
+        event.preventDefault();
+      },
+    };
+    if (value !== null) {
+      props['aria-valuenow'] = value;
+      const text = format(value);
+      if (text !== String(value)) {
+        props['aria-valuetext'] = text;
+      }
+    }
+    if (min !== undefined) {
+      props['aria-valuemin'] = min;
+    }
+    if (max !== undefined) {
+      props['aria-valuemax'] = max;
+    }
+    if (disabled) {
+      props.disabled = true;
+    }
+    if (readOnly) {
+      props.readOnly = true;
+      props['aria-readonly'] = 'true';
+    }
+    return props;
+  };
+
+  const getStepperProps = (direction: 1 | -1): SpinButtonStepperProps => {
+    const limit = direction === 1 ? max : min;
+    const atLimit = value !== null && limit !== undefined && value === limit;
+    const press = () => stepBy(direction * step);
+    return {
+      type: 'button',
+      // Keyboard users step with the arrow keys in the input
+      tabIndex: -1,
+      'aria-controls': inputId,
+      'aria-label': direction === 1 ? 'Increase' : 'Decrease',
+      disabled: disabled || readOnly || atLimit,
+      onClick: () => {
+        if (pointerStepRef.current) {
+          pointerStepRef.current = false;
+        } else {
+          press();
+        }
+      },
+      onPointerDown: (event) => {
+        if (event.button !== 0) {
+          return;
+        }
+        // Keeps focus (and the caret) in the input
+        event.preventDefault();
+        pointerStepRef.current = true;
+        press();
+        // Stops at min or max, where the disabled button gets no pointerup
+        const repeat = () => {
+          if (press()) {
+            repeatTimerRef.current = setTimeout(repeat, REPEAT_INTERVAL);
+          }
+        };
+        stopRepeat();
+        repeatTimerRef.current = setTimeout(repeat, REPEAT_DELAY);
+      },
+      onPointerUp: endPointerPress,
+      onPointerLeave: endPointerPress,
+      onPointerCancel: endPointerPress,
+    };
+  };
+
+  const getStatusProps = (): SpinButtonStatusProps => ({
+    ...createLiveRegion({ atomic: true }),
+    role: 'status',
+    style: srOnly,
+    children: announcement,
+  });
+
+  return {
+    value,
+    inputValue: draft ?? (value === null ? '' : format(value)),
+    setValue: commit,
+    increment,
+    decrement,
+    format,
+    parse,
+    getLabelProps: () => ({ id: labelId, htmlFor: inputId }),
+    getInputProps,
+    getIncrementButtonProps: () => getStepperProps(1),
+    getDecrementButtonProps: () => getStepperProps(-1),
+    getStatusProps,
+  };
+}
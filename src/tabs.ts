@@ -0,0 +1,243 @@
+/**
+ * Tabs
+ * Tablist, tab and tabpanel props with automatic or manual activation,
+ * deletable tabs and lazily mounted panels
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useEffect, useId, useState, type KeyboardEvent } from 'react';
+import { createLabelledByProps, type AccessibilityProps } from './index';
+import { useRovingTabIndex, type RovingItemProps } from './roving-tab-index';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * When a tab is activated
+ * - `automatic`: as soon as it receives focus
+ * - `manual`: when Enter or Space is pressed (or it is clicked)
+ */
+export type TabsActivation = 'automatic' | 'manual';
+
+/**
+ * Options for useTabs
+ */
+export interface UseTabsOptions {
+  /** The selected tab in controlled mode */
+  selectedId?: string | null;
+  /** The initially selected tab in uncontrolled mode (default: the first of `tabs`) */
+  defaultSelectedId?: string | null;
+  /**
+   * The tab IDs in order, which lets the first one be selected by default
+   * without `defaultSelectedId`
+   */
+  tabs?: string[];
+  /** Called when another tab is selected */
+  onSelectedChange?: (id: string) => void;
+  /** When tabs are activated (default: 'automatic') */
+  activation?: TabsActivation;
+  /** Orientation of the tablist (default: 'horizontal') */
+  orientation?: 'horizontal' | 'vertical';
+  /** Makes tabs deletable with the Delete key; called with the tab to remove */
+  onDelete?: (id: string) => void;
+  /** Whether panels are mounted only once their tab has been selected (default: false) */
+  lazy?: boolean;
+  /** Base ID for the tabs and panels; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Options for a single tab
+ */
+export interface TabOptions {
+  /** Whether the tab is disabled; disabled tabs are skipped by arrow keys */
+  disabled?: boolean;
+}
+
+/**
+ * Props for the tablist
+ */
+export interface TabListProps extends AccessibilityProps {
+  role: 'tablist';
+}
+
+/**
+ * Props for a tab
+ */
+export interface TabProps extends RovingItemProps {
+  id: string;
+  role: 'tab';
+  'aria-controls': string;
+  onClick: () => void;
+}
+
+/**
+ * Props for a tab panel
+ */
+export interface TabPanelProps extends AccessibilityProps {
+  id: string;
+  role: 'tabpanel';
+  hidden: boolean;
+  tabIndex: 0;
+}
+
+/**
+ * Return value of useTabs
+ */
+export interface UseTabsResult {
+  /** The selected tab */
+  selectedId: string | null;
+  select: (id: string) => void;
+  /** Whether the panel of a tab should be rendered; always true unless `lazy` */
+  isPanelMounted: (id: string) => boolean;
+  getTabListProps: () => TabListProps;
+  getTabProps: (id: string, options?: TabOptions) => TabProps;
+  getTabPanelProps: (id: string) => TabPanelProps;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA tabs pattern
+ * Tabs and panels get generated IDs linked with `aria-controls` and
+ * `aria-labelledby`. Arrow keys (following the orientation), Home and End
+ * move between tabs; with automatic activation the focused tab is selected,
+ * with manual activation Enter or Space selects it. When `onDelete` is given,
+ * Delete removes the focused tab and focus moves to its neighbour. Without
+ * `selectedId` or `defaultSelectedId`, the first of `tabs` is selected
+ * initially; with none of them no tab is.
+ *
+ * @param options - Configuration options
+ * @returns The selected tab and prop getters for the tablist, tabs and panels
+ *
+ * @example
+ * ```tsx
+ * const tabs = useTabs({ defaultSelectedId: 'details' });
+ *
+ * <div {...tabs.getTabListProps()} aria-label="Product">
+ *   <button {...tabs.getTabProps('details')}>Details</button>
+ *   <button {...tabs.getTabProps('reviews')}>Reviews</button>
+ * </div>
+ * <div {...tabs.getTabPanelProps('details')}>...</div>
+ * <div {...tabs.getTabPanelProps('reviews')}>...</div>
+ * ```
+ */
+export function useTabs(options: UseTabsOptions = {}): UseTabsResult {
+  const { activation = 'automatic', orientation = 'horizontal', onDelete, lazy = false } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const getTabDomId = (id: string) => `${baseId}-tab-${id}`;
+  const getPanelDomId = (id: string) => `${baseId}-panel-${id}`;
+
+  const [selectedId, setSelected] = useControllableState<string | null>(
+    options.selectedId,
+    options.defaultSelectedId ?? options.tabs?.[0] ?? null,
+    (id) => {
+      if (id !== null) {
+        options.onSelectedChange?.(id);
+      }
+    }
+  );
+
+  const roving = useRovingTabIndex({
+    orientation,
+    selectedId,
+    onSelectedChange: setSelected,
+    selectionFollowsFocus: activation === 'automatic',
+  });
+  // Panels mounted so far with `lazy`, besides the selected one
+  const [visitedIds, setVisitedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (lazy && selectedId !== null) {
+      setVisitedIds((ids) => (ids.includes(selectedId) ? ids : [...ids, selectedId]));
+    }
+  }, [lazy, selectedId]);
+
+  const select = (id: string) => setSelected(id);
+
+  const deleteTab = (id: string, event: KeyboardEvent<HTMLElement>) => {
+    const tabs = Array.from(
+      event.currentTarget
+        .closest('[role="tablist"]')
+        ?.querySelectorAll<HTMLElement>('[role="tab"]') ?? []
+    ).filter((tab) => tab.getAttribute('aria-disabled') !== 'true' || tab === event.currentTarget);
+    const position = tabs.indexOf(event.currentTarget);
+    const neighbour = tabs[position + 1] ?? tabs[position - 1];
+    const prefix = `${baseId}-tab-`;
+
+    if (neighbour?.id.startsWith(prefix)) {
+      const neighbourId = neighbour.id.slice(prefix.length);
+      roving.setActiveId(neighbourId, true);
+      if (selectedId === id) {
+        setSelected(neighbourId);
+      }
+    }
+    setVisitedIds((ids) => ids.filter((visited) => visited !== id));
+    onDelete?.(id);
+  };
+
+  const getTabListProps = (): TabListProps => ({
+    ...roving.getContainerProps(),
+    role: 'tablist',
+  });
+
+  const getTabProps = (id: string, tabOptions: TabOptions = {}): TabProps => {
+    const itemProps = roving.getItemProps(id, tabOptions);
+    const selected = id === selectedId;
+    // Before the tab stop settles on mount, the selected tab holds it
+    const tabIndex = roving.activeId === null && selected ? 0 : itemProps.tabIndex;
+    return {
+      ...itemProps,
+      'aria-selected': selected ? 'true' : 'false',
+      tabIndex: tabOptions.disabled ? -1 : tabIndex,
+      id: getTabDomId(id),
+      role: 'tab',
+      'aria-controls': getPanelDomId(id),
+      onClick: () => {
+        if (!tabOptions.disabled) {
+          roving.setActiveId(id);
+          select(id);
+        }
+      },
+      onKeyDown: (event) => {
+        if (onDelete && event.key === 'Delete' && !tabOptions.disabled) {
+          event.preventDefault();
+          deleteTab(id, event);
+        } else if (
+          activation === 'manual' &&
+          (event.key === 'Enter' || event.key === ' ') &&
+          !tabOptions.disabled
+        ) {
+          event.preventDefault();
+          select(id);
+        } else {
+          itemProps.onKeyDown(event);
+        }
+      },
+    };
+  };
+
+  const getTabPanelProps = (id: string): TabPanelProps => ({
+    ...createLabelledByProps(getTabDomId(id)),
+    id: getPanelDomId(id),
+    role: 'tabpanel',
+    hidden: id !== selectedId,
+    tabIndex: 0,
+  });
+
+  const isPanelMounted = (id: string) => !lazy || id === selectedId || visitedIds.includes(id);
+
+  return {
+    selectedId,
+    select,
+    isPanelMounted,
+    getTabListProps,
+    getTabProps,
+    getTabPanelProps,
+  };
+}
@@ -0,0 +1,388 @@
+/**
+ * Testing
+ * Custom Vitest/Jest matchers for accessible names, ARIA validity, disclosure
+ * state and live region announcements. Published as the `/testing` subpath.
+ * @module @opensourceframework/react-a11y-utils/testing
+ */
+
+import { computeAccessibleName, validateA11yProps, type Politeness } from './index';
+import { getImplicitRole, isHiddenFromAccessibility } from './dom';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Result returned by each matcher, compatible with `expect.extend`
+ */
+export interface A11yMatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Options for toHaveAnnounced
+ */
+export interface ToHaveAnnouncedOptions {
+  /** Only match announcements made in a region with this politeness */
+  politeness?: Politeness;
+}
+
+/**
+ * A message that appeared in a live region
+ */
+export interface RecordedAnnouncement {
+  text: string;
+  politeness: Politeness;
+  region: Element;
+}
+
+/**
+ * Matcher signatures, for augmenting the assertion type of the test runner
+ *
+ * @example
+ * ```ts
+ * // vitest.d.ts
+ * import type { A11yMatchers } from '@opensourceframework/react-a11y-utils/testing';
+ *
+ * declare module 'vitest' {
+ *   interface Assertion<T = any> extends A11yMatchers<T> {}
+ * }
+ * ```
+ */
+export interface A11yMatchers<R = unknown> {
+  /** Asserts the accessible name, or that there is one when called without arguments */
+  toHaveAccessibleName(expected?: string | RegExp): R;
+  /** Asserts the element's role and `aria-*` attributes pass validateA11yProps */
+  toHaveValidAria(): R;
+  /** Asserts `aria-expanded="true"` and that `aria-controls` resolves to a visible element */
+  toBeExpandedControlling(panel?: Element | null): R;
+  /** Asserts a message appeared in a live region inside the received node */
+  toHaveAnnounced(expected: string | RegExp, options?: ToHaveAnnouncedOptions): R;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const LIVE_REGION_SELECTOR = '[aria-live], [role="alert"], [role="status"], [role="log"]';
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function matches(actual: string, expected: string | RegExp): boolean {
+  return typeof expected === 'string' ? actual === normalize(expected) : expected.test(actual);
+}
+
+function describeElement(element: Element): string {
+  const id = element.id ? `#${element.id}` : '';
+  const role = element.getAttribute('role');
+  return `<${element.localName}${id}${role ? ` role="${role}"` : ''}>`;
+}
+
+function assertElement(received: unknown, matcher: string): asserts received is Element {
+  if (!(received instanceof Element)) {
+    throw new Error(`${matcher} must be called on a DOM element, received ${String(received)}`);
+  }
+}
+
+function getPoliteness(region: Element): Politeness | null {
+  const live = region.getAttribute('aria-live');
+  if (live === 'off') {
+    return null;
+  }
+  if (live === 'polite' || live === 'assertive') {
+    return live;
+  }
+  return region.getAttribute('role') === 'alert' ? 'assertive' : 'polite';
+}
+
+// ============================================================================
+// Announcement Recording
+// ============================================================================
+
+const announcements: RecordedAnnouncement[] = [];
+let observer: MutationObserver | null = null;
+
+function record(region: Element, text: string): void {
+  const politeness = getPoliteness(region);
+  const message = normalize(text);
+  if (politeness && message) {
+    announcements.push({ text: message, politeness, region });
+  }
+}
+
+function processMutations(mutations: MutationRecord[]): void {
+  // An alert can be reached through several records when it is inside a
+  // subtree that was added in the same batch
+  const insertedAlerts = new Set<Element>();
+
+  for (const mutation of mutations) {
+    const target =
+      mutation.target instanceof Element ? mutation.target : mutation.target.parentElement;
+    const region = target?.closest(LIVE_REGION_SELECTOR);
+
+    if (region) {
+      if (region.getAttribute('aria-atomic') === 'true') {
+        record(region, region.textContent ?? '');
+      } else if (mutation.type === 'characterData') {
+        record(region, mutation.target.textContent ?? '');
+      } else {
+        for (const node of Array.from(mutation.addedNodes)) {
+          record(region, node.textContent ?? '');
+        }
+      }
+      continue;
+    }
+
+    // Alerts are announced when they are inserted with their content
+    for (const node of Array.from(mutation.addedNodes)) {
+      if (!(node instanceof Element)) {
+        continue;
+      }
+      const alerts = node.matches('[role="alert"]')
+        ? [node]
+        : Array.from(node.querySelectorAll('[role="alert"]'));
+      for (const alert of alerts) {
+        if (!insertedAlerts.has(alert)) {
+          insertedAlerts.add(alert);
+          record(alert, alert.textContent ?? '');
+        }
+      }
+    }
+  }
+}
+
+function flush(): void {
+  if (observer) {
+    processMutations(observer.takeRecords());
+  }
+}
+
+/**
+ * Starts recording messages added to live regions anywhere in the document
+ * Call it once in the test setup file, before any test renders; toHaveAnnounced
+ * and getAnnouncements only see messages made while recording.
+ *
+ * @example
+ * ```ts
+ * // vitest.setup.ts
+ * startRecordingAnnouncements();
+ * afterEach(clearAnnouncements);
+ * ```
+ */
+export function startRecordingAnnouncements(): void {
+  if (observer || typeof MutationObserver === 'undefined' || typeof document === 'undefined') {
+    return;
+  }
+  observer = new MutationObserver(processMutations);
+  observer.observe(document, { childList: true, subtree: true, characterData: true });
+}
+
+/**
+ * Stops recording and forgets every recorded announcement
+ */
+export function stopRecordingAnnouncements(): void {
+  observer?.disconnect();
+  observer = null;
+  announcements.length = 0;
+}
+
+/**
+ * Returns every announcement recorded since the last clearAnnouncements() call
+ *
+ * @returns Recorded announcements, oldest first
+ */
+export function getAnnouncements(): RecordedAnnouncement[] {
+  flush();
+  return [...announcements];
+}
+
+/**
+ * Forgets every recorded announcement; call it in `afterEach`
+ */
+export function clearAnnouncements(): void {
+  flush();
+  announcements.length = 0;
+}
+
+// ============================================================================
+// Matchers
+// ============================================================================
+
+/**
+ * Asserts the accessible name of an element, computed with computeAccessibleName
+ *
+ * @example
+ * ```ts
+ * expect(screen.getByRole('button')).toHaveAccessibleName('Close dialog');
+ * ```
+ */
+export function toHaveAccessibleName(
+  received: unknown,
+  expected?: string | RegExp
+): A11yMatcherResult {
+  assertElement(received, 'toHaveAccessibleName');
+  const name = computeAccessibleName(received);
+  const pass = expected === undefined ? name !== '' : matches(name, expected);
+
+  return {
+    pass,
+    message: () =>
+      expected === undefined
+        ? pass
+          ? `Expected ${describeElement(received)} not to have an accessible name, but it is "${name}"`
+          : `Expected ${describeElement(received)} to have an accessible name`
+        : `Expected ${describeElement(received)} ${pass ? 'not ' : ''}to have accessible name ${String(
+            expected
+          )}, but it is "${name}"`,
+  };
+}
+
+/**
+ * Asserts that the role and `aria-*` attributes of an element pass
+ * validateA11yProps, using the element's implicit role when it has no `role`
+ *
+ * @example
+ * ```ts
+ * expect(screen.getByRole('slider')).toHaveValidAria();
+ * ```
+ */
+export function toHaveValidAria(received: unknown): A11yMatcherResult {
+  assertElement(received, 'toHaveValidAria');
+  const props: Record<string, string> = {};
+  for (const attribute of Array.from(received.attributes)) {
+    if (attribute.name === 'role' || attribute.name.startsWith('aria-')) {
+      props[attribute.name] = attribute.value;
+    }
+  }
+
+  const implicitRole = getImplicitRole(received) ?? undefined;
+  const { valid, diagnostics } = validateA11yProps(props, { implicitRole });
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+
+  return {
+    pass: valid,
+    message: () =>
+      valid
+        ? `Expected ${describeElement(received)} to have invalid ARIA, but it is valid`
+        : `Expected ${describeElement(received)} to have valid ARIA:\n${errors
+            .map((diagnostic) => `  - ${diagnostic.message}`)
+            .join('\n')}`,
+  };
+}
+
+/**
+ * Asserts that an element is expanded and controls a rendered, visible
+ * element, as produced by createDisclosureProps. When `panel` is given,
+ * `aria-controls` must reference it.
+ *
+ * @example
+ * ```ts
+ * fireEvent.click(trigger);
+ * expect(trigger).toBeExpandedControlling(screen.getByRole('region'));
+ * ```
+ */
+export function toBeExpandedControlling(
+  received: unknown,
+  panel?: Element | null
+): A11yMatcherResult {
+  assertElement(received, 'toBeExpandedControlling');
+  const expanded = received.getAttribute('aria-expanded');
+  const ids = received.getAttribute('aria-controls')?.split(/\s+/).filter(Boolean) ?? [];
+  const controlled: Array<Element | null> = ids.map((id) =>
+    received.ownerDocument.getElementById(id)
+  );
+
+  let problem: string | null = null;
+  if (expanded !== 'true') {
+    problem = `aria-expanded is ${expanded === null ? 'missing' : `"${expanded}"`}`;
+  } else if (ids.length === 0) {
+    problem = 'aria-controls is missing';
+  } else if (controlled.some((element) => element === null)) {
+    problem = `aria-controls references a missing element ("${ids.join(' ')}")`;
+  } else if (panel && !controlled.includes(panel)) {
+    problem = `aria-controls does not reference ${describeElement(panel)}`;
+  } else if (controlled.every((element) => element && isHiddenFromAccessibility(element))) {
+    problem = 'the controlled element is hidden';
+  }
+
+  return {
+    pass: problem === null,
+    message: () =>
+      problem === null
+        ? `Expected ${describeElement(received)} not to be expanded controlling "${ids.join(' ')}"`
+        : `Expected ${describeElement(received)} to be expanded and control a visible element, but ${problem}`,
+  };
+}
+
+/**
+ * Asserts that a message appeared in a live region inside the received node
+ * (usually `document` or a container) since the last clearAnnouncements()
+ * call. Regions with `aria-live`, `role="status"`, `role="log"` and
+ * `role="alert"` are watched, including those from createLiveRegion and
+ * LiveAnnouncerProvider. Strings are compared with whitespace normalized.
+ *
+ * @example
+ * ```ts
+ * fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+ * expect(document).toHaveAnnounced('Changes saved', { politeness: 'polite' });
+ * ```
+ */
+export function toHaveAnnounced(
+  received: unknown,
+  expected: string | RegExp,
+  options: ToHaveAnnouncedOptions = {}
+): A11yMatcherResult {
+  if (!(received instanceof Node)) {
+    throw new Error(
+      `toHaveAnnounced must be called on a document or element, received ${String(received)}`
+    );
+  }
+  if (!observer) {
+    throw new Error(
+      'toHaveAnnounced needs startRecordingAnnouncements() to be called in the test setup'
+    );
+  }
+  const { politeness } = options;
+  const candidates = getAnnouncements().filter(
+    (announcement) =>
+      // The document matches regions that have been unmounted since
+      (received === announcement.region.ownerDocument || received.contains(announcement.region)) &&
+      (politeness === undefined || announcement.politeness === politeness)
+  );
+  const pass = candidates.some((announcement) => matches(announcement.text, expected));
+  const qualifier = politeness ? ` ${politeness}ly` : '';
+
+  return {
+    pass,
+    message: () => {
+      const heard = candidates.length
+        ? candidates.map((announcement) => `  - "${announcement.text}"`).join('\n')
+        : '  (none)';
+      return `Expected ${pass ? 'not ' : ''}to have${qualifier} announced ${String(
+        expected
+      )}. Announcements:\n${heard}`;
+    },
+  };
+}
+
+/**
+ * Every matcher, for `expect.extend(a11yMatchers)`
+ *
+ * @example
+ * ```ts
+ * // vitest.setup.ts
+ * import { expect } from 'vitest';
+ * import { a11yMatchers } from '@opensourceframework/react-a11y-utils/testing';
+ *
+ * expect.extend(a11yMatchers);
+ * ```
+ */
+export const a11yMatchers = {
+  toHaveAccessibleName,
+  toHaveValidAria,
+  toBeExpandedControlling,
+  toHaveAnnounced,
+};
@@ -0,0 +1,170 @@
+/**
+ * Toolbar
+ * Toolbar props with a single tab stop, grouped controls and toggle buttons
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { createPressedProps, type AccessibilityProps, type PressedProps } from './index';
+import { useRovingTabIndex, type RovingItemProps } from './roving-tab-index';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for createToolbarProps
+ */
+export interface ToolbarPropsOptions {
+  /** Orientation of the toolbar (default: 'horizontal') */
+  orientation?: 'horizontal' | 'vertical';
+}
+
+/**
+ * Accessibility props for a toolbar container
+ */
+export interface ToolbarProps extends AccessibilityProps {
+  role: 'toolbar';
+  'aria-orientation': 'horizontal' | 'vertical';
+}
+
+/**
+ * Options for useToolbar
+ */
+export interface UseToolbarOptions {
+  /** Orientation of the toolbar; decides which arrow keys move (default: 'horizontal') */
+  orientation?: 'horizontal' | 'vertical';
+  /** Whether moving past the last control wraps to the first (default: true) */
+  loop?: boolean;
+  /** Text direction; in right-to-left layouts ArrowLeft moves forward (default: 'ltr') */
+  dir?: 'ltr' | 'rtl';
+}
+
+/**
+ * Options for a single toolbar control
+ */
+export interface ToolbarItemOptions {
+  /** Whether the control is disabled; disabled controls are skipped by arrow keys */
+  disabled?: boolean;
+}
+
+/**
+ * Options for a toggle button in a toolbar
+ */
+export interface ToolbarToggleOptions extends ToolbarItemOptions {
+  /** Whether the toggle is pressed */
+  pressed: boolean;
+  /** Called with the new pressed state when the toggle is activated */
+  onPressedChange?: (pressed: boolean) => void;
+}
+
+/**
+ * Props for a toolbar control
+ */
+export type ToolbarItemProps = RovingItemProps;
+
+/**
+ * Props for a toggle button in a toolbar
+ */
+export interface ToolbarToggleProps extends RovingItemProps {
+  type: 'button';
+  'aria-pressed': PressedProps['aria-pressed'];
+  onClick: () => void;
+}
+
+/**
+ * Props for a group of related controls in a toolbar
+ */
+export interface ToolbarGroupProps extends AccessibilityProps {
+  role: 'group';
+}
+
+/**
+ * Return value of useToolbar
+ */
+export interface UseToolbarResult {
+  getToolbarProps: () => ToolbarProps;
+  getGroupProps: () => ToolbarGroupProps;
+  getItemProps: (id: string, options?: ToolbarItemOptions) => ToolbarItemProps;
+  getToggleProps: (id: string, options: ToolbarToggleOptions) => ToolbarToggleProps;
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Creates props for a toolbar container
+ *
+ * @param options - Toolbar configuration
+ * @returns Accessibility props for the toolbar
+ *
+ * @example
+ * ```tsx
+ * <div {...createToolbarProps()} aria-label="Formatting">
+ *   <button {...createPressedProps(bold)}>Bold</button>
+ * </div>
+ * ```
+ */
+export function createToolbarProps(options: ToolbarPropsOptions = {}): ToolbarProps {
+  const { orientation = 'horizontal' } = options;
+  return {
+    role: 'toolbar',
+    'aria-orientation': orientation,
+  };
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA toolbar pattern
+ * The toolbar is a single tab stop; arrow keys along the orientation (mirrored
+ * in right-to-left layouts), Home and End move between the enabled controls,
+ * including controls inside groups. Toggle buttons get `aria-pressed` via
+ * createPressedProps.
+ *
+ * @param options - Configuration options
+ * @returns Prop getters for the toolbar, groups, controls and toggle buttons
+ *
+ * @example
+ * ```tsx
+ * const toolbar = useToolbar();
+ *
+ * <div {...toolbar.getToolbarProps()} aria-label="Formatting">
+ *   <div {...toolbar.getGroupProps()} aria-label="Style">
+ *     <button {...toolbar.getToggleProps('bold', { pressed: bold, onPressedChange: setBold })}>
+ *       Bold
+ *     </button>
+ *   </div>
+ *   <button {...toolbar.getItemProps('link')}>Insert link</button>
+ * </div>
+ * ```
+ */
+export function useToolbar(options: UseToolbarOptions = {}): UseToolbarResult {
+  const { orientation = 'horizontal', loop = true, dir = 'ltr' } = options;
+  const roving = useRovingTabIndex({ orientation, loop, dir });
+
+  const getToolbarProps = (): ToolbarProps => createToolbarProps({ orientation });
+
+  const getGroupProps = (): ToolbarGroupProps => ({ role: 'group' });
+
+  const getItemProps = (id: string, itemOptions: ToolbarItemOptions = {}): ToolbarItemProps =>
+    roving.getItemProps(id, itemOptions);
+
+  const getToggleProps = (id: string, toggleOptions: ToolbarToggleOptions): ToolbarToggleProps => {
+    const { pressed, onPressedChange, disabled } = toggleOptions;
+    return {
+      ...roving.getItemProps(id, { disabled }),
+      ...createPressedProps(pressed),
+      type: 'button',
+      onClick: () => {
+        if (!disabled) {
+          onPressedChange?.(!pressed);
+        }
+      },
+    };
+  };
+
+  return { getToolbarProps, getGroupProps, getItemProps, getToggleProps };
+}
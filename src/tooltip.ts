@@ -0,0 +1,214 @@
+/**
+ * Tooltip
+ * Tooltips that are dismissible, hoverable and persistent (WCAG 1.4.13)
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useEffect, useId, useRef, type PointerEvent } from 'react';
+import { mergeA11yProps, type AccessibilityProps, type MergeableProps } from './index';
+import { useControllableState } from './use-controllable-state';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for useTooltip
+ */
+export interface UseTooltipOptions {
+  /** Initial state in uncontrolled mode (default: false) */
+  defaultOpen?: boolean;
+  /** Current state in controlled mode */
+  open?: boolean;
+  /** Called whenever the tooltip opens or closes */
+  onOpenChange?: (open: boolean) => void;
+  /** Milliseconds the pointer rests on the trigger before the tooltip opens (default: 300) */
+  openDelay?: number;
+  /**
+   * Milliseconds before the tooltip closes once the pointer leaves, long enough
+   * to move the pointer onto the tooltip (default: 300)
+   */
+  closeDelay?: number;
+  /**
+   * How the tooltip relates to the trigger: 'description' uses
+   * `aria-describedby`, 'label' uses `aria-labelledby` for icon-only triggers
+   * (default: 'description')
+   */
+  mode?: 'description' | 'label';
+  /** Whether the tooltip never opens (default: false) */
+  disabled?: boolean;
+  /** ID of the tooltip; a generated, SSR-stable ID is used when omitted */
+  id?: string;
+}
+
+/**
+ * Props for the element the tooltip belongs to
+ */
+export interface TooltipTriggerProps extends AccessibilityProps {
+  onPointerEnter: (event: PointerEvent<HTMLElement>) => void;
+  onPointerLeave: (event: PointerEvent<HTMLElement>) => void;
+  onFocus: () => void;
+  onBlur: () => void;
+}
+
+/**
+ * Props for the tooltip
+ */
+export interface TooltipProps extends AccessibilityProps {
+  id: string;
+  role: 'tooltip';
+  hidden: boolean;
+  onPointerEnter: () => void;
+  onPointerLeave: () => void;
+}
+
+/**
+ * Return value of useTooltip
+ */
+export interface UseTooltipResult {
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+  /**
+   * Props for the trigger, merged with `props` via mergeA11yProps so that an
+   * existing `aria-describedby` or handler is kept
+   */
+  getTriggerProps: (props?: MergeableProps) => TooltipTriggerProps;
+  getTooltipProps: () => TooltipProps;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA tooltip pattern in line with WCAG 1.4.13
+ * The tooltip opens after `openDelay` while the pointer rests on the trigger,
+ * and immediately when the trigger receives focus.
+ * - Hoverable: leaving the trigger waits `closeDelay`, and moving onto the
+ *   tooltip keeps it open
+ * - Persistent: it stays open until neither the trigger nor the tooltip is
+ *   hovered or focused
+ * - Dismissible: Escape closes it without moving focus or the pointer
+ *
+ * The tooltip is always rendered (`hidden` when closed), so it can name the
+ * trigger in label mode.
+ *
+ * @param options - Configuration options
+ * @returns The open state, actions and prop getters for the trigger and tooltip
+ *
+ * @example
+ * ```tsx
+ * const tooltip = useTooltip({ mode: 'label' });
+ *
+ * <button {...tooltip.getTriggerProps()}>
+ *   <TrashIcon aria-hidden />
+ * </button>
+ * <div {...tooltip.getTooltipProps()}>Delete</div>
+ * ```
+ */
+export function useTooltip(options: UseTooltipOptions = {}): UseTooltipResult {
+  const {
+    defaultOpen = false,
+    open,
+    onOpenChange,
+    openDelay = 300,
+    closeDelay = 300,
+    mode = 'description',
+    disabled = false,
+    id,
+  } = options;
+  const generatedId = useId();
+  const tooltipId = id ?? `${generatedId}-tooltip`;
+
+  const [isOpen, setIsOpen] = useControllableState(open, defaultOpen, onOpenChange);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // What is keeping the tooltip open; it closes once neither is
+  const hoveredRef = useRef(false);
+  const focusedRef = useRef(false);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  const openTooltip = useCallback(() => {
+    clearTimeout(timerRef.current);
+    if (!disabled) {
+      setIsOpen(true);
+    }
+  }, [disabled, setIsOpen]);
+
+  const close = useCallback(() => {
+    clearTimeout(timerRef.current);
+    setIsOpen(false);
+  }, [setIsOpen]);
+
+  const closeUnlessActive = () => {
+    if (!hoveredRef.current && !focusedRef.current) {
+      close();
+    }
+  };
+
+  // Dismissible from anywhere, since the pointer may rest on the trigger without focusing it
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        // Claims the press, so an enclosing dialog does not close as well
+        event.preventDefault();
+        close();
+      }
+    };
+    // Capture, to run before document listeners added by whatever contains the trigger
+    document.addEventListener('keydown', onKeyDown, true);
+    return () => document.removeEventListener('keydown', onKeyDown, true);
+  }, [isOpen, close]);
+
+  const onHoverStart = (delay: number) => {
+    hoveredRef.current = true;
+    clearTimeout(timerRef.current);
+    if (!isOpen) {
+      timerRef.current = setTimeout(openTooltip, delay);
+    }
+  };
+
+  const onHoverEnd = () => {
+    hoveredRef.current = false;
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(closeUnlessActive, closeDelay);
+  };
+
+  const getTriggerProps = (props: MergeableProps = {}): TooltipTriggerProps =>
+    mergeA11yProps(props, {
+      [mode === 'label' ? 'aria-labelledby' : 'aria-describedby']: tooltipId,
+      onPointerEnter: (event: PointerEvent<HTMLElement>) => {
+        // Touch has no hover; the tooltip opens on focus instead
+        if (event.pointerType !== 'touch') {
+          onHoverStart(openDelay);
+        }
+      },
+      onPointerLeave: (event: PointerEvent<HTMLElement>) => {
+        if (event.pointerType !== 'touch') {
+          onHoverEnd();
+        }
+      },
+      onFocus: () => {
+        focusedRef.current = true;
+        openTooltip();
+      },
+      onBlur: () => {
+        focusedRef.current = false;
+        closeUnlessActive();
+      },
+    });
+
+  const getTooltipProps = (): TooltipProps => ({
+    id: tooltipId,
+    role: 'tooltip',
+    hidden: !isOpen,
+    onPointerEnter: () => onHoverStart(0),
+    onPointerLeave: onHoverEnd,
+  });
+
+  return { isOpen, open: openTooltip, close, getTriggerProps, getTooltipProps };
+}
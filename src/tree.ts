@@ -0,0 +1,464 @@
+/**
+ * Tree View
+ * Tree, treeitem and group props computed from nested data, with expansion,
+ * single or multiple selection, type-ahead and lazily loaded children
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useEffect, useId, useRef, useState, type KeyboardEvent, type MouseEvent } from 'react';
+import { createSelectedProps, type AccessibilityProps } from './index';
+import { focusElement } from './dom';
+import { useControllableState } from './use-controllable-state';
+import { isTypeaheadKey, useTypeahead } from './use-typeahead';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A node of the tree; nodes with `children` (or `hasChildren`) are branches
+ */
+export interface TreeNode {
+  /** Unique ID within the tree */
+  id: string;
+  /** Text of the node, used for type-ahead */
+  label: string;
+  /** Child nodes; leave undefined with `hasChildren` until they are loaded */
+  children?: TreeNode[];
+  /** Marks a branch whose children are loaded when it is first expanded */
+  hasChildren?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * A visible node with its computed position in the tree
+ */
+export interface FlatTreeNode {
+  node: TreeNode;
+  /** 1-based depth */
+  level: number;
+  /** 1-based position among its siblings */
+  posinset: number;
+  /** Number of siblings, including the node */
+  setsize: number;
+  parentId: string | null;
+  isBranch: boolean;
+  isExpanded: boolean;
+}
+
+/**
+ * Options for useTreeView
+ */
+export interface UseTreeViewOptions {
+  /** The root nodes */
+  items: TreeNode[];
+  /** Expanded branches in controlled mode */
+  expandedIds?: string[];
+  /** Initially expanded branches in uncontrolled mode (default: []) */
+  defaultExpandedIds?: string[];
+  /** Called whenever branches expand or collapse */
+  onExpandedChange?: (ids: string[]) => void;
+  /** Selected nodes in controlled mode */
+  selectedIds?: string[];
+  /** Initially selected nodes in uncontrolled mode (default: []) */
+  defaultSelectedIds?: string[];
+  /** Called whenever the selection changes */
+  onSelectionChange?: (ids: string[]) => void;
+  /** Whether more than one node can be selected (default: false) */
+  multiple?: boolean;
+  /** Called when a branch whose `children` are undefined is expanded */
+  onLoadChildren?: (id: string) => void;
+  /** Called when Enter is pressed on a node */
+  onAction?: (id: string) => void;
+  /** Base ID for the tree items; generated when omitted */
+  id?: string;
+}
+
+/**
+ * Props for the tree container
+ */
+export interface TreeProps extends AccessibilityProps {
+  role: 'tree';
+}
+
+/**
+ * Props for a tree item
+ */
+export interface TreeItemProps extends AccessibilityProps {
+  id: string;
+  role: 'treeitem';
+  tabIndex: number;
+  'aria-level': number;
+  'aria-posinset': number;
+  'aria-setsize': number;
+  onClick: (event: MouseEvent<HTMLElement>) => void;
+  onKeyDown: (event: KeyboardEvent<HTMLElement>) => void;
+  onFocus: () => void;
+}
+
+/**
+ * Props for the group wrapping a branch's children
+ */
+export interface TreeGroupProps extends AccessibilityProps {
+  role: 'group';
+}
+
+/**
+ * Return value of useTreeView
+ */
+export interface UseTreeViewResult {
+  /** Visible nodes in display order, with level, position and set size */
+  visibleNodes: FlatTreeNode[];
+  expandedIds: string[];
+  selectedIds: string[];
+  /** The node holding the tab stop */
+  focusedId: string | null;
+  isExpanded: (id: string) => boolean;
+  expand: (id: string) => void;
+  collapse: (id: string) => void;
+  toggle: (id: string) => void;
+  getTreeProps: () => TreeProps;
+  getItemProps: (id: string) => TreeItemProps;
+  getGroupProps: () => TreeGroupProps;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const isBranch = (node: TreeNode) => node.children !== undefined || node.hasChildren === true;
+
+/**
+ * Flattens the visible part of a tree, computing level, position and set size
+ *
+ * @param items - The root nodes
+ * @param expandedIds - IDs of the expanded branches
+ * @returns The visible nodes in display order
+ *
+ * @example
+ * ```ts
+ * flattenTree(items, ['src']).map(({ node, level }) => `${'  '.repeat(level - 1)}${node.label}`);
+ * ```
+ */
+export function flattenTree(items: TreeNode[], expandedIds: readonly string[]): FlatTreeNode[] {
+  const expanded = new Set(expandedIds);
+  const result: FlatTreeNode[] = [];
+
+  const visit = (nodes: TreeNode[], level: number, parentId: string | null) => {
+    nodes.forEach((node, index) => {
+      const branch = isBranch(node);
+      const isExpanded = branch && expanded.has(node.id);
+      result.push({
+        node,
+        level,
+        posinset: index + 1,
+        setsize: nodes.length,
+        parentId,
+        isBranch: branch,
+        isExpanded,
+      });
+      if (isExpanded && node.children) {
+        visit(node.children, level + 1, node.id);
+      }
+    });
+  };
+
+  visit(items, 1, null);
+  return result;
+}
+
+// ============================================================================
+// Hooks
+// ============================================================================
+
+/**
+ * Implements the ARIA tree view pattern from nested data
+ * ArrowDown and ArrowUp move between visible nodes; ArrowRight expands a
+ * closed branch or moves to its first child; ArrowLeft collapses an open
+ * branch or moves to the parent; Home and End move to the first and last
+ * visible node; `*` expands every sibling of the focused node; typing moves to
+ * the next node starting with the typed characters. Space selects (or toggles,
+ * when `multiple`); Shift+Arrow and Shift+Space select ranges and Ctrl+A selects
+ * every visible node.
+ *
+ * @param options - Configuration options
+ * @returns Visible nodes, state and prop getters
+ *
+ * @example
+ * ```tsx
+ * const tree = useTreeView({ items, onLoadChildren: loadFolder });
+ *
+ * const renderNodes = (nodes: TreeNode[]) =>
+ *   nodes.map((node) => (
+ *     <li key={node.id} {...tree.getItemProps(node.id)}>
+ *       {node.label}
+ *       {tree.isExpanded(node.id) && node.children && (
+ *         <ul {...tree.getGroupProps()}>{renderNodes(node.children)}</ul>
+ *       )}
+ *     </li>
+ *   ));
+ *
+ * <ul {...tree.getTreeProps()} aria-label="Files">{renderNodes(items)}</ul>
+ * ```
+ */
+export function useTreeView(options: UseTreeViewOptions): UseTreeViewResult {
+  const { items, multiple = false } = options;
+  const generatedId = useId();
+  const baseId = options.id ?? generatedId;
+  const getItemDomId = (id: string) => `${baseId}-item-${id}`;
+
+  const [expandedIds, setExpandedIds] = useControllableState(
+    options.expandedIds,
+    options.defaultExpandedIds ?? [],
+    options.onExpandedChange
+  );
+  const [selectedIds, setSelectedIds] = useControllableState(
+    options.selectedIds,
+    options.defaultSelectedIds ?? [],
+    options.onSelectionChange
+  );
+  const [focusedState, setFocusedId] = useState<string | null>(null);
+  const [focusRequest, setFocusRequest] = useState<{ id: string } | null>(null);
+  const anchorRef = useRef<string | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const search = useTypeahead();
+
+  const visibleNodes = flattenTree(items, expandedIds);
+  const positions = new Map(visibleNodes.map((flat, index) => [flat.node.id, index]));
+  const enabled = visibleNodes.filter((flat) => !flat.node.disabled);
+
+  // The tab stop: the focused node while visible, else the first selected, else the first
+  const focusedId =
+    focusedState !== null && positions.has(focusedState)
+      ? focusedState
+      : ((enabled.find((flat) => selectedIds.includes(flat.node.id)) ?? enabled[0])?.node.id ??
+        null);
+
+  // Children of a newly expanded branch only exist after render
+  useEffect(() => {
+    if (focusRequest) {
+      focusElement(document.getElementById(`${baseId}-item-${focusRequest.id}`));
+    }
+  }, [focusRequest, baseId]);
+
+  const focusNode = (id: string) => {
+    setFocusedId(id);
+    setFocusRequest({ id });
+  };
+
+  const isExpanded = (id: string) => expandedIds.includes(id);
+
+  const expandAll = (ids: string[]) => {
+    const toExpand = ids.filter((id) => !expandedIds.includes(id));
+    if (toExpand.length === 0) {
+      return;
+    }
+    setExpandedIds([...expandedIds, ...toExpand]);
+    for (const id of toExpand) {
+      const flat = visibleNodes[positions.get(id) ?? -1];
+      if (flat && flat.node.children === undefined) {
+        optionsRef.current.onLoadChildren?.(id);
+      }
+    }
+  };
+
+  const expand = (id: string) => expandAll([id]);
+  const collapse = (id: string) => {
+    if (expandedIds.includes(id)) {
+      setExpandedIds(expandedIds.filter((expandedId) => expandedId !== id));
+    }
+  };
+  const toggle = (id: string) => (isExpanded(id) ? collapse(id) : expand(id));
+
+  const idsBetween = (fromId: string, toId: string) => {
+    const from = positions.get(fromId) ?? 0;
+    const to = positions.get(toId) ?? 0;
+    const [start, end] = from < to ? [from, to] : [to, from];
+    return visibleNodes
+      .slice(start, end + 1)
+      .filter((flat) => !flat.node.disabled)
+      .map((flat) => flat.node.id);
+  };
+
+  const select = (id: string) => {
+    anchorRef.current = id;
+    if (!multiple) {
+      if (selectedIds.length !== 1 || selectedIds[0] !== id) {
+        setSelectedIds([id]);
+      }
+    } else if (selectedIds.includes(id)) {
+      setSelectedIds(selectedIds.filter((selectedId) => selectedId !== id));
+    } else {
+      setSelectedIds([...selectedIds, id]);
+    }
+  };
+
+  const selectRange = (id: string) => {
+    const anchor = anchorRef.current ?? id;
+    anchorRef.current = anchor;
+    setSelectedIds(idsBetween(anchor, id));
+  };
+
+  const onItemKeyDown = (id: string, event: KeyboardEvent<HTMLElement>) => {
+    const position = positions.get(id);
+    const flat = position === undefined ? undefined : visibleNodes[position];
+    if (!flat || position === undefined) {
+      return;
+    }
+    const enabledPosition = enabled.indexOf(flat);
+    const ctrl = event.ctrlKey || event.metaKey;
+    let target: string | undefined;
+    let handled = true;
+
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        const start = enabledPosition >= 0 ? enabledPosition : 0;
+        target = enabled[Math.min(Math.max(start + step, 0), enabled.length - 1)]?.node.id;
+        if (target && multiple && event.shiftKey) {
+          selectRange(target);
+        }
+        break;
+      }
+      case 'ArrowRight':
+        if (flat.isBranch && !flat.isExpanded) {
+          expand(id);
+        } else if (flat.isExpanded) {
+          target = flat.node.children?.find((child) => !child.disabled)?.id;
+        }
+        break;
+      case 'ArrowLeft':
+        if (flat.isExpanded) {
+          collapse(id);
+        } else if (flat.parentId !== null) {
+          target = flat.parentId;
+        }
+        break;
+      case 'Home':
+      case 'End': {
+        target = (event.key === 'Home' ? enabled[0] : enabled[enabled.length - 1])?.node.id;
+        if (target && multiple && ctrl && event.shiftKey) {
+          anchorRef.current = id;
+          setSelectedIds(idsBetween(id, target));
+        }
+        break;
+      }
+      case '*': {
+        const siblings = visibleNodes.filter(
+          (candidate) => candidate.parentId === flat.parentId && candidate.isBranch
+        );
+        expandAll(siblings.map((sibling) => sibling.node.id));
+        break;
+      }
+      case 'Enter':
+        if (!multiple) {
+          select(id);
+        }
+        optionsRef.current.onAction?.(id);
+        break;
+      case ' ':
+        if (multiple && event.shiftKey) {
+          selectRange(id);
+        } else {
+          select(id);
+        }
+        break;
+      default:
+        if (multiple && ctrl && event.key.toLowerCase() === 'a') {
+          const all = enabled.map((candidate) => candidate.node.id);
+          setSelectedIds(all.every((candidate) => selectedIds.includes(candidate)) ? [] : all);
+        } else if (isTypeaheadKey(event)) {
+          const match = search(
+            event.key,
+            visibleNodes.map((candidate) => candidate.node.label),
+            position,
+            (index) => !visibleNodes[index]?.node.disabled
+          );
+          target = visibleNodes[match]?.node.id;
+          handled = target !== undefined;
+          // Even without a match, so ancestor treeitems do not search again
+          event.stopPropagation();
+        } else {
+          handled = false;
+        }
+    }
+
+    if (target) {
+      focusNode(target);
+    }
+    if (handled) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  };
+
+  const getTreeProps = (): TreeProps => {
+    const props: TreeProps = { role: 'tree' };
+    if (multiple) {
+      props['aria-multiselectable'] = 'true';
+    }
+    return props;
+  };
+
+  const getItemProps = (id: string): TreeItemProps => {
+    const flat = visibleNodes[positions.get(id) ?? -1];
+    const selected = selectedIds.includes(id);
+    const props: TreeItemProps = {
+      id: getItemDomId(id),
+      role: 'treeitem',
+      tabIndex: id === focusedId ? 0 : -1,
+      'aria-level': flat?.level ?? 1,
+      'aria-posinset': flat?.posinset ?? 1,
+      'aria-setsize': flat?.setsize ?? 1,
+      onClick: (event) => {
+        // Clicks on descendants bubble through every ancestor item
+        event.stopPropagation();
+        if (flat?.node.disabled) {
+          return;
+        }
+        focusNode(id);
+        if (multiple && event.shiftKey) {
+          selectRange(id);
+        } else {
+          select(id);
+        }
+        if (flat?.isBranch) {
+          toggle(id);
+        }
+      },
+      onKeyDown: (event) => onItemKeyDown(id, event),
+      onFocus: () => setFocusedId(id),
+    };
+    if (flat?.isBranch) {
+      props['aria-expanded'] = flat.isExpanded ? 'true' : 'false';
+      if (flat.isExpanded && flat.node.children === undefined) {
+        props['aria-busy'] = 'true';
+      }
+    }
+    if (multiple || selected) {
+      Object.assign(props, createSelectedProps(selected));
+    }
+    if (flat?.node.disabled) {
+      props['aria-disabled'] = 'true';
+    }
+    return props;
+  };
+
+  const getGroupProps = (): TreeGroupProps => ({ role: 'group' });
+
+  return {
+    visibleNodes,
+    expandedIds,
+    selectedIds,
+    focusedId,
+    isExpanded,
+    expand,
+    collapse,
+    toggle,
+    getTreeProps,
+    getItemProps,
+    getGroupProps,
+  };
+}
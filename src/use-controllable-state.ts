@@ -0,0 +1,49 @@
+/**
+ * Controlled/uncontrolled state shared by the hooks in this package
+ * Not part of the public API
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useRef, useState } from 'react';
+
+/**
+ * State that is owned by the caller when `value` is defined and by the hook
+ * otherwise. `onChange` is called for every change in both modes.
+ *
+ * @param value - The controlled value, or undefined for uncontrolled use
+ * @param defaultValue - The initial value in uncontrolled mode
+ * @param onChange - Called with the next value
+ * @returns The current value and a setter
+ */
+export function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T,
+  onChange?: (value: T) => void
+): [T, (next: T | ((prev: T) => T)) => void] {
+  const [internal, setInternal] = useState(defaultValue);
+  const controlled = value !== undefined;
+  const current = controlled ? value : internal;
+
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const setValue = useCallback(
+    (next: T | ((prev: T) => T)) => {
+      const resolved =
+        typeof next === 'function' ? (next as (prev: T) => T)(currentRef.current) : next;
+      if (Object.is(resolved, currentRef.current)) {
+        return;
+      }
+      currentRef.current = resolved;
+      if (!controlled) {
+        setInternal(resolved);
+      }
+      onChangeRef.current?.(resolved);
+    },
+    [controlled]
+  );
+
+  return [current, setValue];
+}
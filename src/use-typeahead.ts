@@ -0,0 +1,67 @@
+/**
+ * Type-ahead shared by the composite widget hooks in this package
+ * Not part of the public API
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { KeyboardEvent } from 'react';
+
+/**
+ * Milliseconds after the last key press before the search string is reset
+ */
+const TYPEAHEAD_TIMEOUT = 500;
+
+/**
+ * Whether a key press should be handled as type-ahead: a single printable
+ * character without Ctrl, Meta or Alt
+ *
+ * @param event - The keyboard event
+ */
+export function isTypeaheadKey(event: KeyboardEvent): boolean {
+  return event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey;
+}
+
+/**
+ * Returns a search function that accumulates typed characters and finds the
+ * next item whose label starts with them. Typing the same character
+ * repeatedly cycles through the items starting with it.
+ *
+ * @returns `search(key, labels, currentIndex, isEnabled?)`, which returns the
+ * index of the matching item or -1
+ */
+export function useTypeahead(): (
+  key: string,
+  labels: string[],
+  currentIndex: number,
+  isEnabled?: (index: number) => boolean
+) => number {
+  const bufferRef = useRef('');
+  const timerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  return useCallback((key, labels, currentIndex, isEnabled) => {
+    clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      bufferRef.current = '';
+    }, TYPEAHEAD_TIMEOUT);
+
+    const buffer = (bufferRef.current + key).toLowerCase();
+    bufferRef.current = buffer;
+
+    // "aaa" cycles through the items starting with "a"
+    const repeated = buffer.split('').every((char) => char === buffer.charAt(0));
+    const search = repeated ? buffer.charAt(0) : buffer;
+    const start = repeated ? currentIndex + 1 : Math.max(currentIndex, 0);
+
+    for (let offset = 0; offset < labels.length; offset++) {
+      const index = (start + offset) % labels.length;
+      const label = (labels[index] ?? '').trim().toLowerCase();
+      if (label.startsWith(search) && (isEnabled?.(index) ?? true)) {
+        return index;
+      }
+    }
+    return -1;
+  }, []);
+}
@@ -0,0 +1,342 @@
+/**
+ * ARIA Validation
+ * Checks accessibility props against the ARIA 1.2 role and attribute model
+ * @module @opensourceframework/react-a11y-utils
+ */
+
+import {
+  abstractAriaRoles,
+  ariaAttributes,
+  ariaRoles,
+  getAriaSpecUrl,
+  globalAriaAttributes,
+  type AriaAttributeDefinition,
+  type AriaRole,
+  type AriaRoleDefinition,
+} from './aria-model';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Kinds of problems reported by validateA11yProps
+ */
+export type A11yDiagnosticCode =
+  | 'unknown-role'
+  | 'abstract-role'
+  | 'deprecated-role'
+  | 'unknown-attribute'
+  | 'unsupported-attribute'
+  | 'prohibited-attribute'
+  | 'missing-required-attribute'
+  | 'invalid-value'
+  | 'deprecated-attribute';
+
+/**
+ * A single validation problem
+ */
+export interface A11yDiagnostic {
+  code: A11yDiagnosticCode;
+  /** Errors make the props invalid; warnings do not */
+  severity: 'error' | 'warning';
+  message: string;
+  /** The role the problem relates to, if any */
+  role?: string;
+  /** The attribute the problem relates to, if any */
+  attribute?: string;
+  /** Link to the relevant definition in the ARIA 1.2 spec */
+  specUrl: string;
+}
+
+/**
+ * Result of validateA11yProps
+ */
+export interface A11yValidationResult {
+  /** Whether no errors were found (warnings are allowed) */
+  valid: boolean;
+  /** The role the props were validated against, if it is known */
+  role: AriaRole | null;
+  diagnostics: A11yDiagnostic[];
+}
+
+/**
+ * Options for validateA11yProps
+ */
+export interface ValidateA11yPropsOptions {
+  /**
+   * The implicit role of the element the props are for (e.g. `button` for a
+   * `<button>`), used when the props have no `role`. Required attributes are
+   * not enforced for implicit roles because native elements provide them.
+   */
+  implicitRole?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const roles: Record<string, AriaRoleDefinition> = ariaRoles;
+const attributes: Record<string, AriaAttributeDefinition> = ariaAttributes;
+const globals = new Set<string>(globalAriaAttributes);
+const abstractRoles = new Set<string>(abstractAriaRoles);
+
+function isValidValue(definition: AriaAttributeDefinition, value: unknown): boolean {
+  const text = typeof value === 'boolean' || typeof value === 'number' ? String(value) : value;
+  if (typeof text !== 'string') {
+    return false;
+  }
+
+  switch (definition.type) {
+    case 'true/false':
+      return text === 'true' || text === 'false';
+    case 'true/false/undefined':
+      return text === 'true' || text === 'false' || text === 'undefined';
+    case 'tristate':
+      return text === 'true' || text === 'false' || text === 'mixed';
+    case 'id':
+      return /^\S+$/.test(text);
+    case 'id-list':
+      return text.trim() !== '';
+    case 'integer':
+      return /^-?\d+$/.test(text.trim());
+    case 'number':
+      return text.trim() !== '' && Number.isFinite(Number(text));
+    case 'string':
+      return typeof value !== 'boolean';
+    case 'token':
+      return definition.values?.includes(text) ?? false;
+    case 'token-list': {
+      const tokens = text.split(/\s+/).filter(Boolean);
+      return tokens.length > 0 && tokens.every((token) => definition.values?.includes(token));
+    }
+  }
+}
+
+function describeType(definition: AriaAttributeDefinition): string {
+  if (definition.values) {
+    const list = definition.values.map((value) => `"${value}"`).join(', ');
+    return definition.type === 'token-list'
+      ? `a space-separated list of ${list}`
+      : `one of ${list}`;
+  }
+  switch (definition.type) {
+    case 'true/false':
+      return '"true" or "false"';
+    case 'true/false/undefined':
+      return '"true", "false" or "undefined"';
+    case 'tristate':
+      return '"true", "false" or "mixed"';
+    case 'id':
+      return 'a single ID reference';
+    case 'id-list':
+      return 'a space-separated list of ID references';
+    case 'integer':
+      return 'an integer';
+    case 'number':
+      return 'a number';
+    default:
+      return 'a string';
+  }
+}
+
+/**
+ * Picks the first known role from a (possibly space-separated fallback) role value
+ */
+function resolveRole(value: string): string | undefined {
+  const tokens = value.split(/\s+/).filter(Boolean);
+  return tokens.find((token) => token in roles) ?? tokens[0];
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validates the `role` and `aria-*` keys of a props object against ARIA 1.2
+ * Reports unknown and abstract roles, unknown attributes, attributes that the
+ * role does not support or prohibits, missing required attributes and values
+ * of the wrong type. Keys that are not `role` or `aria-*` are ignored.
+ *
+ * @param props - The props to validate
+ * @param options - Validation options
+ * @returns Whether the props are valid, and every diagnostic found
+ *
+ * @example
+ * ```ts
+ * const { valid, diagnostics } = validateA11yProps({ role: 'slider', 'aria-valuemin': 0 });
+ * // valid === false
+ * // diagnostics[0].code === 'missing-required-attribute'
+ * ```
+ */
+export function validateA11yProps(
+  props: object,
+  options: ValidateA11yPropsOptions = {}
+): A11yValidationResult {
+  const diagnostics: A11yDiagnostic[] = [];
+  const entries = Object.entries(props).filter(
+    ([, value]) => value !== undefined && value !== null
+  );
+  const present = new Set(entries.map(([key]) => key));
+
+  const explicitRole = typeof (props as { role?: unknown }).role === 'string';
+  const roleName = explicitRole
+    ? resolveRole((props as { role: string }).role)
+    : options.implicitRole;
+  let definition: AriaRoleDefinition | undefined;
+
+  if (roleName !== undefined) {
+    definition = roles[roleName];
+    if (abstractRoles.has(roleName)) {
+      diagnostics.push({
+        code: 'abstract-role',
+        severity: 'error',
+        message: `Role "${roleName}" is abstract and must not be used by authors.`,
+        role: roleName,
+        specUrl: getAriaSpecUrl(roleName),
+      });
+    } else if (!definition) {
+      diagnostics.push({
+        code: 'unknown-role',
+        severity: 'error',
+        message: `Role "${roleName}" is not an ARIA 1.2 role.`,
+        role: roleName,
+        specUrl: getAriaSpecUrl('role_definitions'),
+      });
+    } else if (definition.deprecated) {
+      diagnostics.push({
+        code: 'deprecated-role',
+        severity: 'warning',
+        message: `Role "${roleName}" is deprecated.`,
+        role: roleName,
+        specUrl: getAriaSpecUrl(roleName),
+      });
+    }
+  }
+
+  for (const [key, value] of entries) {
+    if (!key.startsWith('aria-')) {
+      continue;
+    }
+
+    const attribute = attributes[key];
+    if (!attribute) {
+      diagnostics.push({
+        code: 'unknown-attribute',
+        severity: 'error',
+        message: `"${key}" is not an ARIA state or property.`,
+        attribute: key,
+        specUrl: getAriaSpecUrl('state_prop_def'),
+      });
+      continue;
+    }
+
+    if (attribute.deprecated) {
+      diagnostics.push({
+        code: 'deprecated-attribute',
+        severity: 'warning',
+        message: `"${key}" is deprecated.`,
+        attribute: key,
+        specUrl: getAriaSpecUrl(key),
+      });
+    }
+
+    if (!isValidValue(attribute, value)) {
+      diagnostics.push({
+        code: 'invalid-value',
+        severity: 'error',
+        message: `"${key}" must be ${describeType(attribute)}, received ${JSON.stringify(value)}.`,
+        attribute: key,
+        specUrl: getAriaSpecUrl(key),
+      });
+    }
+
+    if (!definition || !roleName) {
+      continue;
+    }
+
+    if (definition.prohibited?.includes(key)) {
+      diagnostics.push({
+        code: 'prohibited-attribute',
+        severity: 'error',
+        message: `"${key}" is prohibited on role "${roleName}".`,
+        role: roleName,
+        attribute: key,
+        specUrl: getAriaSpecUrl(roleName),
+      });
+    } else if (
+      !globals.has(key) &&
+      !definition.supported?.includes(key) &&
+      !definition.required?.includes(key)
+    ) {
+      diagnostics.push({
+        code: 'unsupported-attribute',
+        severity: 'error',
+        message: `"${key}" is not supported on role "${roleName}".`,
+        role: roleName,
+        attribute: key,
+        specUrl: getAriaSpecUrl(roleName),
+      });
+    }
+  }
+
+  if (definition && roleName && explicitRole) {
+    for (const required of definition.required ?? []) {
+      if (!present.has(required)) {
+        diagnostics.push({
+          code: 'missing-required-attribute',
+          severity: 'error',
+          message: `Role "${roleName}" requires "${required}".`,
+          role: roleName,
+          attribute: required,
+          specUrl: getAriaSpecUrl(roleName),
+        });
+      }
+    }
+  }
+
+  return {
+    valid: diagnostics.every((diagnostic) => diagnostic.severity !== 'error'),
+    role: definition && roleName ? (roleName as AriaRole) : null,
+    diagnostics,
+  };
+}
+
+/**
+ * Error thrown by assertValidA11yProps
+ */
+export class A11yValidationError extends Error {
+  readonly diagnostics: A11yDiagnostic[];
+
+  constructor(diagnostics: A11yDiagnostic[]) {
+    super(
+      `Invalid accessibility props:\n${diagnostics
+        .map((diagnostic) => `  - ${diagnostic.message} (${diagnostic.specUrl})`)
+        .join('\n')}`
+    );
+    this.name = 'A11yValidationError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Throws if validateA11yProps reports any errors
+ * Useful in tests and development-only checks.
+ *
+ * @param props - The props to validate
+ * @param options - Validation options
+ * @throws A11yValidationError listing every error diagnostic
+ *
+ * @example
+ * ```ts
+ * assertValidA11yProps({ role: 'checkbox', ...createCheckedProps(checked) });
+ * ```
+ */
+export function assertValidA11yProps(props: object, options: ValidateA11yPropsOptions = {}): void {
+  const errors = validateA11yProps(props, options).diagnostics.filter(
+    (diagnostic) => diagnostic.severity === 'error'
+  );
+  if (errors.length > 0) {
+    throw new A11yValidationError(errors);
+  }
+}
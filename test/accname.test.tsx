@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import React from 'react';
+import { computeAccessibleName, computeAccessibleDescription, srOnly } from '../src/index';
+
+describe('computeAccessibleName', () => {
+  it('should follow aria-labelledby in order', () => {
+    render(
+      <div>
+        <span id="first">Billing</span>
+        <span id="second">address</span>
+        <div role="region" aria-labelledby="first second" data-testid="region" />
+      </div>
+    );
+    expect(computeAccessibleName(screen.getByTestId('region'))).toBe('Billing address');
+  });
+
+  it('should include hidden content reached through aria-labelledby', () => {
+    render(
+      <div>
+        <span id="hidden-label" hidden>
+          Search <span>products</span>
+        </span>
+        <input aria-labelledby="hidden-label" data-testid="input" />
+      </div>
+    );
+    expect(computeAccessibleName(screen.getByTestId('input'))).toBe('Search products');
+  });
+
+  it('should prefer aria-labelledby over aria-label', () => {
+    render(
+      <div>
+        <span id="label">Visible label</span>
+        <button aria-label="Ignored" aria-labelledby="label">
+          Text
+        </button>
+      </div>
+    );
+    expect(computeAccessibleName(screen.getByRole('button'))).toBe('Visible label');
+  });
+
+  it('should not loop on self-referencing aria-labelledby', () => {
+    render(
+      <div>
+        <button id="delete" aria-labelledby="delete file">
+          Delete
+        </button>
+        <span id="file">report.pdf</span>
+      </div>
+    );
+    expect(computeAccessibleName(screen.getByRole('button'))).toBe('Delete report.pdf');
+  });
+
+  it('should use aria-label', () => {
+    render(<nav aria-label="Breadcrumbs" />);
+    expect(computeAccessibleName(screen.getByRole('navigation'))).toBe('Breadcrumbs');
+  });
+
+  it('should use native labels', () => {
+    render(
+      <form>
+        <label htmlFor="email">Email</label>
+        <input id="email" />
+        <label>
+          Remember me <input type="checkbox" />
+        </label>
+        <img src="logo.png" alt="Company logo" />
+        <input type="submit" />
+        <fieldset>
+          <legend>Shipping</legend>
+        </fieldset>
+      </form>
+    );
+    expect(computeAccessibleName(screen.getByRole('textbox'))).toBe('Email');
+    expect(computeAccessibleName(screen.getByRole('checkbox'))).toBe('Remember me');
+    expect(computeAccessibleName(screen.getByRole('img'))).toBe('Company logo');
+    expect(computeAccessibleName(screen.getByRole('button'))).toBe('Submit');
+    expect(computeAccessibleName(screen.getByRole('group'))).toBe('Shipping');
+  });
+
+  it('should compute the name from content, skipping hidden descendants', () => {
+    render(
+      <button>
+        <svg aria-hidden="true" />
+        <span style={{ display: 'none' }}>Ignored</span>
+        Save <strong>draft</strong>
+      </button>
+    );
+    expect(computeAccessibleName(screen.getByRole('button'))).toBe('Save draft');
+  });
+
+  it('should count visually hidden content', () => {
+    render(
+      <a href="/cart">
+        <svg aria-hidden="true" />
+        <span style={srOnly}>Shopping cart</span>
+      </a>
+    );
+    expect(computeAccessibleName(screen.getByRole('link'))).toBe('Shopping cart');
+  });
+
+  it('should separate block-level children with spaces', () => {
+    render(
+      <a href="/post">
+        <div>Title</div>
+        <div>Summary</div>
+      </a>
+    );
+    expect(computeAccessibleName(screen.getByRole('link'))).toBe('Title Summary');
+  });
+
+  it('should not compute names from content for roles that do not allow it', () => {
+    render(
+      <nav data-testid="nav">
+        <a href="/">Home</a>
+      </nav>
+    );
+    expect(computeAccessibleName(screen.getByTestId('nav'))).toBe('');
+  });
+
+  it('should use the value of embedded controls', () => {
+    render(
+      <div>
+        <span id="prefix">Flash the screen</span>
+        <input id="times" defaultValue="3" aria-labelledby="prefix times suffix" />
+        <span id="suffix">times</span>
+      </div>
+    );
+    expect(computeAccessibleName(screen.getByRole('textbox'))).toBe('Flash the screen 3 times');
+  });
+
+  it('should fall back to title and placeholder', () => {
+    render(
+      <div>
+        <button title="Settings">
+          <svg aria-hidden="true" />
+        </button>
+        <input placeholder="Search" />
+      </div>
+    );
+    expect(computeAccessibleName(screen.getByRole('button'))).toBe('Settings');
+    expect(computeAccessibleName(screen.getByRole('textbox'))).toBe('Search');
+  });
+
+  it('should normalize whitespace', () => {
+    render(<button>{'  Save\n\t changes  '}</button>);
+    expect(computeAccessibleName(screen.getByRole('button'))).toBe('Save changes');
+  });
+});
+
+describe('computeAccessibleDescription', () => {
+  it('should follow aria-describedby, including hidden content', () => {
+    render(
+      <div>
+        <input aria-describedby="hint error" />
+        <span id="hint">At least 8 characters</span>
+        <span id="error" hidden>
+          Too short
+        </span>
+      </div>
+    );
+    expect(computeAccessibleDescription(screen.getByRole('textbox'))).toBe(
+      'At least 8 characters Too short'
+    );
+  });
+
+  it('should use aria-description', () => {
+    render(<button aria-description="Opens in a new window">Help</button>);
+    expect(computeAccessibleDescription(screen.getByRole('button'))).toBe('Opens in a new window');
+  });
+
+  it('should use title unless it provided the name', () => {
+    render(
+      <div>
+        <button title="Remove item">Delete</button>
+        <button title="Settings" />
+      </div>
+    );
+    const [withText, iconOnly] = screen.getAllByRole('button');
+    expect(computeAccessibleDescription(withText!)).toBe('Remove item');
+    expect(computeAccessibleDescription(iconOnly!)).toBe('');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { useAccordion, type UseAccordionOptions } from '../src/index';
+
+const Accordion = ({
+  disabled = [],
+  ...options
+}: Partial<UseAccordionOptions> & { disabled?: string[] }) => {
+  const items = options.items ?? ['Shipping', 'Returns', 'Warranty'];
+  const accordion = useAccordion({ ...options, items });
+  return (
+    <div>
+      {items.map((item) => (
+        <div key={item}>
+          <div {...accordion.getHeadingProps()}>
+            <button {...accordion.getTriggerProps(item, { disabled: disabled.includes(item) })}>
+              {item}
+            </button>
+          </div>
+          <div {...accordion.getPanelProps(item)}>{item} details</div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const trigger = (name: string) => screen.getByRole('button', { name });
+
+describe('useAccordion', () => {
+  it('should wrap triggers in headings and label region panels', () => {
+    render(<Accordion headingLevel={2} defaultExpandedIds={['Returns']} />);
+
+    expect(screen.getAllByRole('heading', { level: 2 })).toHaveLength(3);
+    expect(trigger('Returns')).toHaveAttribute('aria-expanded', 'true');
+    expect(trigger('Shipping')).toHaveAttribute('aria-expanded', 'false');
+
+    const region = screen.getByRole('region', { name: 'Returns' });
+    expect(trigger('Returns')).toHaveAttribute('aria-controls', region.id);
+    expect(region).toHaveTextContent('Returns details');
+    expect(screen.getByText('Shipping details')).not.toBeVisible();
+  });
+
+  it('should not expose panels as regions above the threshold', () => {
+    render(<Accordion regionThreshold={2} defaultExpandedIds={['Shipping']} />);
+
+    expect(screen.queryByRole('region')).not.toBeInTheDocument();
+    expect(screen.getByText('Shipping details')).not.toHaveAttribute('aria-labelledby');
+  });
+
+  it('should keep one section expanded in single mode', () => {
+    const onExpandedChange = vi.fn();
+    render(<Accordion onExpandedChange={onExpandedChange} />);
+
+    fireEvent.click(trigger('Shipping'));
+    fireEvent.click(trigger('Returns'));
+    expect(onExpandedChange).toHaveBeenLastCalledWith(['Returns']);
+    expect(trigger('Shipping')).toHaveAttribute('aria-expanded', 'false');
+
+    fireEvent.click(trigger('Returns'));
+    expect(onExpandedChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should expand several sections in multiple mode', () => {
+    render(<Accordion multiple />);
+
+    fireEvent.click(trigger('Shipping'));
+    fireEvent.click(trigger('Warranty'));
+    expect(trigger('Shipping')).toHaveAttribute('aria-expanded', 'true');
+    expect(trigger('Warranty')).toHaveAttribute('aria-expanded', 'true');
+  });
+
+  it('should keep the last section open when collapsing all is not allowed', () => {
+    render(<Accordion allowCollapseAll={false} />);
+
+    expect(trigger('Shipping')).toHaveAttribute('aria-expanded', 'true');
+    expect(trigger('Shipping')).toHaveAttribute('aria-disabled', 'true');
+
+    fireEvent.click(trigger('Shipping'));
+    expect(trigger('Shipping')).toHaveAttribute('aria-expanded', 'true');
+
+    fireEvent.click(trigger('Returns'));
+    expect(trigger('Shipping')).not.toHaveAttribute('aria-disabled');
+    expect(trigger('Returns')).toHaveAttribute('aria-disabled', 'true');
+  });
+
+  it('should ignore disabled triggers', () => {
+    render(<Accordion disabled={['Returns']} />);
+
+    fireEvent.click(trigger('Returns'));
+    expect(trigger('Returns')).toHaveAttribute('aria-expanded', 'false');
+    expect(trigger('Returns')).toHaveAttribute('aria-disabled', 'true');
+  });
+
+  it('should move focus between triggers with arrow keys, Home and End', () => {
+    render(<Accordion />);
+    act(() => trigger('Shipping').focus());
+
+    fireEvent.keyDown(trigger('Shipping'), { key: 'ArrowDown' });
+    expect(trigger('Returns')).toHaveFocus();
+    fireEvent.keyDown(trigger('Returns'), { key: 'End' });
+    expect(trigger('Warranty')).toHaveFocus();
+    fireEvent.keyDown(trigger('Warranty'), { key: 'ArrowDown' });
+    expect(trigger('Shipping')).toHaveFocus();
+    fireEvent.keyDown(trigger('Shipping'), { key: 'ArrowUp' });
+    expect(trigger('Warranty')).toHaveFocus();
+    fireEvent.keyDown(trigger('Warranty'), { key: 'Home' });
+    expect(trigger('Shipping')).toHaveFocus();
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import {
+  createSwitchProps,
+  useSwitch,
+  useCheckboxGroup,
+  type UseSwitchOptions,
+  type UseCheckboxGroupOptions,
+} from '../src/index';
+
+const Switch = ({
+  description = false,
+  ...options
+}: UseSwitchOptions & { description?: boolean }) => {
+  const wifi = useSwitch(options);
+  return (
+    <div>
+      <span {...wifi.getLabelProps()}>Wi-Fi</span>
+      {options.native ? <input {...wifi.getSwitchProps()} /> : <div {...wifi.getSwitchProps()} />}
+      {description && <p {...wifi.getDescriptionProps()}>Connects to known networks</p>}
+    </div>
+  );
+};
+
+const Toppings = (options: Partial<UseCheckboxGroupOptions>) => {
+  const group = useCheckboxGroup({ items: ['cheese', 'olives', 'ham'], ...options });
+  const Control = options.native ? 'input' : 'div';
+  return (
+    <div {...group.getGroupProps()}>
+      <span {...group.getLabelProps()}>Toppings</span>
+      <Control {...group.getParentCheckboxProps()} aria-label="All" />
+      {['cheese', 'olives', 'ham'].map((item) => (
+        <Control key={item} {...group.getCheckboxProps(item)} aria-label={item} />
+      ))}
+    </div>
+  );
+};
+
+const checkbox = (name: string) => screen.getByRole('checkbox', { name });
+
+describe('createSwitchProps', () => {
+  it('should create switch props', () => {
+    expect(createSwitchProps(true)).toEqual({ role: 'switch', 'aria-checked': 'true' });
+    expect(createSwitchProps(false)).toEqual({ role: 'switch', 'aria-checked': 'false' });
+  });
+
+  it('should not accept mixed', () => {
+    // @ts-expect-error - switches cannot be mixed
+    expect(createSwitchProps('mixed')['aria-checked']).toBe('true');
+  });
+});
+
+describe('useSwitch', () => {
+  it('should toggle a custom switch with click, Space and its label', () => {
+    const onCheckedChange = vi.fn();
+    render(<Switch onCheckedChange={onCheckedChange} />);
+    const control = screen.getByRole('switch', { name: 'Wi-Fi' });
+
+    expect(control).toHaveAttribute('aria-checked', 'false');
+    expect(control).toHaveAttribute('tabindex', '0');
+    fireEvent.click(control);
+    expect(control).toHaveAttribute('aria-checked', 'true');
+    fireEvent.keyDown(control, { key: ' ' });
+    expect(control).toHaveAttribute('aria-checked', 'false');
+    fireEvent.click(screen.getByText('Wi-Fi'));
+    expect(control).toHaveAttribute('aria-checked', 'true');
+    expect(control).toHaveFocus();
+    expect(onCheckedChange.mock.calls.map(([checked]) => checked)).toEqual([true, false, true]);
+  });
+
+  it('should wire a native input switch to its label', () => {
+    render(<Switch native defaultChecked />);
+    const control = screen.getByRole('switch', { name: 'Wi-Fi' });
+
+    expect(control).toBeChecked();
+    expect(control).not.toHaveAttribute('aria-checked');
+    fireEvent.click(control);
+    expect(control).not.toBeChecked();
+  });
+
+  it('should only reference the description once it is rendered', () => {
+    const { rerender } = render(<Switch />);
+    expect(screen.getByRole('switch')).not.toHaveAttribute('aria-describedby');
+
+    rerender(<Switch description />);
+    expect(screen.getByRole('switch')).toHaveAccessibleDescription('Connects to known networks');
+  });
+
+  it('should not toggle when disabled', () => {
+    render(<Switch disabled />);
+    const control = screen.getByRole('switch');
+
+    fireEvent.click(control);
+    fireEvent.keyDown(control, { key: ' ' });
+    expect(control).toHaveAttribute('aria-checked', 'false');
+    expect(control).toHaveAttribute('aria-disabled', 'true');
+    expect(control).toHaveAttribute('tabindex', '-1');
+  });
+});
+
+describe('useCheckboxGroup', () => {
+  it('should derive the parent state from the children', () => {
+    render(<Toppings />);
+
+    expect(screen.getByRole('group', { name: 'Toppings' })).toBeInTheDocument();
+    expect(checkbox('All')).toHaveAttribute('aria-checked', 'false');
+    fireEvent.click(checkbox('cheese'));
+    expect(checkbox('All')).toHaveAttribute('aria-checked', 'mixed');
+    fireEvent.click(checkbox('olives'));
+    fireEvent.keyDown(checkbox('ham'), { key: ' ' });
+    expect(checkbox('All')).toHaveAttribute('aria-checked', 'true');
+  });
+
+  it('should check all children, then uncheck them, from the parent', () => {
+    const onChange = vi.fn();
+    render(<Toppings defaultValue={['olives']} onChange={onChange} />);
+
+    fireEvent.click(checkbox('All'));
+    expect(onChange).toHaveBeenLastCalledWith(['cheese', 'olives', 'ham']);
+    fireEvent.click(checkbox('All'));
+    expect(onChange).toHaveBeenLastCalledWith([]);
+    expect(checkbox('cheese')).toHaveAttribute('aria-checked', 'false');
+  });
+
+  it('should leave disabled children unchanged', () => {
+    render(<Toppings defaultValue={['ham']} disabledItems={['ham', 'olives']} />);
+
+    fireEvent.click(checkbox('All'));
+    expect(checkbox('cheese')).toHaveAttribute('aria-checked', 'true');
+    expect(checkbox('olives')).toHaveAttribute('aria-checked', 'false');
+    fireEvent.click(checkbox('All'));
+    expect(checkbox('cheese')).toHaveAttribute('aria-checked', 'false');
+    expect(checkbox('ham')).toHaveAttribute('aria-checked', 'true');
+    expect(checkbox('ham')).toHaveAttribute('aria-disabled', 'true');
+  });
+
+  it('should leave disabled children unchanged while they are not rendered', () => {
+    const onChange = vi.fn();
+    const Collapsed = () => {
+      const group = useCheckboxGroup({
+        items: ['cheese', 'olives', 'ham'],
+        disabledItems: ['ham'],
+        onChange,
+      });
+      return <div {...group.getParentCheckboxProps()} aria-label="All" />;
+    };
+    render(<Collapsed />);
+
+    fireEvent.click(checkbox('All'));
+    expect(onChange).toHaveBeenLastCalledWith(['cheese', 'olives']);
+  });
+
+  it('should point the parent at the children it controls', () => {
+    render(<Toppings id="toppings" />);
+
+    expect(checkbox('All')).toHaveAttribute(
+      'aria-controls',
+      'toppings-checkbox-cheese toppings-checkbox-olives toppings-checkbox-ham'
+    );
+  });
+
+  it('should set indeterminate on a native parent input', () => {
+    render(<Toppings native defaultValue={['cheese']} />);
+    const parent = checkbox('All') as HTMLInputElement;
+
+    expect(parent.indeterminate).toBe(true);
+    expect(parent).not.toHaveAttribute('aria-checked');
+    fireEvent.click(parent);
+    expect(parent.indeterminate).toBe(false);
+    expect(parent).toBeChecked();
+    expect(checkbox('ham')).toBeChecked();
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React, { useState } from 'react';
+import { createComboboxProps, useCombobox, type ComboboxAutocomplete } from '../src/index';
+
+const FRUITS = ['Apple', 'Apricot', 'Banana', 'Blueberry', 'Cherry'];
+
+interface FruitComboboxProps {
+  autocomplete?: ComboboxAutocomplete;
+  disabled?: string[];
+  onSelectedItemChange?: (item: string | null) => void;
+}
+
+const FruitCombobox = ({
+  autocomplete,
+  disabled = [],
+  onSelectedItemChange,
+}: FruitComboboxProps) => {
+  const [query, setQuery] = useState('');
+  const items =
+    autocomplete === 'none' || autocomplete === 'inline'
+      ? FRUITS
+      : FRUITS.filter((fruit) => fruit.toLowerCase().startsWith(query.toLowerCase()));
+  const combobox = useCombobox({
+    items,
+    autocomplete,
+    inputValue: query,
+    onInputValueChange: setQuery,
+    onSelectedItemChange,
+    isItemDisabled: (item) => disabled.includes(item),
+  });
+
+  return (
+    <div>
+      <label {...combobox.getLabelProps()}>Fruit</label>
+      <input {...combobox.getInputProps()} />
+      <ul {...combobox.getListboxProps()}>
+        {items.map((fruit, index) => (
+          <li key={fruit} {...combobox.getOptionProps(index)}>
+            {fruit}
+          </li>
+        ))}
+      </ul>
+      <div {...combobox.getStatusProps()} />
+    </div>
+  );
+};
+
+describe('createComboboxProps', () => {
+  it('should create collapsed combobox props', () => {
+    expect(createComboboxProps({ expanded: false, listboxId: 'list' })).toEqual({
+      role: 'combobox',
+      'aria-expanded': 'false',
+      'aria-controls': 'list',
+      'aria-haspopup': 'listbox',
+      'aria-autocomplete': 'list',
+    });
+  });
+
+  it('should only reference the active descendant while expanded', () => {
+    expect(
+      createComboboxProps({ expanded: true, listboxId: 'list', activeDescendantId: 'opt-1' })
+    ).toHaveProperty('aria-activedescendant', 'opt-1');
+    expect(
+      createComboboxProps({ expanded: false, listboxId: 'list', activeDescendantId: 'opt-1' })
+    ).not.toHaveProperty('aria-activedescendant');
+  });
+});
+
+describe('useCombobox', () => {
+  it('should wire the input, label and listbox together', () => {
+    render(<FruitCombobox />);
+    const input = screen.getByRole('combobox');
+    const listbox = screen.getByRole('listbox', { hidden: true });
+
+    expect(input).toHaveAccessibleName('Fruit');
+    expect(input).toHaveAttribute('aria-controls', listbox.id);
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+    expect(listbox).toHaveAttribute('aria-labelledby', screen.getByText('Fruit').id);
+    expect(listbox).not.toBeVisible();
+  });
+
+  it('should open and move the active descendant with the arrow keys', () => {
+    render(<FruitCombobox />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+    const options = screen.getAllByRole('option');
+    expect(input).toHaveAttribute('aria-activedescendant', options[0]!.id);
+    expect(options[0]).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input).toHaveAttribute('aria-activedescendant', options[1]!.id);
+    expect(options[0]).toHaveAttribute('aria-selected', 'false');
+
+    fireEvent.keyDown(input, { key: 'ArrowUp' });
+    fireEvent.keyDown(input, { key: 'ArrowUp' });
+    expect(input).toHaveAttribute('aria-activedescendant', options[4]!.id);
+  });
+
+  it('should open without moving on Alt+ArrowDown', () => {
+    render(<FruitCombobox />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown', altKey: true });
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+    expect(input).not.toHaveAttribute('aria-activedescendant');
+  });
+
+  it('should skip disabled options', () => {
+    render(<FruitCombobox disabled={['Apricot']} />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input).toHaveAttribute('aria-activedescendant', screen.getByText('Banana').id);
+    expect(screen.getByText('Apricot')).toHaveAttribute('aria-disabled', 'true');
+  });
+
+  it('should choose the active option on Enter', () => {
+    const onSelectedItemChange = vi.fn();
+    render(<FruitCombobox onSelectedItemChange={onSelectedItemChange} />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(onSelectedItemChange).toHaveBeenCalledWith('Apricot');
+    expect(input).toHaveValue('Apricot');
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('should choose an option on click', () => {
+    const onSelectedItemChange = vi.fn();
+    render(<FruitCombobox onSelectedItemChange={onSelectedItemChange} />);
+    fireEvent.keyDown(screen.getByRole('combobox'), { key: 'ArrowDown' });
+    fireEvent.click(screen.getByText('Cherry'));
+
+    expect(onSelectedItemChange).toHaveBeenCalledWith('Cherry');
+    expect(screen.getByRole('combobox')).toHaveValue('Cherry');
+  });
+
+  it('should close on Escape, then clear the input', () => {
+    render(<FruitCombobox />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.change(input, { target: { value: 'b' } });
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+    expect(input).toHaveValue('b');
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(input).toHaveValue('');
+  });
+
+  it('should filter and announce the number of results', () => {
+    render(<FruitCombobox />);
+    const input = screen.getByRole('combobox');
+    const status = screen.getByRole('status');
+
+    expect(status).toHaveTextContent('');
+    fireEvent.change(input, { target: { value: 'ap' } });
+    expect(screen.getAllByRole('option')).toHaveLength(2);
+    expect(status).toHaveTextContent('2 results available');
+
+    fireEvent.change(input, { target: { value: 'apr' } });
+    expect(status).toHaveTextContent('1 result available');
+
+    fireEvent.change(input, { target: { value: 'x' } });
+    expect(status).toHaveTextContent('No results');
+  });
+
+  it('should complete the first match inline and select the completion', () => {
+    render(<FruitCombobox autocomplete="inline" />);
+    const input = screen.getByRole<HTMLInputElement>('combobox');
+
+    fireEvent.change(input, { target: { value: 'bl' } });
+    // The typed text keeps its case
+    expect(input).toHaveValue('blueberry');
+    expect(input.selectionStart).toBe(2);
+    expect(input.selectionEnd).toBe(9);
+    expect(input).not.toHaveAttribute('aria-activedescendant');
+    expect(input).toHaveAttribute('aria-autocomplete', 'inline');
+  });
+
+  it('should complete inline and activate the first match in both mode', () => {
+    render(<FruitCombobox autocomplete="both" />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.change(input, { target: { value: 'Ch' } });
+    expect(input).toHaveValue('Cherry');
+    expect(input).toHaveAttribute('aria-activedescendant', screen.getByText('Cherry').id);
+
+    fireEvent.keyDown(input, { key: 'Enter' });
+    expect(input).toHaveValue('Cherry');
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('should choose the inline suggestion when focus leaves the input', () => {
+    const onSelectedItemChange = vi.fn();
+    render(<FruitCombobox autocomplete="inline" onSelectedItemChange={onSelectedItemChange} />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.change(input, { target: { value: 'ap' } });
+    expect(input).toHaveValue('apple');
+    fireEvent.blur(input);
+
+    expect(input).toHaveValue('Apple');
+    expect(onSelectedItemChange).toHaveBeenCalledWith('Apple');
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('should keep the typed text on blur without a suggestion', () => {
+    const onSelectedItemChange = vi.fn();
+    render(<FruitCombobox autocomplete="both" onSelectedItemChange={onSelectedItemChange} />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.change(input, { target: { value: 'x' } });
+    fireEvent.blur(input);
+
+    expect(input).toHaveValue('x');
+    expect(onSelectedItemChange).not.toHaveBeenCalled();
+  });
+
+  it('should show the active option in the input while navigating in inline modes', () => {
+    render(<FruitCombobox autocomplete="both" />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.change(input, { target: { value: 'b' } });
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input).toHaveValue('Blueberry');
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(input).toHaveValue('b');
+  });
+});
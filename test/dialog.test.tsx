@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { useDialog, useAlertDialog, type UseDialogOptions } from '../src/index';
+
+const Dialog = ({
+  nested = false,
+  description = true,
+  ...options
+}: UseDialogOptions & { nested?: boolean; description?: boolean }) => {
+  const dialog = useDialog(options);
+  return (
+    <>
+      <button {...dialog.getTriggerProps()}>Edit profile</button>
+      {dialog.isOpen && (
+        <div {...dialog.getDialogProps()}>
+          <h2 {...dialog.getTitleProps()}>Profile</h2>
+          {description && <p {...dialog.getDescriptionProps()}>Changes are saved.</p>}
+          <input aria-label="Name" />
+          {nested && <Nested />}
+          <button onClick={dialog.close}>Done</button>
+        </div>
+      )}
+    </>
+  );
+};
+
+const Nested = () => {
+  const dialog = useDialog();
+  return (
+    <>
+      <button {...dialog.getTriggerProps()}>Change avatar</button>
+      {dialog.isOpen && (
+        <div {...dialog.getDialogProps()}>
+          <h2 {...dialog.getTitleProps()}>Avatar</h2>
+          <button onClick={dialog.close}>Cancel</button>
+        </div>
+      )}
+    </>
+  );
+};
+
+const ConfirmDelete = () => {
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const confirm = useAlertDialog({ defaultOpen: true, initialFocus: cancelRef });
+  return confirm.isOpen ? (
+    <div {...confirm.getDialogProps()}>
+      <h2 {...confirm.getTitleProps()}>Delete file?</h2>
+      <p {...confirm.getDescriptionProps()}>This cannot be undone.</p>
+      <button ref={cancelRef} onClick={confirm.close}>
+        Cancel
+      </button>
+      <button>Delete</button>
+    </div>
+  ) : null;
+};
+
+const ColorDialog = () => {
+  const dialog = useDialog({ defaultOpen: true });
+  return (
+    dialog.isOpen && (
+      <div {...dialog.getDialogProps()}>
+        <h2 {...dialog.getTitleProps()}>Color</h2>
+        <input role="combobox" aria-label="Color" aria-expanded aria-controls="colors" />
+        {createPortal(
+          <ul id="colors" role="listbox" aria-label="Colors">
+            <li role="option" aria-selected={false} tabIndex={-1}>
+              Red
+            </li>
+          </ul>,
+          document.body
+        )}
+        <button onClick={dialog.close}>Done</button>
+      </div>
+    )
+  );
+};
+
+const renderWithBackground = (ui: React.ReactElement) => {
+  const outside = document.createElement('aside');
+  outside.textContent = 'Sidebar';
+  document.body.appendChild(outside);
+  const result = render(ui);
+  return { ...result, outside };
+};
+
+describe('useDialog', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should render a labelled and described modal dialog and focus into it', () => {
+    render(<Dialog />);
+    const trigger = screen.getByRole('button', { name: 'Edit profile' });
+
+    expect(trigger).toHaveAttribute('aria-haspopup', 'dialog');
+    expect(trigger).toHaveAttribute('aria-expanded', 'false');
+    fireEvent.click(trigger);
+
+    const dialog = screen.getByRole('dialog', { name: 'Profile' });
+    expect(dialog).toHaveAttribute('aria-modal', 'true');
+    expect(dialog).toHaveAccessibleDescription('Changes are saved.');
+    expect(trigger).toHaveAttribute('aria-controls', dialog.id);
+    expect(screen.getByRole('textbox', { name: 'Name' })).toHaveFocus();
+  });
+
+  it('should leave out aria-describedby without a description', () => {
+    render(<Dialog defaultOpen description={false} />);
+    expect(screen.getByRole('dialog')).not.toHaveAttribute('aria-describedby');
+  });
+
+  it('should hide the background and restore it exactly on close', () => {
+    const { outside } = renderWithBackground(<Dialog />);
+    outside.setAttribute('aria-hidden', 'false');
+    const trigger = screen.getByRole('button', { name: 'Edit profile' });
+    act(() => trigger.focus());
+    fireEvent.click(trigger);
+
+    expect(outside).toHaveAttribute('aria-hidden', 'true');
+    expect(screen.getByText('Edit profile')).toHaveAttribute('aria-hidden', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Done' }));
+    expect(outside).toHaveAttribute('aria-hidden', 'false');
+    expect(screen.getByRole('button', { name: 'Edit profile' })).not.toHaveAttribute('aria-hidden');
+    expect(screen.getByRole('button', { name: 'Edit profile' })).toHaveFocus();
+  });
+
+  it('should use inert where it is supported', () => {
+    Object.defineProperty(HTMLElement.prototype, 'inert', { configurable: true, value: false });
+    const { outside } = renderWithBackground(<Dialog defaultOpen />);
+
+    expect(outside).toHaveAttribute('inert');
+    expect(outside).not.toHaveAttribute('aria-hidden');
+    delete (HTMLElement.prototype as { inert?: boolean }).inert;
+  });
+
+  it('should hide elements added to the body while open', async () => {
+    Object.defineProperty(HTMLElement.prototype, 'inert', { configurable: true, value: false });
+    renderWithBackground(<Dialog defaultOpen />);
+
+    const toast = document.createElement('div');
+    toast.textContent = 'Saved';
+    document.body.append(toast);
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+
+    expect(toast).toHaveAttribute('inert');
+    expect(screen.getByRole('dialog')).not.toHaveAttribute('inert');
+    delete (HTMLElement.prototype as { inert?: boolean }).inert;
+  });
+
+  it('should treat a listbox it portals to the body as inside the dialog', () => {
+    Object.defineProperty(HTMLElement.prototype, 'inert', { configurable: true, value: false });
+    const { outside, unmount } = renderWithBackground(<ColorDialog />);
+    const listbox = screen.getByRole('listbox', { name: 'Colors' });
+    const option = screen.getByRole('option', { name: 'Red' });
+
+    expect(outside).toHaveAttribute('inert');
+    expect(listbox).not.toHaveAttribute('inert');
+
+    fireEvent.mouseDown(option);
+    act(() => option.focus());
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+    expect(option).toHaveFocus();
+    // Before the body is cleared, which would remove the portal from under React
+    unmount();
+    delete (HTMLElement.prototype as { inert?: boolean }).inert;
+  });
+
+  it('should close on Escape and on outside clicks', () => {
+    const onOpenChange = vi.fn();
+    const { outside } = renderWithBackground(<Dialog onOpenChange={onOpenChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit profile' }));
+    fireEvent.mouseDown(screen.getByRole('textbox'));
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+    fireEvent.keyDown(document.activeElement ?? document.body, { key: 'Escape' });
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit profile' }));
+    fireEvent.mouseDown(outside);
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    expect(onOpenChange.mock.calls.map(([open]) => open)).toEqual([true, false, true, false]);
+  });
+
+  it('should stay open when content inside it handled Escape', () => {
+    render(<Dialog defaultOpen />);
+    const input = screen.getByRole('textbox');
+    input.addEventListener('keydown', (event) => event.preventDefault());
+
+    fireEvent.keyDown(input, { key: 'Escape' });
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+  });
+
+  it('should honour closeOnEscape and closeOnOutsideClick', () => {
+    const { outside } = renderWithBackground(
+      <Dialog defaultOpen closeOnEscape={false} closeOnOutsideClick={false} />
+    );
+
+    fireEvent.keyDown(document.body, { key: 'Escape' });
+    fireEvent.mouseDown(outside);
+    expect(screen.getByRole('dialog')).toBeInTheDocument();
+  });
+
+  it('should lock scrolling with scrollbar compensation and restore the body style', () => {
+    Object.defineProperty(document.documentElement, 'clientWidth', {
+      configurable: true,
+      value: window.innerWidth - 15,
+    });
+    document.body.style.paddingRight = '4px';
+    const { unmount } = render(<Dialog defaultOpen />);
+
+    expect(document.body.style.overflow).toBe('hidden');
+    expect(document.body.style.paddingRight).toBe('19px');
+
+    unmount();
+    expect(document.body.style.overflow).toBe('');
+    expect(document.body.style.paddingRight).toBe('4px');
+    delete (document.documentElement as { clientWidth?: number }).clientWidth;
+    document.body.style.paddingRight = '';
+  });
+
+  it('should stack nested dialogs so only the innermost one closes', () => {
+    render(<Dialog defaultOpen nested />);
+    const changeAvatar = screen.getByRole('button', { name: 'Change avatar' });
+    act(() => changeAvatar.focus());
+    fireEvent.click(changeAvatar);
+
+    expect(screen.getByRole('dialog', { name: 'Avatar' })).toBeInTheDocument();
+    expect(screen.getByRole('textbox', { hidden: true })).toHaveAttribute('aria-hidden', 'true');
+    expect(screen.getByRole('button', { name: 'Cancel' })).toHaveFocus();
+
+    fireEvent.keyDown(document.activeElement ?? document.body, { key: 'Escape' });
+    expect(screen.queryByRole('dialog', { name: 'Avatar' })).not.toBeInTheDocument();
+    expect(screen.getByRole('dialog', { name: 'Profile' })).toBeInTheDocument();
+    expect(screen.getByRole('textbox')).not.toHaveAttribute('aria-hidden');
+    expect(screen.getByRole('button', { name: 'Change avatar' })).toHaveFocus();
+    expect(document.body.style.overflow).toBe('hidden');
+  });
+});
+
+describe('useAlertDialog', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should render an alertdialog that ignores outside clicks', () => {
+    const { outside } = renderWithBackground(<ConfirmDelete />);
+    const dialog = screen.getByRole('alertdialog', { name: 'Delete file?' });
+
+    expect(dialog).toHaveAccessibleDescription('This cannot be undone.');
+    expect(screen.getByRole('button', { name: 'Cancel' })).toHaveFocus();
+    fireEvent.mouseDown(outside);
+    expect(dialog).toBeInTheDocument();
+    fireEvent.keyDown(dialog, { key: 'Escape' });
+    expect(screen.queryByRole('alertdialog')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, renderHook, act } from '@testing-library/react';
+import React, { useState } from 'react';
+import { useDisclosure, type UseDisclosureOptions } from '../src/index';
+
+const Disclosure = (options: UseDisclosureOptions) => {
+  const { getTriggerProps, getPanelProps } = useDisclosure(options);
+  return (
+    <div>
+      <button {...getTriggerProps()}>Details</button>
+      <div {...getPanelProps()} data-testid="panel">
+        <a href="#more">More</a>
+      </div>
+    </div>
+  );
+};
+
+describe('useDisclosure', () => {
+  it('should link the trigger to the panel with a generated ID', () => {
+    render(<Disclosure />);
+    const trigger = screen.getByRole('button');
+    const panel = screen.getByTestId('panel');
+
+    expect(panel.id).not.toBe('');
+    expect(trigger.getAttribute('aria-controls')).toBe(panel.id);
+    expect(trigger.id).toBe(`${panel.id}-trigger`);
+  });
+
+  it('should use a provided ID', () => {
+    render(<Disclosure id="faq-1" />);
+    expect(screen.getByTestId('panel').id).toBe('faq-1');
+    expect(screen.getByRole('button').getAttribute('aria-controls')).toBe('faq-1');
+  });
+
+  it('should toggle on click in uncontrolled mode', () => {
+    render(<Disclosure />);
+    const trigger = screen.getByRole('button');
+    const panel = screen.getByTestId('panel');
+
+    expect(trigger.getAttribute('aria-expanded')).toBe('false');
+    expect(panel).not.toBeVisible();
+
+    fireEvent.click(trigger);
+    expect(trigger.getAttribute('aria-expanded')).toBe('true');
+    expect(panel).toBeVisible();
+  });
+
+  it('should honour defaultOpen', () => {
+    render(<Disclosure defaultOpen />);
+    expect(screen.getByRole('button').getAttribute('aria-expanded')).toBe('true');
+  });
+
+  it('should follow the open prop in controlled mode', () => {
+    const onOpenChange = vi.fn();
+    const { rerender } = render(<Disclosure open={false} onOpenChange={onOpenChange} />);
+    const trigger = screen.getByRole('button');
+
+    fireEvent.click(trigger);
+    expect(onOpenChange).toHaveBeenCalledWith(true);
+    expect(trigger.getAttribute('aria-expanded')).toBe('false');
+
+    rerender(<Disclosure open onOpenChange={onOpenChange} />);
+    expect(trigger.getAttribute('aria-expanded')).toBe('true');
+  });
+
+  it('should work with external state', () => {
+    const Controlled = () => {
+      const [open, setOpen] = useState(false);
+      return (
+        <>
+          <Disclosure open={open} onOpenChange={setOpen} />
+          <span>{open ? 'open' : 'closed'}</span>
+        </>
+      );
+    };
+    render(<Controlled />);
+
+    fireEvent.click(screen.getByRole('button'));
+    expect(screen.getByText('open')).toBeInTheDocument();
+  });
+
+  it('should close on Escape and return focus to the trigger when enabled', () => {
+    render(<Disclosure defaultOpen closeOnEscape />);
+    const trigger = screen.getByRole('button');
+    const link = screen.getByText('More');
+
+    link.focus();
+    fireEvent.keyDown(link, { key: 'Escape' });
+    expect(trigger.getAttribute('aria-expanded')).toBe('false');
+    expect(trigger).toHaveFocus();
+  });
+
+  it('should ignore Escape by default', () => {
+    render(<Disclosure defaultOpen />);
+    fireEvent.keyDown(screen.getByText('More'), { key: 'Escape' });
+    expect(screen.getByRole('button').getAttribute('aria-expanded')).toBe('true');
+  });
+
+  it('should expose open, close and toggle actions', () => {
+    const { result } = renderHook(() => useDisclosure());
+
+    act(() => result.current.open());
+    expect(result.current.isOpen).toBe(true);
+    act(() => result.current.toggle());
+    expect(result.current.isOpen).toBe(false);
+    act(() => result.current.open());
+    act(() => result.current.close());
+    expect(result.current.isOpen).toBe(false);
+  });
+});
@@ -0,0 +1,305 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { StrictMode, useRef, useState } from 'react';
+import { FocusScope, useFocusTrap, createDialogTriggerProps } from '../src/index';
+
+const pressTab = (shiftKey = false) => {
+  fireEvent.keyDown(document.activeElement ?? document.body, { key: 'Tab', shiftKey });
+};
+
+describe('FocusScope', () => {
+  it('should focus the first tabbable element on mount', () => {
+    render(
+      <FocusScope>
+        <button>First</button>
+        <button>Second</button>
+      </FocusScope>
+    );
+
+    expect(screen.getByText('First')).toHaveFocus();
+  });
+
+  it('should wrap Tab from the last element to the first', () => {
+    render(
+      <FocusScope>
+        <button>First</button>
+        <button>Last</button>
+      </FocusScope>
+    );
+
+    act(() => screen.getByText('Last').focus());
+    pressTab();
+    expect(screen.getByText('First')).toHaveFocus();
+  });
+
+  it('should wrap Shift+Tab from the first element to the last', () => {
+    render(
+      <FocusScope>
+        <button>First</button>
+        <button>Last</button>
+      </FocusScope>
+    );
+
+    pressTab(true);
+    expect(screen.getByText('Last')).toHaveFocus();
+  });
+
+  it('should skip disabled, hidden and negative tabindex elements', () => {
+    render(
+      <FocusScope>
+        <button>First</button>
+        <button>Last</button>
+        <button disabled>Disabled</button>
+        <div hidden>
+          <button>Hidden</button>
+        </div>
+        <span tabIndex={-1}>Programmatic</span>
+      </FocusScope>
+    );
+
+    act(() => screen.getByText('Last').focus());
+    pressTab();
+    expect(screen.getByText('First')).toHaveFocus();
+  });
+
+  it('should honour initialFocus', () => {
+    const Dialog = () => {
+      const closeRef = useRef<HTMLButtonElement>(null);
+      return (
+        <FocusScope initialFocus={closeRef}>
+          <button>Save</button>
+          <button ref={closeRef}>Close</button>
+        </FocusScope>
+      );
+    };
+    render(<Dialog />);
+
+    expect(screen.getByText('Close')).toHaveFocus();
+  });
+
+  it('should focus the container when it has no tabbable children', () => {
+    const { container } = render(
+      <FocusScope>
+        <p>Nothing to focus</p>
+      </FocusScope>
+    );
+
+    const scope = container.firstChild as HTMLElement;
+    expect(scope).toHaveFocus();
+    pressTab();
+    expect(scope).toHaveFocus();
+  });
+
+  it('should include elements added while active', () => {
+    const Dynamic = () => {
+      const [extra, setExtra] = useState(false);
+      return (
+        <FocusScope>
+          <button onClick={() => setExtra(true)}>Add</button>
+          {extra && <button>Added</button>}
+        </FocusScope>
+      );
+    };
+    render(<Dynamic />);
+
+    fireEvent.click(screen.getByText('Add'));
+    act(() => screen.getByText('Added').focus());
+    pressTab();
+    expect(screen.getByText('Add')).toHaveFocus();
+  });
+
+  it('should pull focus back when it escapes the scope', () => {
+    render(
+      <>
+        <button>Outside</button>
+        <FocusScope>
+          <button>Inside</button>
+        </FocusScope>
+      </>
+    );
+
+    act(() => screen.getByText('Outside').focus());
+    expect(screen.getByText('Inside')).toHaveFocus();
+  });
+
+  it('should restore focus to the trigger on unmount', () => {
+    const Modal = () => {
+      const [isOpen, setIsOpen] = useState(false);
+      return (
+        <>
+          <button {...createDialogTriggerProps('dialog', isOpen)} onClick={() => setIsOpen(true)}>
+            Open
+          </button>
+          {isOpen && (
+            <FocusScope>
+              <div id="dialog" role="dialog" aria-label="Dialog">
+                <button onClick={() => setIsOpen(false)}>Close</button>
+              </div>
+            </FocusScope>
+          )}
+        </>
+      );
+    };
+    render(<Modal />);
+
+    const trigger = screen.getByText('Open');
+    act(() => trigger.focus());
+    fireEvent.click(trigger);
+    expect(screen.getByText('Close')).toHaveFocus();
+
+    fireEvent.click(screen.getByText('Close'));
+    expect(trigger).toHaveFocus();
+  });
+
+  it('should restore focus to the trigger when a child takes focus with autoFocus', () => {
+    const Modal = () => {
+      const [isOpen, setIsOpen] = useState(false);
+      return (
+        <>
+          <button onClick={() => setIsOpen(true)}>Open</button>
+          {isOpen && (
+            <FocusScope>
+              <input aria-label="Search" autoFocus />
+              <button onClick={() => setIsOpen(false)}>Close</button>
+            </FocusScope>
+          )}
+        </>
+      );
+    };
+    render(<Modal />);
+
+    const trigger = screen.getByText('Open');
+    act(() => trigger.focus());
+    fireEvent.click(trigger);
+    expect(screen.getByRole('textbox')).toHaveFocus();
+
+    fireEvent.click(screen.getByText('Close'));
+    expect(trigger).toHaveFocus();
+  });
+
+  it('should restore focus to the trigger in StrictMode', () => {
+    const Modal = () => {
+      const [isOpen, setIsOpen] = useState(false);
+      return (
+        <>
+          <button onClick={() => setIsOpen(true)}>Open</button>
+          {isOpen && (
+            <FocusScope>
+              <input aria-label="Search" autoFocus />
+              <button onClick={() => setIsOpen(false)}>Close</button>
+            </FocusScope>
+          )}
+        </>
+      );
+    };
+    render(
+      <StrictMode>
+        <Modal />
+      </StrictMode>
+    );
+
+    const trigger = screen.getByText('Open');
+    act(() => trigger.focus());
+    fireEvent.click(trigger);
+    expect(screen.getByRole('textbox')).toHaveFocus();
+
+    fireEvent.click(screen.getByText('Close'));
+    expect(trigger).toHaveFocus();
+  });
+
+  it('should let the innermost scope own focus and hand it back when closed', () => {
+    const Nested = () => {
+      const [inner, setInner] = useState(false);
+      return (
+        <FocusScope>
+          <button onClick={() => setInner(true)}>Open inner</button>
+          {inner && (
+            <FocusScope>
+              <button onClick={() => setInner(false)}>Close inner</button>
+              <button>Inner last</button>
+            </FocusScope>
+          )}
+        </FocusScope>
+      );
+    };
+    render(<Nested />);
+
+    const opener = screen.getByText('Open inner');
+    fireEvent.click(opener);
+    expect(screen.getByText('Close inner')).toHaveFocus();
+
+    act(() => screen.getByText('Inner last').focus());
+    pressTab();
+    expect(screen.getByText('Close inner')).toHaveFocus();
+
+    fireEvent.click(screen.getByText('Close inner'));
+    expect(opener).toHaveFocus();
+  });
+});
+
+describe('useFocusTrap', () => {
+  it('should only trap while active', () => {
+    const Trap = ({ active }: { active: boolean }) => {
+      const ref = useFocusTrap<HTMLDivElement>({ active, restoreFocus: false });
+      return (
+        <>
+          <button>Outside</button>
+          <div ref={ref}>
+            <button>Inside</button>
+          </div>
+        </>
+      );
+    };
+    const { rerender } = render(<Trap active={false} />);
+
+    act(() => screen.getByText('Outside').focus());
+    expect(screen.getByText('Outside')).toHaveFocus();
+
+    rerender(<Trap active />);
+    expect(screen.getByText('Inside')).toHaveFocus();
+
+    rerender(<Trap active={false} />);
+    act(() => screen.getByText('Outside').focus());
+    expect(screen.getByText('Outside')).toHaveFocus();
+  });
+
+  it('should trap a container mounted after it became active', () => {
+    const Trap = ({ mounted }: { mounted: boolean }) => {
+      const ref = useFocusTrap<HTMLDivElement>({ active: true });
+      return (
+        <>
+          <button>Outside</button>
+          {mounted && (
+            <div ref={ref}>
+              <button>Inside</button>
+            </div>
+          )}
+        </>
+      );
+    };
+    const { rerender } = render(<Trap mounted={false} />);
+    act(() => screen.getByText('Outside').focus());
+
+    rerender(<Trap mounted />);
+    expect(screen.getByText('Inside')).toHaveFocus();
+    act(() => screen.getByText('Outside').focus());
+    expect(screen.getByText('Inside')).toHaveFocus();
+
+    rerender(<Trap mounted={false} />);
+    expect(screen.getByText('Outside')).toHaveFocus();
+  });
+
+  it('should leave focus alone when initialFocus is false', () => {
+    const Trap = () => {
+      const ref = useFocusTrap<HTMLDivElement>({ initialFocus: false });
+      return (
+        <div ref={ref}>
+          <button>Inside</button>
+        </div>
+      );
+    };
+    render(<Trap />);
+
+    expect(document.body).toHaveFocus();
+  });
+});
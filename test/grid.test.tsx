@@ -0,0 +1,357 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { memo, useState } from 'react';
+import { createGridProps, useGrid, type UseGridOptions, type UseGridResult } from '../src/index';
+
+const cellText = (row: number, col: number) => `R${row}C${col}`;
+
+const Grid = ({ windowSize, ...options }: Partial<UseGridOptions> & { windowSize?: number }) => {
+  const rowCount = options.rowCount ?? 4;
+  const colCount = options.colCount ?? 3;
+  const [start, setStart] = useState(0);
+  const grid = useGrid({
+    ...options,
+    rowCount,
+    colCount,
+    onFocusedCellChange: (cell) => {
+      options.onFocusedCellChange?.(cell);
+      if (windowSize !== undefined && (cell.row < start || cell.row >= start + windowSize)) {
+        setStart(Math.max(0, cell.row - windowSize + 1));
+      }
+    },
+  });
+  const end = windowSize === undefined ? rowCount : Math.min(start + windowSize, rowCount);
+  const rows = Array.from({ length: end - start }, (_, offset) => start + offset);
+
+  return (
+    <div {...grid.getGridProps()} aria-label="Orders">
+      {rows.map((row) => (
+        <div key={row} {...grid.getRowProps(row)}>
+          {Array.from({ length: colCount }, (_, col) => (
+            <div
+              key={col}
+              {...grid.getCellProps(row, col, { header: row === 0 ? 'column' : undefined })}
+            >
+              {cellText(row, col)}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const press = (key: string, init: Partial<KeyboardEventInit> = {}) =>
+  fireEvent.keyDown(document.activeElement as Element, { key, ...init });
+
+const cell = (row: number, col: number) => screen.getByText(cellText(row, col));
+
+describe('createGridProps', () => {
+  it('should create grid props with counts', () => {
+    expect(createGridProps({ rowCount: 100, colCount: 5 })).toEqual({
+      role: 'grid',
+      'aria-rowcount': 100,
+      'aria-colcount': 5,
+    });
+  });
+
+  it('should create treegrid props', () => {
+    expect(createGridProps({ treegrid: true, multiselectable: true })).toEqual({
+      role: 'treegrid',
+      'aria-multiselectable': 'true',
+    });
+  });
+});
+
+describe('useGrid', () => {
+  it('should render rows and cells with 1-based indexes', () => {
+    render(<Grid />);
+
+    expect(screen.getByRole('grid')).toHaveAttribute('aria-rowcount', '4');
+    expect(screen.getByRole('grid')).toHaveAttribute('aria-colcount', '3');
+    expect(screen.getAllByRole('row')[2]).toHaveAttribute('aria-rowindex', '3');
+    expect(cell(0, 1)).toHaveAttribute('role', 'columnheader');
+    expect(cell(2, 1)).toHaveAttribute('role', 'gridcell');
+    expect(cell(2, 1)).toHaveAttribute('aria-colindex', '2');
+    expect(cell(0, 0)).toHaveAttribute('tabindex', '0');
+    expect(cell(1, 1)).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('should move between cells with arrow keys without wrapping', () => {
+    render(<Grid />);
+    act(() => cell(0, 0).focus());
+
+    press('ArrowRight');
+    expect(cell(0, 1)).toHaveFocus();
+    press('ArrowDown');
+    expect(cell(1, 1)).toHaveFocus();
+    press('ArrowLeft');
+    press('ArrowLeft');
+    expect(cell(1, 0)).toHaveFocus();
+    press('ArrowUp');
+    press('ArrowUp');
+    expect(cell(0, 0)).toHaveFocus();
+    expect(cell(0, 0)).toHaveAttribute('tabindex', '0');
+  });
+
+  it('should handle Home, End, Ctrl+Home and Ctrl+End', () => {
+    render(<Grid />);
+    act(() => cell(1, 1).focus());
+
+    press('End');
+    expect(cell(1, 2)).toHaveFocus();
+    press('Home');
+    expect(cell(1, 0)).toHaveFocus();
+    press('End', { ctrlKey: true });
+    expect(cell(3, 2)).toHaveFocus();
+    press('Home', { ctrlKey: true });
+    expect(cell(0, 0)).toHaveFocus();
+  });
+
+  it('should move by pageSize rows with PageDown and PageUp', () => {
+    render(<Grid rowCount={10} pageSize={3} />);
+    act(() => cell(0, 1).focus());
+
+    press('PageDown');
+    expect(cell(3, 1)).toHaveFocus();
+    press('PageDown');
+    press('PageDown');
+    press('PageDown');
+    expect(cell(9, 1)).toHaveFocus();
+    press('PageUp');
+    expect(cell(6, 1)).toHaveFocus();
+  });
+
+  it('should keep absolute indexes and focus rows rendered after scrolling', () => {
+    const onFocusedCellChange = vi.fn();
+    render(<Grid rowCount={100} windowSize={5} onFocusedCellChange={onFocusedCellChange} />);
+    expect(screen.getAllByRole('row')).toHaveLength(5);
+    act(() => cell(4, 0).focus());
+
+    press('ArrowDown');
+    expect(onFocusedCellChange).toHaveBeenCalledWith({ row: 5, col: 0 });
+    expect(cell(5, 0)).toHaveFocus();
+    expect(cell(5, 0).parentElement).toHaveAttribute('aria-rowindex', '6');
+    expect(screen.getByRole('grid')).toHaveAttribute('aria-rowcount', '100');
+
+    press('End', { ctrlKey: true });
+    expect(cell(99, 2)).toHaveFocus();
+    expect(screen.queryByText(cellText(0, 0))).not.toBeInTheDocument();
+  });
+
+  it('should focus rows in row mode and expand treegrid rows', () => {
+    const onRowExpandedChange = vi.fn();
+    const TreeGrid = () => {
+      const grid = useGrid({
+        rowCount: 2,
+        colCount: 2,
+        focusMode: 'row',
+        treegrid: true,
+        onRowExpandedChange,
+      });
+      return (
+        <div {...grid.getGridProps()} aria-label="Threads">
+          <div {...grid.getRowProps(0, { level: 1, posinset: 1, setsize: 2, expanded: false })}>
+            <div {...grid.getCellProps(0, 0)}>Inbox</div>
+          </div>
+          <div {...grid.getRowProps(1, { level: 1, posinset: 2, setsize: 2 })}>
+            <div {...grid.getCellProps(1, 0)}>Sent</div>
+          </div>
+        </div>
+      );
+    };
+    render(<TreeGrid />);
+    const [inbox, sent] = screen.getAllByRole('row') as [HTMLElement, HTMLElement];
+
+    expect(screen.getByRole('treegrid')).toBeInTheDocument();
+    expect(inbox).toHaveAttribute('aria-level', '1');
+    expect(inbox).toHaveAttribute('aria-expanded', 'false');
+    expect(sent).not.toHaveAttribute('aria-expanded');
+    expect(inbox).toHaveAttribute('tabindex', '0');
+    expect(screen.getByText('Inbox')).toHaveAttribute('tabindex', '-1');
+
+    act(() => inbox.focus());
+    press('ArrowRight');
+    expect(onRowExpandedChange).toHaveBeenCalledWith(0, true);
+    press('ArrowLeft');
+    expect(onRowExpandedChange).toHaveBeenCalledTimes(1);
+
+    press('ArrowDown');
+    expect(sent).toHaveFocus();
+  });
+
+  it('should move between rows and their cells in a treegrid', () => {
+    const onRowExpandedChange = vi.fn();
+    const TreeGrid = () => {
+      const grid = useGrid({
+        rowCount: 3,
+        colCount: 2,
+        focusMode: 'row',
+        treegrid: true,
+        onRowExpandedChange,
+      });
+      return (
+        <div {...grid.getGridProps()} aria-label="Threads">
+          <div {...grid.getRowProps(0, { level: 1, expanded: true })}>
+            <div {...grid.getCellProps(0, 0)}>Inbox</div>
+            <div {...grid.getCellProps(0, 1)}>2 unread</div>
+          </div>
+          <div {...grid.getRowProps(1, { level: 2 })}>
+            <div {...grid.getCellProps(1, 0)}>Welcome</div>
+            <div {...grid.getCellProps(1, 1)}>Today</div>
+          </div>
+          <div {...grid.getRowProps(2, { level: 2 })}>
+            <div {...grid.getCellProps(2, 0)}>Invoice</div>
+            <div {...grid.getCellProps(2, 1)}>Yesterday</div>
+          </div>
+        </div>
+      );
+    };
+    render(<TreeGrid />);
+    const [inbox, welcome, invoice] = screen.getAllByRole('row') as [
+      HTMLElement,
+      HTMLElement,
+      HTMLElement,
+    ];
+
+    act(() => inbox.focus());
+    press('ArrowRight');
+    expect(screen.getByText('Inbox')).toHaveFocus();
+    expect(inbox).toHaveAttribute('tabindex', '-1');
+    press('ArrowRight');
+    expect(screen.getByText('2 unread')).toHaveFocus();
+    press('ArrowLeft');
+    press('ArrowLeft');
+    expect(inbox).toHaveFocus();
+    expect(inbox).toHaveAttribute('tabindex', '0');
+
+    press('ArrowDown');
+    press('ArrowDown');
+    expect(invoice).toHaveFocus();
+    press('ArrowRight');
+    expect(screen.getByText('Invoice')).toHaveFocus();
+    press('ArrowLeft');
+    expect(invoice).toHaveFocus();
+    press('ArrowLeft');
+    expect(inbox).toHaveFocus();
+    expect(welcome).toHaveAttribute('tabindex', '-1');
+    expect(onRowExpandedChange).not.toHaveBeenCalled();
+  });
+
+  it('should add span attributes', () => {
+    const Spanning = () => {
+      const grid = useGrid({ rowCount: 1, colCount: 3 });
+      return (
+        <div {...grid.getGridProps()} aria-label="Totals">
+          <div {...grid.getRowProps(0)}>
+            <div {...grid.getCellProps(0, 0, { colSpan: 2 })}>Total</div>
+          </div>
+        </div>
+      );
+    };
+    render(<Spanning />);
+
+    expect(screen.getByRole('gridcell')).toHaveAttribute('aria-colspan', '2');
+    expect(screen.getByRole('gridcell')).not.toHaveAttribute('aria-rowspan');
+  });
+
+  it('should move focus to and past spanning cells', () => {
+    const Spanning = () => {
+      const grid = useGrid({ rowCount: 3, colCount: 3 });
+      const cells: Array<[number, number, string, { colSpan?: number; rowSpan?: number }]> = [
+        [0, 0, 'A', {}],
+        [0, 1, 'Wide', { colSpan: 2 }],
+        [1, 0, 'Tall', { rowSpan: 2 }],
+        [1, 1, 'B', {}],
+        [1, 2, 'C', {}],
+        [2, 1, 'D', {}],
+        [2, 2, 'E', {}],
+      ];
+      return (
+        <div {...grid.getGridProps()} aria-label="Totals">
+          {[0, 1, 2].map((row) => (
+            <div key={row} {...grid.getRowProps(row)}>
+              {cells
+                .filter(([cellRow]) => cellRow === row)
+                .map(([, col, text, span]) => (
+                  <div key={col} {...grid.getCellProps(row, col, span)}>
+                    {text}
+                  </div>
+                ))}
+            </div>
+          ))}
+        </div>
+      );
+    };
+    render(<Spanning />);
+    const byText = (text: string) => screen.getByText(text);
+    act(() => byText('C').focus());
+
+    press('ArrowUp');
+    expect(byText('Wide')).toHaveFocus();
+    expect(byText('Wide')).toHaveAttribute('tabindex', '0');
+    press('ArrowLeft');
+    expect(byText('A')).toHaveFocus();
+    press('ArrowRight');
+    press('ArrowRight');
+    expect(byText('Wide')).toHaveFocus();
+
+    act(() => byText('D').focus());
+    press('Home');
+    expect(byText('Tall')).toHaveFocus();
+    expect(screen.getAllByRole('gridcell').filter((el) => el.tabIndex === 0)).toEqual([
+      byText('Tall'),
+    ]);
+    press('ArrowRight');
+    expect(byText('B')).toHaveFocus();
+    press('ArrowLeft');
+    press('ArrowDown');
+    expect(byText('Tall')).toHaveFocus();
+  });
+
+  it('should use spans and levels of memoized rows that did not re-render', () => {
+    // Only rows whose focus state changed re-render
+    const Row = memo(
+      ({ grid, row }: { grid: UseGridResult; row: number; focusedCol: number }) => (
+        <div {...grid.getRowProps(row, { level: row === 0 ? 1 : 2 })}>
+          {row === 0 ? (
+            <div {...grid.getCellProps(0, 0, { colSpan: 2 })}>Wide</div>
+          ) : (
+            <>
+              <div {...grid.getCellProps(row, 0)}>{`Left ${row}`}</div>
+              <div {...grid.getCellProps(row, 1)}>{`Right ${row}`}</div>
+            </>
+          )}
+        </div>
+      ),
+      (previous, next) => previous.row === next.row && previous.focusedCol === next.focusedCol
+    );
+    const Memoized = () => {
+      const grid = useGrid({ rowCount: 3, colCount: 2, focusMode: 'row', treegrid: true });
+      const { focusedCell } = grid;
+      return (
+        <div {...grid.getGridProps()} aria-label="Totals">
+          {[0, 1, 2].map((row) => (
+            <Row
+              key={row}
+              grid={grid}
+              row={row}
+              focusedCol={focusedCell.row === row ? focusedCell.col : -1}
+            />
+          ))}
+        </div>
+      );
+    };
+    render(<Memoized />);
+    const rows = screen.getAllByRole('row');
+
+    act(() => screen.getByText('Right 2').focus());
+    press('ArrowUp');
+    press('ArrowUp');
+    expect(screen.getByText('Wide')).toHaveFocus();
+
+    act(() => rows[2]?.focus());
+    press('ArrowLeft');
+    expect(rows[0]).toHaveFocus();
+  });
+});
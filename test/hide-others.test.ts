@@ -0,0 +1,173 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { hideOthers } from '../src/index';
+
+const setup = () => {
+  document.body.innerHTML = `
+    <header id="header">Header</header>
+    <main id="main">
+      <p id="content">Content</p>
+      <div id="status" role="status"></div>
+      <div id="modal">Modal</div>
+    </main>
+    <div id="drawer">Drawer</div>
+  `;
+  const byId = (id: string) => document.getElementById(id) as HTMLElement;
+  return byId;
+};
+
+const flushMutations = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('hideOthers', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should hide siblings of the target and its ancestors, keeping live regions exposed', () => {
+    const byId = setup();
+    const undo = hideOthers(byId('modal'));
+
+    expect(byId('header')).toHaveAttribute('aria-hidden', 'true');
+    expect(byId('drawer')).toHaveAttribute('aria-hidden', 'true');
+    expect(byId('content')).toHaveAttribute('aria-hidden', 'true');
+    expect(byId('main')).not.toHaveAttribute('aria-hidden');
+    expect(byId('modal')).not.toHaveAttribute('aria-hidden');
+    expect(byId('status')).not.toHaveAttribute('aria-hidden');
+
+    undo();
+    expect(document.querySelectorAll('[aria-hidden]')).toHaveLength(0);
+  });
+
+  it('should restore previous values exactly', () => {
+    const byId = setup();
+    byId('header').setAttribute('aria-hidden', 'false');
+    byId('drawer').setAttribute('aria-hidden', 'true');
+
+    const undo = hideOthers(byId('modal'));
+    expect(byId('header')).toHaveAttribute('aria-hidden', 'true');
+    undo();
+
+    expect(byId('header')).toHaveAttribute('aria-hidden', 'false');
+    expect(byId('drawer')).toHaveAttribute('aria-hidden', 'true');
+    expect(byId('content')).not.toHaveAttribute('aria-hidden');
+  });
+
+  it('should reference count overlapping layers undone in any order', () => {
+    const byId = setup();
+    const undoBoth = hideOthers([byId('modal'), byId('drawer')]);
+    expect(byId('drawer')).not.toHaveAttribute('aria-hidden');
+    const undoModal = hideOthers(byId('modal'));
+    expect(byId('drawer')).toHaveAttribute('aria-hidden', 'true');
+
+    undoBoth();
+    expect(byId('header')).toHaveAttribute('aria-hidden', 'true');
+    expect(byId('drawer')).toHaveAttribute('aria-hidden', 'true');
+    undoModal();
+    expect(document.querySelectorAll('[aria-hidden]')).toHaveLength(0);
+
+    undoModal();
+    expect(document.querySelectorAll('[aria-hidden]')).toHaveLength(0);
+  });
+
+  it('should hide elements added while active, except live regions', async () => {
+    const byId = setup();
+    const undo = hideOthers(byId('modal'));
+
+    const portal = document.createElement('div');
+    const toast = document.createElement('div');
+    toast.setAttribute('aria-live', 'polite');
+    document.body.append(portal, toast);
+    await flushMutations();
+
+    expect(portal).toHaveAttribute('aria-hidden', 'true');
+    expect(toast).not.toHaveAttribute('aria-hidden');
+    undo();
+    expect(portal).not.toHaveAttribute('aria-hidden');
+  });
+
+  it('should expose a live region added inside a hidden element', async () => {
+    const byId = setup();
+    const undo = hideOthers(byId('modal'));
+    expect(byId('header')).toHaveAttribute('aria-hidden', 'true');
+
+    const logo = document.createElement('span');
+    const alert = document.createElement('div');
+    alert.setAttribute('role', 'alert');
+    byId('header').append(logo, alert);
+    await flushMutations();
+
+    expect(byId('header')).not.toHaveAttribute('aria-hidden');
+    expect(alert).not.toHaveAttribute('aria-hidden');
+    expect(logo).toHaveAttribute('aria-hidden', 'true');
+    undo();
+    expect(document.querySelectorAll('[aria-hidden]')).toHaveLength(0);
+  });
+
+  it('should keep elements the target owns exposed, including ones added later', async () => {
+    const byId = setup();
+    byId('modal').setAttribute('aria-owns', 'drawer');
+    const undo = hideOthers(byId('modal'));
+    expect(byId('drawer')).not.toHaveAttribute('aria-hidden');
+
+    const input = document.createElement('input');
+    input.setAttribute('aria-controls', 'popup');
+    byId('modal').append(input);
+    const portal = document.createElement('div');
+    portal.innerHTML = '<ul id="popup" role="listbox"></ul><p id="toast">Saved</p>';
+    document.body.append(portal);
+    await flushMutations();
+
+    expect(portal).not.toHaveAttribute('aria-hidden');
+    expect(byId('popup')).not.toHaveAttribute('aria-hidden');
+    expect(byId('toast')).toHaveAttribute('aria-hidden', 'true');
+    expect(byId('header')).toHaveAttribute('aria-hidden', 'true');
+    undo();
+    expect(document.querySelectorAll('[aria-hidden]')).toHaveLength(0);
+  });
+
+  it('should expose an element once the target starts to own it', async () => {
+    const byId = setup();
+    const undo = hideOthers(byId('modal'));
+    expect(byId('drawer')).toHaveAttribute('aria-hidden', 'true');
+
+    byId('modal').setAttribute('aria-controls', 'drawer');
+    await flushMutations();
+
+    expect(byId('drawer')).not.toHaveAttribute('aria-hidden');
+    expect(byId('header')).toHaveAttribute('aria-hidden', 'true');
+    undo();
+  });
+
+  it('should let only the most recent layer hide added elements', async () => {
+    const byId = setup();
+    const undoModal = hideOthers(byId('modal'));
+    const nested = document.createElement('div');
+    document.body.append(nested);
+    const undoNested = hideOthers(nested);
+    await flushMutations();
+
+    expect(nested).not.toHaveAttribute('aria-hidden');
+    expect(byId('modal')).toHaveAttribute('aria-hidden', 'true');
+
+    const late = document.createElement('div');
+    document.body.append(late);
+    undoNested();
+    await flushMutations();
+    expect(byId('modal')).not.toHaveAttribute('aria-hidden');
+    expect(late).toHaveAttribute('aria-hidden', 'true');
+
+    undoModal();
+    expect(document.querySelectorAll('[aria-hidden]')).toHaveLength(0);
+  });
+
+  it('should use inert where it is supported', () => {
+    Object.defineProperty(HTMLElement.prototype, 'inert', { configurable: true, value: false });
+    const byId = setup();
+    const undo = hideOthers(byId('modal'), { inert: true });
+
+    expect(byId('header')).toHaveAttribute('inert');
+    expect(byId('header')).not.toHaveAttribute('aria-hidden');
+    undo();
+    expect(byId('header')).not.toHaveAttribute('inert');
+    delete (HTMLElement.prototype as { inert?: boolean }).inert;
+  });
+});
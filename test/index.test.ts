@@ -13,10 +13,13 @@ import {
   createSelectedProps,
   createCheckedProps,
   mergeA11yProps,
+  mergeA11yPropsWith,
   createDialogTriggerProps,
   createFormFieldProps,
   createDescribedByProps,
   createLabelledByProps,
+  validateA11yProps,
+  type AccessibilityProps,
 } from '../src/index';
 
 describe('Screen Reader Utilities', () => {
@@ -171,6 +174,74 @@ describe('Factory Functions', () => {
       );
       expect(merged['aria-label']).toBe('Second');
     });
+
+    it('should concatenate and de-duplicate ID reference lists', () => {
+      const merged = mergeA11yProps(
+        createDescribedByProps('hint'),
+        createDescribedByProps('error hint'),
+        { 'aria-labelledby': 'a' },
+        { 'aria-labelledby': 'b' },
+        { 'aria-controls': 'x', 'aria-owns': 'o1', 'aria-flowto': 'f1' },
+        { 'aria-controls': 'y', 'aria-owns': 'o2', 'aria-flowto': 'f2' }
+      );
+      expect(merged['aria-describedby']).toBe('hint error');
+      expect(merged['aria-labelledby']).toBe('a b');
+      expect(merged['aria-controls']).toBe('x y');
+      expect(merged['aria-owns']).toBe('o1 o2');
+      expect(merged['aria-flowto']).toBe('f1 f2');
+    });
+
+    it('should chain event handlers in order', () => {
+      const calls: string[] = [];
+      const merged = mergeA11yProps(
+        { onClick: (value: string) => calls.push(`first:${value}`) },
+        { onClick: (value: string) => calls.push(`second:${value}`) }
+      );
+      merged.onClick('event');
+      expect(calls).toEqual(['first:event', 'second:event']);
+    });
+
+    it('should combine className and style', () => {
+      const merged = mergeA11yProps(
+        { className: 'btn', style: { color: 'red', margin: 0 } },
+        { className: 'btn btn-primary', style: { color: 'blue' } }
+      );
+      expect(merged.className).toBe('btn btn-primary');
+      expect(merged.style).toEqual({ color: 'blue', margin: 0 });
+    });
+
+    it('should skip null, undefined and undefined values', () => {
+      const merged = mergeA11yProps(
+        { 'aria-label': 'Label' },
+        null,
+        undefined,
+        { 'aria-label': undefined }
+      );
+      expect(merged['aria-label']).toBe('Label');
+    });
+  });
+
+  describe('mergeA11yPropsWith', () => {
+    it('should override keys listed in override', () => {
+      const onClick = () => {};
+      const merged = mergeA11yPropsWith(
+        { override: ['aria-describedby', 'onClick'] },
+        { 'aria-describedby': 'hint', 'aria-labelledby': 'a', onClick: () => {} },
+        { 'aria-describedby': 'error', 'aria-labelledby': 'b', onClick }
+      );
+      expect(merged['aria-describedby']).toBe('error');
+      expect(merged['aria-labelledby']).toBe('a b');
+      expect(merged.onClick).toBe(onClick);
+    });
+
+    it('should not let undefined values replace override keys', () => {
+      const merged = mergeA11yPropsWith(
+        { override: ['aria-describedby'] },
+        { 'aria-describedby': 'hint' },
+        { 'aria-describedby': undefined }
+      );
+      expect(merged['aria-describedby']).toBe('hint');
+    });
   });
 
   describe('createDialogTriggerProps', () => {
@@ -356,3 +427,43 @@ describe('Factory Functions', () => {
     });
   });
 });
+
+describe('AccessibilityProps', () => {
+  it('should accept booleans for boolean and tri-state attributes', () => {
+    const props: AccessibilityProps = {
+      'aria-hidden': true,
+      'aria-expanded': false,
+      'aria-checked': 'mixed',
+      'aria-pressed': true,
+      'aria-invalid': true,
+      'aria-current': true,
+    };
+    expect(validateA11yProps(props).valid).toBe(true);
+  });
+
+  it('should accept aria-relevant token lists', () => {
+    const props: AccessibilityProps = { 'aria-relevant': 'additions text' };
+    expect(createLiveRegion({ relevant: 'additions removals' })['aria-relevant']).toBe(
+      'additions removals'
+    );
+    expect(validateA11yProps(props).valid).toBe(true);
+
+    // @ts-expect-error - not an aria-relevant token
+    const invalid: AccessibilityProps = { 'aria-relevant': 'additions everything' };
+    expect(validateA11yProps(invalid).valid).toBe(false);
+  });
+
+  it('should include the ARIA 1.3 attributes', () => {
+    const props: AccessibilityProps = {
+      'aria-description': 'Opens in a new window',
+      'aria-braillelabel': 'Save',
+      'aria-brailleroledescription': 'btn',
+    };
+    expect(validateA11yProps({ role: 'button', ...props }).valid).toBe(true);
+    expect(
+      validateA11yProps({ role: 'cell', 'aria-colindextext': 'B', 'aria-rowindextext': '2' })
+        .valid
+    ).toBe(true);
+    expect(validateA11yProps({ role: 'button', 'aria-colindextext': 'B' }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { createListboxProps, useListbox, type UseListboxOptions } from '../src/index';
+
+const TOPPINGS = ['Cheese', 'Ham', 'Mushrooms', 'Olives', 'Onions', 'Peppers'];
+
+const Toppings = (props: Partial<UseListboxOptions<string>>) => {
+  const listbox = useListbox({ items: TOPPINGS, ...props });
+  return (
+    <ul {...listbox.getListboxProps()} aria-label="Toppings">
+      {TOPPINGS.map((topping, index) => (
+        <li key={topping} {...listbox.getOptionProps(index)}>
+          {topping}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const selected = () =>
+  screen
+    .getAllByRole('option')
+    .filter((option) => option.getAttribute('aria-selected') === 'true')
+    .map((option) => option.textContent);
+
+describe('createListboxProps', () => {
+  it('should create listbox props', () => {
+    expect(createListboxProps()).toEqual({ role: 'listbox' });
+    expect(
+      createListboxProps({
+        multiselectable: true,
+        orientation: 'horizontal',
+        activeDescendantId: 'opt-2',
+      })
+    ).toEqual({
+      role: 'listbox',
+      'aria-multiselectable': 'true',
+      'aria-orientation': 'horizontal',
+      'aria-activedescendant': 'opt-2',
+    });
+  });
+});
+
+describe('useListbox', () => {
+  describe('single selection', () => {
+    it('should give the first option the tab stop', () => {
+      render(<Toppings />);
+      const options = screen.getAllByRole('option');
+      expect(options[0]).toHaveAttribute('tabindex', '0');
+      expect(options[1]).toHaveAttribute('tabindex', '-1');
+      expect(screen.getByRole('listbox')).not.toHaveAttribute('aria-multiselectable');
+    });
+
+    it('should give the selected option the tab stop', () => {
+      render(<Toppings defaultSelectedKeys={['Olives']} />);
+      expect(screen.getByText('Olives')).toHaveAttribute('tabindex', '0');
+      expect(screen.getByText('Olives')).toHaveAttribute('aria-selected', 'true');
+    });
+
+    it('should move focus with the arrow keys, Home and End', () => {
+      render(<Toppings />);
+      const options = screen.getAllByRole('option');
+      act(() => options[0]!.focus());
+
+      fireEvent.keyDown(options[0]!, { key: 'ArrowDown' });
+      expect(options[1]).toHaveFocus();
+      fireEvent.keyDown(options[1]!, { key: 'End' });
+      expect(options[5]).toHaveFocus();
+      fireEvent.keyDown(options[5]!, { key: 'ArrowDown' });
+      expect(options[5]).toHaveFocus();
+      fireEvent.keyDown(options[5]!, { key: 'Home' });
+      expect(options[0]).toHaveFocus();
+      expect(selected()).toEqual([]);
+    });
+
+    it('should select with Space and click', () => {
+      const onSelectionChange = vi.fn();
+      render(<Toppings onSelectionChange={onSelectionChange} />);
+      const options = screen.getAllByRole('option');
+
+      fireEvent.keyDown(options[0]!, { key: ' ' });
+      expect(selected()).toEqual(['Cheese']);
+      fireEvent.click(options[2]!);
+      expect(selected()).toEqual(['Mushrooms']);
+      expect(onSelectionChange).toHaveBeenLastCalledWith(['Mushrooms']);
+    });
+
+    it('should select on focus when selection follows focus', () => {
+      render(<Toppings selectionFollowsFocus />);
+      const options = screen.getAllByRole('option');
+      fireEvent.keyDown(options[0]!, { key: 'ArrowDown' });
+      expect(selected()).toEqual(['Ham']);
+    });
+
+    it('should skip disabled options', () => {
+      render(<Toppings isItemDisabled={(item) => item === 'Ham'} />);
+      const options = screen.getAllByRole('option');
+      fireEvent.keyDown(options[0]!, { key: 'ArrowDown' });
+      expect(options[2]).toHaveFocus();
+      expect(options[1]).toHaveAttribute('aria-disabled', 'true');
+    });
+
+    it('should not select a disabled option that was clicked and focused', () => {
+      render(<Toppings isItemDisabled={(item) => item === 'Ham'} />);
+      const options = screen.getAllByRole('option');
+
+      fireEvent.click(options[1]!);
+      act(() => options[1]!.focus());
+      fireEvent.keyDown(options[1]!, { key: ' ' });
+      expect(selected()).toEqual([]);
+    });
+  });
+
+  describe('multiple selection', () => {
+    it('should toggle options with Space', () => {
+      render(<Toppings multiple />);
+      const options = screen.getAllByRole('option');
+      expect(screen.getByRole('listbox')).toHaveAttribute('aria-multiselectable', 'true');
+
+      fireEvent.keyDown(options[0]!, { key: ' ' });
+      fireEvent.keyDown(options[0]!, { key: 'ArrowDown' });
+      fireEvent.keyDown(options[1]!, { key: ' ' });
+      expect(selected()).toEqual(['Cheese', 'Ham']);
+      fireEvent.keyDown(options[1]!, { key: ' ' });
+      expect(selected()).toEqual(['Cheese']);
+    });
+
+    it('should select a range with Shift+Arrow from the anchor', () => {
+      render(<Toppings multiple />);
+      const options = screen.getAllByRole('option');
+
+      fireEvent.click(options[1]!);
+      fireEvent.keyDown(options[1]!, { key: 'ArrowDown', shiftKey: true });
+      fireEvent.keyDown(options[2]!, { key: 'ArrowDown', shiftKey: true });
+      expect(selected()).toEqual(['Ham', 'Mushrooms', 'Olives']);
+
+      fireEvent.keyDown(options[3]!, { key: 'ArrowUp', shiftKey: true });
+      expect(selected()).toEqual(['Ham', 'Mushrooms']);
+    });
+
+    it('should select a range with Shift+Space and Shift+click', () => {
+      render(<Toppings multiple />);
+      const options = screen.getAllByRole('option');
+
+      fireEvent.click(options[4]!);
+      fireEvent.click(options[2]!, { shiftKey: true });
+      expect(selected()).toEqual(['Mushrooms', 'Olives', 'Onions']);
+
+      fireEvent.keyDown(options[2]!, { key: 'End' });
+      fireEvent.keyDown(options[5]!, { key: ' ', shiftKey: true });
+      expect(selected()).toEqual(['Onions', 'Peppers']);
+    });
+
+    it('should select to the first or last option with Ctrl+Shift+Home/End', () => {
+      render(<Toppings multiple />);
+      const options = screen.getAllByRole('option');
+      act(() => options[2]!.focus());
+
+      fireEvent.keyDown(options[2]!, { key: 'End', ctrlKey: true, shiftKey: true });
+      expect(selected()).toEqual(['Mushrooms', 'Olives', 'Onions', 'Peppers']);
+      expect(options[5]).toHaveFocus();
+    });
+
+    it('should select all with Ctrl+A, then none', () => {
+      render(<Toppings multiple isItemDisabled={(item) => item === 'Ham'} />);
+      const options = screen.getAllByRole('option');
+
+      fireEvent.keyDown(options[0]!, { key: 'a', ctrlKey: true });
+      expect(selected()).toEqual(['Cheese', 'Mushrooms', 'Olives', 'Onions', 'Peppers']);
+      fireEvent.keyDown(options[0]!, { key: 'a', ctrlKey: true });
+      expect(selected()).toEqual([]);
+    });
+  });
+
+  describe('type-ahead', () => {
+    it('should focus the next option starting with the typed characters', () => {
+      render(<Toppings />);
+      const options = screen.getAllByRole('option');
+      act(() => options[0]!.focus());
+
+      fireEvent.keyDown(options[0]!, { key: 'o' });
+      expect(options[3]).toHaveFocus();
+      fireEvent.keyDown(options[3]!, { key: 'n' });
+      expect(options[4]).toHaveFocus();
+    });
+
+    it('should cycle through options when the same character is repeated', () => {
+      vi.useFakeTimers();
+      render(<Toppings />);
+      const options = screen.getAllByRole('option');
+
+      fireEvent.keyDown(options[0]!, { key: 'o' });
+      expect(options[3]).toHaveFocus();
+      fireEvent.keyDown(options[3]!, { key: 'o' });
+      expect(options[4]).toHaveFocus();
+
+      act(() => vi.advanceTimersByTime(1000));
+      fireEvent.keyDown(options[4]!, { key: 'p' });
+      expect(options[5]).toHaveFocus();
+      vi.useRealTimers();
+    });
+  });
+
+  describe('aria-activedescendant', () => {
+    it('should keep focus on the listbox and point at the focused option', () => {
+      render(<Toppings focusStrategy="activedescendant" defaultSelectedKeys={['Ham']} />);
+      const listbox = screen.getByRole('listbox');
+      const options = screen.getAllByRole('option');
+
+      expect(listbox).toHaveAttribute('tabindex', '0');
+      expect(options[0]).not.toHaveAttribute('tabindex');
+      expect(listbox).not.toHaveAttribute('aria-activedescendant');
+
+      act(() => listbox.focus());
+      expect(listbox).toHaveAttribute('aria-activedescendant', options[1]!.id);
+
+      fireEvent.keyDown(listbox, { key: 'ArrowDown' });
+      expect(listbox).toHaveFocus();
+      expect(listbox).toHaveAttribute('aria-activedescendant', options[2]!.id);
+
+      fireEvent.keyDown(listbox, { key: ' ' });
+      expect(selected()).toEqual(['Mushrooms']);
+    });
+  });
+});
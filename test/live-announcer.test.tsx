@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, act, renderHook } from '@testing-library/react';
+import React from 'react';
+import { LiveAnnouncerProvider, useAnnounce, type AnnounceFunction } from '../src/index';
+
+const renderAnnouncer = (props: Partial<React.ComponentProps<typeof LiveAnnouncerProvider>> = {}) => {
+  let announce: AnnounceFunction = () => {};
+  const Capture = () => {
+    announce = useAnnounce();
+    return null;
+  };
+  const utils = render(
+    <LiveAnnouncerProvider {...props}>
+      <Capture />
+    </LiveAnnouncerProvider>
+  );
+  const region = (politeness: 'polite' | 'assertive') =>
+    utils.container.querySelector(`[data-live-announcer="${politeness}"]`) as HTMLElement;
+  return { ...utils, announce: (...args: Parameters<AnnounceFunction>) => act(() => announce(...args)), region };
+};
+
+describe('LiveAnnouncerProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pre-mount empty polite and assertive regions', () => {
+    const { region } = renderAnnouncer();
+
+    expect(region('polite').getAttribute('aria-live')).toBe('polite');
+    expect(region('assertive').getAttribute('aria-live')).toBe('assertive');
+    expect(region('polite').textContent).toBe('');
+    expect(region('assertive').textContent).toBe('');
+  });
+
+  it('should apply live region options to each region', () => {
+    const { region } = renderAnnouncer({ politeOptions: { atomic: true, relevant: 'all' } });
+
+    expect(region('polite').getAttribute('aria-atomic')).toBe('true');
+    expect(region('polite').getAttribute('aria-relevant')).toBe('all');
+    expect(region('assertive').getAttribute('aria-atomic')).toBe('false');
+  });
+
+  it('should visually hide the regions', () => {
+    const { region } = renderAnnouncer();
+    expect(region('polite').style.position).toBe('absolute');
+    expect(region('polite').style.width).toBe('1px');
+  });
+
+  it('should route messages by politeness', () => {
+    const { announce, region } = renderAnnouncer();
+
+    announce('Saved');
+    announce('Connection lost', { politeness: 'assertive' });
+
+    expect(region('polite').textContent).toBe('Saved');
+    expect(region('assertive').textContent).toBe('Connection lost');
+  });
+
+  it('should queue messages in order', () => {
+    const { announce, region } = renderAnnouncer();
+
+    announce('First');
+    announce('Second');
+
+    const messages = Array.from(region('polite').children).map((node) => node.textContent);
+    expect(messages).toEqual(['First', 'Second']);
+  });
+
+  it('should drop identical consecutive messages', () => {
+    const { announce, region } = renderAnnouncer();
+
+    announce('Saved');
+    announce('Saved');
+
+    expect(region('polite').children).toHaveLength(1);
+  });
+
+  it('should ignore empty messages', () => {
+    const { announce, region } = renderAnnouncer();
+    announce('   ');
+    expect(region('polite').children).toHaveLength(0);
+  });
+
+  it('should clear messages after the timeout', () => {
+    vi.useFakeTimers();
+    const { announce, region } = renderAnnouncer({ clearAfter: 1000 });
+
+    announce('Saved');
+    announce('Urgent', { politeness: 'assertive', clearAfter: 3000 });
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(region('polite').textContent).toBe('');
+    expect(region('assertive').textContent).toBe('Urgent');
+
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(region('assertive').textContent).toBe('');
+  });
+
+  it('should announce the same message again once it has been cleared', () => {
+    vi.useFakeTimers();
+    const { announce, region } = renderAnnouncer({ clearAfter: 500 });
+
+    announce('Saved');
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    announce('Saved');
+
+    expect(region('polite').textContent).toBe('Saved');
+  });
+});
+
+describe('useAnnounce', () => {
+  it('should throw outside of a LiveAnnouncerProvider', () => {
+    const spy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => renderHook(() => useAnnounce())).toThrow(
+      'useAnnounce must be used within a LiveAnnouncerProvider'
+    );
+    spy.mockRestore();
+  });
+});
@@ -0,0 +1,305 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { useState } from 'react';
+import {
+  createMenuButtonProps,
+  useMenuButton,
+  useMenubar,
+  type MenuItemDefinition,
+  type UseMenuButtonResult,
+  type UseMenubarResult,
+} from '../src/index';
+
+type ItemPropsGetter = UseMenuButtonResult['getItemProps'];
+type MenuPropsGetter = (parentId: string) => ReturnType<UseMenubarResult['getMenuProps']>;
+
+const MenuItems = ({
+  items,
+  getItemProps,
+  getMenuProps,
+}: {
+  items: MenuItemDefinition[];
+  getItemProps: ItemPropsGetter;
+  getMenuProps: MenuPropsGetter;
+}) => (
+  <>
+    {items.map((item) => (
+      <li key={item.id} role="none">
+        <span {...getItemProps(item.id)}>{item.label}</span>
+        {item.items && (
+          <ul {...getMenuProps(item.id)}>
+            <MenuItems items={item.items} getItemProps={getItemProps} getMenuProps={getMenuProps} />
+          </ul>
+        )}
+      </li>
+    ))}
+  </>
+);
+
+const EditMenu = ({ onAction }: { onAction?: (id: string) => void }) => {
+  const [wrap, setWrap] = useState(false);
+  const [size, setSize] = useState('medium');
+  const items: MenuItemDefinition[] = [
+    { id: 'cut', label: 'Cut' },
+    { id: 'copy', label: 'Copy', disabled: true },
+    { id: 'paste', label: 'Paste' },
+    { id: 'wrap', label: 'Word wrap', type: 'checkbox', checked: wrap },
+    {
+      id: 'size',
+      label: 'Size',
+      items: [
+        { id: 'small', label: 'Small', type: 'radio', checked: size === 'small' },
+        { id: 'medium', label: 'Medium', type: 'radio', checked: size === 'medium' },
+        { id: 'large', label: 'Large', type: 'radio', checked: size === 'large' },
+      ],
+    },
+  ];
+  const menu = useMenuButton({
+    items,
+    onAction,
+    onCheckedChange: (id, checked) => (id === 'wrap' ? setWrap(checked) : setSize(id)),
+  });
+
+  return (
+    <div>
+      <button {...menu.getButtonProps()}>Edit</button>
+      <ul {...menu.getMenuProps()}>
+        <MenuItems
+          items={items}
+          getItemProps={menu.getItemProps}
+          getMenuProps={menu.getMenuProps}
+        />
+      </ul>
+      <button>Outside</button>
+    </div>
+  );
+};
+
+const item = (name: string) => screen.getByText(name);
+
+describe('createMenuButtonProps', () => {
+  it('should create menu button props', () => {
+    expect(createMenuButtonProps('menu', false)).toEqual({
+      'aria-haspopup': 'menu',
+      'aria-expanded': 'false',
+      'aria-controls': 'menu',
+    });
+    expect(createMenuButtonProps('menu', true)['aria-expanded']).toBe('true');
+  });
+});
+
+describe('useMenuButton', () => {
+  it('should link the button and the menu', () => {
+    render(<EditMenu />);
+    const button = screen.getByRole('button', { name: 'Edit' });
+    const [menu] = screen.getAllByRole('menu', { hidden: true });
+
+    expect(button).toHaveAttribute('aria-haspopup', 'menu');
+    expect(button).toHaveAttribute('aria-controls', menu!.id);
+    expect(button).toHaveAttribute('aria-expanded', 'false');
+    expect(menu).toHaveAttribute('aria-labelledby', button.id);
+    expect(menu).not.toBeVisible();
+  });
+
+  it('should open on ArrowDown and focus the first item', () => {
+    render(<EditMenu />);
+    const button = screen.getByRole('button', { name: 'Edit' });
+
+    fireEvent.keyDown(button, { key: 'ArrowDown' });
+    expect(button).toHaveAttribute('aria-expanded', 'true');
+    expect(item('Cut')).toHaveFocus();
+    expect(item('Cut')).toHaveAttribute('role', 'menuitem');
+    expect(item('Cut')).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('should open on ArrowUp and focus the last item', () => {
+    render(<EditMenu />);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Edit' }), { key: 'ArrowUp' });
+    expect(item('Size')).toHaveFocus();
+  });
+
+  it('should move between enabled items and wrap', () => {
+    render(<EditMenu />);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Edit' }), { key: 'Enter' });
+
+    fireEvent.keyDown(item('Cut'), { key: 'ArrowDown' });
+    expect(item('Paste')).toHaveFocus();
+    expect(item('Copy')).toHaveAttribute('aria-disabled', 'true');
+    fireEvent.keyDown(item('Paste'), { key: 'End' });
+    expect(item('Size')).toHaveFocus();
+    fireEvent.keyDown(item('Size'), { key: 'ArrowDown' });
+    expect(item('Cut')).toHaveFocus();
+    fireEvent.keyDown(item('Cut'), { key: 'ArrowUp' });
+    expect(item('Size')).toHaveFocus();
+  });
+
+  it('should run actions, close and return focus to the button', () => {
+    const onAction = vi.fn();
+    render(<EditMenu onAction={onAction} />);
+    const button = screen.getByRole('button', { name: 'Edit' });
+
+    fireEvent.keyDown(button, { key: 'Enter' });
+    fireEvent.keyDown(item('Cut'), { key: 'Enter' });
+    expect(onAction).toHaveBeenCalledWith('cut');
+    expect(button).toHaveAttribute('aria-expanded', 'false');
+    expect(button).toHaveFocus();
+  });
+
+  it('should toggle checkbox items with createCheckedProps', () => {
+    render(<EditMenu />);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Edit' }), { key: 'Enter' });
+    const wrap = item('Word wrap');
+
+    expect(wrap).toHaveAttribute('role', 'menuitemcheckbox');
+    expect(wrap).toHaveAttribute('aria-checked', 'false');
+    fireEvent.keyDown(wrap, { key: ' ' });
+    expect(wrap).toHaveAttribute('aria-checked', 'true');
+    // Space keeps the menu open
+    expect(screen.getByRole('button', { name: 'Edit' })).toHaveAttribute('aria-expanded', 'true');
+
+    fireEvent.keyDown(wrap, { key: 'Enter' });
+    expect(wrap).toHaveAttribute('aria-checked', 'false');
+    expect(screen.getByRole('button', { name: 'Edit' })).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('should open submenus with ArrowRight and close them with ArrowLeft', () => {
+    render(<EditMenu />);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Edit' }), { key: 'ArrowUp' });
+    const size = item('Size');
+
+    expect(size).toHaveAttribute('aria-haspopup', 'menu');
+    expect(size).toHaveAttribute('aria-expanded', 'false');
+    fireEvent.keyDown(size, { key: 'ArrowRight' });
+    expect(size).toHaveAttribute('aria-expanded', 'true');
+    expect(item('Small')).toHaveFocus();
+    expect(item('Medium')).toHaveAttribute('role', 'menuitemradio');
+    expect(item('Medium')).toHaveAttribute('aria-checked', 'true');
+
+    fireEvent.keyDown(item('Small'), { key: 'ArrowLeft' });
+    expect(size).toHaveAttribute('aria-expanded', 'false');
+    expect(size).toHaveFocus();
+  });
+
+  it('should check radio items', () => {
+    render(<EditMenu />);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Edit' }), { key: 'ArrowUp' });
+    fireEvent.keyDown(item('Size'), { key: 'Enter' });
+    fireEvent.keyDown(item('Small'), { key: ' ' });
+
+    expect(item('Small')).toHaveAttribute('aria-checked', 'true');
+    expect(item('Medium')).toHaveAttribute('aria-checked', 'false');
+  });
+
+  it('should close one level with Escape', () => {
+    render(<EditMenu />);
+    const button = screen.getByRole('button', { name: 'Edit' });
+    fireEvent.keyDown(button, { key: 'ArrowUp' });
+    fireEvent.keyDown(item('Size'), { key: 'ArrowRight' });
+
+    fireEvent.keyDown(item('Small'), { key: 'Escape' });
+    expect(item('Size')).toHaveFocus();
+    expect(button).toHaveAttribute('aria-expanded', 'true');
+
+    fireEvent.keyDown(item('Size'), { key: 'Escape' });
+    expect(button).toHaveAttribute('aria-expanded', 'false');
+    expect(button).toHaveFocus();
+  });
+
+  it('should move focus with type-ahead', () => {
+    render(<EditMenu />);
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Edit' }), { key: 'Enter' });
+    fireEvent.keyDown(item('Cut'), { key: 'w' });
+    expect(item('Word wrap')).toHaveFocus();
+  });
+
+  it('should close when clicking outside', () => {
+    render(<EditMenu />);
+    const button = screen.getByRole('button', { name: 'Edit' });
+    fireEvent.click(button);
+    expect(button).toHaveAttribute('aria-expanded', 'true');
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Outside' }));
+    expect(button).toHaveAttribute('aria-expanded', 'false');
+  });
+});
+
+describe('useMenubar', () => {
+  const items: MenuItemDefinition[] = [
+    {
+      id: 'file',
+      label: 'File',
+      items: [
+        { id: 'new', label: 'New' },
+        { id: 'open', label: 'Open' },
+      ],
+    },
+    { id: 'edit', label: 'Edit', items: [{ id: 'undo', label: 'Undo' }] },
+    { id: 'help', label: 'Help' },
+  ];
+
+  const Menubar = ({ onAction }: { onAction?: (id: string) => void }) => {
+    const menubar = useMenubar({ items, onAction });
+    return (
+      <ul {...menubar.getMenubarProps()} aria-label="Editor">
+        <MenuItems
+          items={items}
+          getItemProps={menubar.getItemProps}
+          getMenuProps={menubar.getMenuProps}
+        />
+      </ul>
+    );
+  };
+
+  it('should keep a single tab stop on the menubar items', () => {
+    render(<Menubar />);
+    expect(screen.getByRole('menubar')).toBeInTheDocument();
+    expect(item('File')).toHaveAttribute('tabindex', '0');
+    expect(item('Edit')).toHaveAttribute('tabindex', '-1');
+
+    act(() => item('File').focus());
+    fireEvent.keyDown(item('File'), { key: 'ArrowRight' });
+    expect(item('Edit')).toHaveFocus();
+    expect(item('Edit')).toHaveAttribute('tabindex', '0');
+    expect(item('File')).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('should open a menu with ArrowDown', () => {
+    render(<Menubar />);
+    fireEvent.keyDown(item('File'), { key: 'ArrowDown' });
+    expect(item('File')).toHaveAttribute('aria-expanded', 'true');
+    expect(item('New')).toHaveFocus();
+  });
+
+  it('should move to the neighbouring menu with ArrowRight and ArrowLeft', () => {
+    render(<Menubar />);
+    fireEvent.keyDown(item('File'), { key: 'ArrowDown' });
+
+    fireEvent.keyDown(item('New'), { key: 'ArrowRight' });
+    expect(item('File')).toHaveAttribute('aria-expanded', 'false');
+    expect(item('Edit')).toHaveAttribute('aria-expanded', 'true');
+    expect(item('Undo')).toHaveFocus();
+
+    fireEvent.keyDown(item('Undo'), { key: 'ArrowLeft' });
+    expect(item('New')).toHaveFocus();
+  });
+
+  it('should close the menu with Escape and focus the menubar item', () => {
+    render(<Menubar />);
+    fireEvent.keyDown(item('File'), { key: 'ArrowDown' });
+    fireEvent.keyDown(item('New'), { key: 'Escape' });
+    expect(item('File')).toHaveAttribute('aria-expanded', 'false');
+    expect(item('File')).toHaveFocus();
+  });
+
+  it('should run actions and return focus to the menubar', () => {
+    const onAction = vi.fn();
+    render(<Menubar onAction={onAction} />);
+    fireEvent.keyDown(item('File'), { key: 'ArrowDown' });
+    fireEvent.keyDown(item('New'), { key: 'ArrowDown' });
+    fireEvent.click(item('Open'));
+
+    expect(onAction).toHaveBeenCalledWith('open');
+    expect(item('File')).toHaveAttribute('aria-expanded', 'false');
+    expect(item('File')).toHaveFocus();
+  });
+});
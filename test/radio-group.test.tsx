@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { useRadioGroup, type UseRadioGroupOptions } from '../src/index';
+
+const RadioGroup = ({
+  disabledItems = [],
+  ...options
+}: UseRadioGroupOptions & { disabledItems?: string[] }) => {
+  const radios = useRadioGroup(options);
+  return (
+    <div {...radios.getRadioGroupProps()} aria-label="Shipping">
+      {['Standard', 'Express', 'Overnight'].map((item) => (
+        <div key={item} {...radios.getRadioProps(item, { disabled: disabledItems.includes(item) })}>
+          {item}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const radio = (name: string) => screen.getByRole('radio', { name });
+
+describe('useRadioGroup', () => {
+  it('should render a radiogroup with checked state and form field state', () => {
+    render(<RadioGroup defaultValue="Express" required invalid />);
+    const group = screen.getByRole('radiogroup', { name: 'Shipping' });
+
+    expect(group).toHaveAttribute('aria-required', 'true');
+    expect(group).toHaveAttribute('aria-invalid', 'true');
+    expect(radio('Express')).toHaveAttribute('aria-checked', 'true');
+    expect(radio('Standard')).toHaveAttribute('aria-checked', 'false');
+    expect(radio('Express')).toHaveAttribute('tabindex', '0');
+    expect(radio('Standard')).toHaveAttribute('tabindex', '-1');
+    expect(radio('Standard')).not.toHaveAttribute('aria-selected');
+  });
+
+  it('should put the tab stop on the first radio when none is checked', () => {
+    render(<RadioGroup />);
+
+    expect(radio('Standard')).toHaveAttribute('tabindex', '0');
+    expect(screen.getByRole('radiogroup')).toHaveAttribute('aria-required', 'false');
+  });
+
+  it('should check the focused radio as arrow keys move, wrapping around', () => {
+    const onChange = vi.fn();
+    render(<RadioGroup defaultValue="Standard" onChange={onChange} />);
+    act(() => radio('Standard').focus());
+
+    fireEvent.keyDown(radio('Standard'), { key: 'ArrowDown' });
+    expect(radio('Express')).toHaveFocus();
+    expect(radio('Express')).toHaveAttribute('aria-checked', 'true');
+
+    fireEvent.keyDown(radio('Express'), { key: 'ArrowRight' });
+    fireEvent.keyDown(radio('Overnight'), { key: 'ArrowRight' });
+    expect(radio('Standard')).toHaveFocus();
+    expect(onChange.mock.calls.map(([value]) => value)).toEqual([
+      'Express',
+      'Overnight',
+      'Standard',
+    ]);
+  });
+
+  it('should check with Space and click', () => {
+    render(<RadioGroup />);
+    act(() => radio('Standard').focus());
+
+    fireEvent.keyDown(radio('Standard'), { key: ' ' });
+    expect(radio('Standard')).toHaveAttribute('aria-checked', 'true');
+
+    fireEvent.click(radio('Overnight'));
+    expect(radio('Overnight')).toHaveAttribute('aria-checked', 'true');
+    expect(radio('Overnight')).toHaveFocus();
+    expect(radio('Overnight')).toHaveAttribute('tabindex', '0');
+  });
+
+  it('should skip disabled radios', () => {
+    render(<RadioGroup defaultValue="Standard" disabledItems={['Express']} />);
+    act(() => radio('Standard').focus());
+
+    fireEvent.keyDown(radio('Standard'), { key: 'ArrowDown' });
+    expect(radio('Overnight')).toHaveFocus();
+
+    fireEvent.click(radio('Express'));
+    expect(radio('Express')).toHaveAttribute('aria-checked', 'false');
+    expect(radio('Express')).toHaveAttribute('aria-disabled', 'true');
+  });
+
+  it('should disable every radio when the group is disabled', () => {
+    render(<RadioGroup defaultValue="Standard" disabled />);
+
+    expect(screen.getByRole('radiogroup')).toHaveAttribute('aria-disabled', 'true');
+    fireEvent.click(radio('Express'));
+    expect(radio('Standard')).toHaveAttribute('aria-checked', 'true');
+    expect(screen.getAllByRole('radio').every((element) => element.tabIndex === -1)).toBe(true);
+  });
+
+  it('should mirror horizontal arrow keys in right-to-left layouts', () => {
+    render(<RadioGroup defaultValue="Standard" orientation="horizontal" dir="rtl" />);
+    act(() => radio('Standard').focus());
+
+    fireEvent.keyDown(radio('Standard'), { key: 'ArrowLeft' });
+    expect(radio('Express')).toHaveFocus();
+    fireEvent.keyDown(radio('Express'), { key: 'ArrowDown' });
+    expect(radio('Express')).toHaveFocus();
+  });
+
+  it('should move the tab stop when the value changes from outside', () => {
+    const { rerender } = render(<RadioGroup value="Standard" />);
+    rerender(<RadioGroup value="Overnight" />);
+
+    expect(radio('Overnight')).toHaveAttribute('tabindex', '0');
+    expect(radio('Standard')).toHaveAttribute('tabindex', '-1');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  createRoleProps,
+  validateA11yProps,
+  type AriaRole,
+  type AriaTristate,
+  type RoleProps,
+  type RequiredAttributesOf,
+  type SupportedAttributesOf,
+  type ProhibitedAttributesOf,
+} from '../src/index';
+
+describe('createRoleProps', () => {
+  it('should return the attributes with the role', () => {
+    const props = createRoleProps('slider', {
+      'aria-valuenow': 5,
+      'aria-valuemin': 0,
+      'aria-valuemax': 10,
+      'aria-label': 'Volume',
+    });
+
+    expect(props).toEqual({
+      role: 'slider',
+      'aria-valuenow': 5,
+      'aria-valuemin': 0,
+      'aria-valuemax': 10,
+      'aria-label': 'Volume',
+    });
+    expect(validateA11yProps(props).valid).toBe(true);
+  });
+
+  it('should let the role argument win over a role attribute', () => {
+    // Not a fresh literal, so the stray role is not an excess property error
+    const attributes = { role: 'link', 'aria-pressed': 'true' } as const;
+    const props = createRoleProps('button', attributes);
+    expect(props.role).toBe('button');
+  });
+
+  it('should reject unsupported and missing attributes at compile time', () => {
+    // @ts-expect-error - aria-checked is not supported on button
+    createRoleProps('button', { 'aria-checked': 'true' });
+
+    // @ts-expect-error - slider requires aria-valuenow
+    createRoleProps('slider', { 'aria-valuemin': 0 });
+
+    // @ts-expect-error - aria-label is prohibited on generic
+    createRoleProps('generic', { 'aria-label': 'Wrapper' });
+
+    // @ts-expect-error - not a role
+    createRoleProps('buton', {});
+
+    expect(true).toBe(true);
+  });
+});
+
+describe('role prop types', () => {
+  it('should derive required, supported and prohibited attributes', () => {
+    expectTypeOf<RequiredAttributesOf<'slider'>>().toEqualTypeOf<'aria-valuenow'>();
+    expectTypeOf<RequiredAttributesOf<'combobox'>>().toEqualTypeOf<
+      'aria-controls' | 'aria-expanded'
+    >();
+    expectTypeOf<RequiredAttributesOf<'button'>>().toBeNever();
+    expectTypeOf<ProhibitedAttributesOf<'presentation'>>().toEqualTypeOf<
+      'aria-label' | 'aria-labelledby'
+    >();
+    expectTypeOf<'aria-pressed'>().toMatchTypeOf<SupportedAttributesOf<'button'>>();
+    expectTypeOf<'aria-describedby'>().toMatchTypeOf<SupportedAttributesOf<'button'>>();
+  });
+
+  it('should expose a literal union of roles', () => {
+    expectTypeOf<'treegrid'>().toMatchTypeOf<AriaRole>();
+    expectTypeOf<'widget'>().not.toMatchTypeOf<AriaRole>();
+  });
+
+  it('should type RoleProps values from AccessibilityProps', () => {
+    const checkbox: RoleProps<'checkbox'> = { role: 'checkbox', 'aria-checked': 'mixed' };
+    expectTypeOf(checkbox['aria-checked']).toEqualTypeOf<AriaTristate>();
+
+    // @ts-expect-error - aria-checked does not accept arbitrary strings
+    const invalid: RoleProps<'checkbox'> = { role: 'checkbox', 'aria-checked': 'yes' };
+    expect(invalid.role).toBe('checkbox');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { useState } from 'react';
+import {
+  useRovingTabIndex,
+  disabledProps,
+  mergeA11yProps,
+  type RovingTabIndexOptions,
+} from '../src/index';
+
+interface ToolbarProps extends RovingTabIndexOptions {
+  items?: string[];
+  disabled?: string[];
+}
+
+const Toolbar = ({
+  items = ['Bold', 'Italic', 'Underline'],
+  disabled = [],
+  ...options
+}: ToolbarProps) => {
+  const { getContainerProps, getItemProps } = useRovingTabIndex(options);
+  return (
+    <div role="toolbar" aria-label="Formatting" {...getContainerProps()}>
+      {items.map((item) => (
+        <button key={item} {...getItemProps(item, { disabled: disabled.includes(item) })}>
+          {item}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const tabIndexes = () => screen.getAllByRole('button').map((button) => button.tabIndex);
+
+describe('useRovingTabIndex', () => {
+  it('should give the first item the only tab stop', () => {
+    render(<Toolbar />);
+    expect(tabIndexes()).toEqual([0, -1, -1]);
+  });
+
+  it('should honour defaultActiveId', () => {
+    render(<Toolbar defaultActiveId="Italic" />);
+    expect(tabIndexes()).toEqual([-1, 0, -1]);
+  });
+
+  it('should report aria-orientation on the container', () => {
+    render(<Toolbar orientation="vertical" />);
+    expect(screen.getByRole('toolbar').getAttribute('aria-orientation')).toBe('vertical');
+  });
+
+  it('should move focus with arrow keys for the orientation', () => {
+    render(<Toolbar />);
+    const [bold, italic] = screen.getAllByRole('button');
+
+    bold!.focus();
+    fireEvent.keyDown(bold!, { key: 'ArrowDown' });
+    expect(bold).toHaveFocus();
+
+    fireEvent.keyDown(bold!, { key: 'ArrowRight' });
+    expect(italic).toHaveFocus();
+    expect(tabIndexes()).toEqual([-1, 0, -1]);
+
+    fireEvent.keyDown(italic!, { key: 'ArrowLeft' });
+    expect(bold).toHaveFocus();
+  });
+
+  it('should use up and down arrows when vertical', () => {
+    render(<Toolbar orientation="vertical" />);
+    const [bold, italic] = screen.getAllByRole('button');
+
+    bold!.focus();
+    fireEvent.keyDown(bold!, { key: 'ArrowRight' });
+    expect(bold).toHaveFocus();
+    fireEvent.keyDown(bold!, { key: 'ArrowDown' });
+    expect(italic).toHaveFocus();
+  });
+
+  it('should mirror ArrowLeft and ArrowRight in right-to-left layouts', () => {
+    render(<Toolbar dir="rtl" />);
+    const [bold, italic] = screen.getAllByRole('button');
+
+    bold!.focus();
+    fireEvent.keyDown(bold!, { key: 'ArrowLeft' });
+    expect(italic).toHaveFocus();
+    fireEvent.keyDown(italic!, { key: 'ArrowRight' });
+    expect(bold).toHaveFocus();
+  });
+
+  it('should move to the first and last items with Home and End', () => {
+    render(<Toolbar />);
+    const [bold, , underline] = screen.getAllByRole('button');
+
+    bold!.focus();
+    fireEvent.keyDown(bold!, { key: 'End' });
+    expect(underline).toHaveFocus();
+    fireEvent.keyDown(underline!, { key: 'Home' });
+    expect(bold).toHaveFocus();
+  });
+
+  it('should wrap by default and stop at the ends when loop is false', () => {
+    const { unmount } = render(<Toolbar />);
+    let [bold, , underline] = screen.getAllByRole('button');
+    bold!.focus();
+    fireEvent.keyDown(bold!, { key: 'ArrowLeft' });
+    expect(underline).toHaveFocus();
+    unmount();
+
+    render(<Toolbar loop={false} />);
+    [bold, , underline] = screen.getAllByRole('button');
+    bold!.focus();
+    fireEvent.keyDown(bold!, { key: 'ArrowLeft' });
+    expect(bold).toHaveFocus();
+  });
+
+  it('should skip disabled items', () => {
+    render(<Toolbar disabled={['Italic']} />);
+    const [bold, italic, underline] = screen.getAllByRole('button');
+
+    expect(italic!.getAttribute('aria-disabled')).toBe('true');
+    bold!.focus();
+    fireEvent.keyDown(bold!, { key: 'ArrowRight' });
+    expect(underline).toHaveFocus();
+  });
+
+  it('should skip items that spread disabledProps', () => {
+    const Menu = () => {
+      const { getItemProps } = useRovingTabIndex({ orientation: 'vertical' });
+      return (
+        <div role="menu">
+          <div role="menuitem" {...getItemProps('cut')}>
+            Cut
+          </div>
+          <div role="menuitem" {...mergeA11yProps(getItemProps('copy'), disabledProps)}>
+            Copy
+          </div>
+          <div role="menuitem" {...getItemProps('paste')}>
+            Paste
+          </div>
+        </div>
+      );
+    };
+    render(<Menu />);
+    const [cut, , paste] = screen.getAllByRole('menuitem');
+
+    cut!.focus();
+    fireEvent.keyDown(cut!, { key: 'ArrowDown' });
+    expect(paste).toHaveFocus();
+  });
+
+  it('should move the tab stop off an item that becomes disabled', () => {
+    const { rerender } = render(<Toolbar />);
+    rerender(<Toolbar disabled={['Bold']} />);
+    expect(tabIndexes()).toEqual([-1, 0, -1]);
+  });
+
+  it('should move the tab stop to an item that receives focus', () => {
+    const onActiveChange = vi.fn();
+    render(<Toolbar onActiveChange={onActiveChange} />);
+
+    act(() => screen.getByText('Underline').focus());
+    expect(tabIndexes()).toEqual([-1, -1, 0]);
+    expect(onActiveChange).toHaveBeenCalledWith('Underline');
+  });
+
+  it('should add aria-selected and let selection follow focus', () => {
+    const Listbox = () => {
+      const [selectedId, setSelectedId] = useState<string | null>('b');
+      const { getContainerProps, getItemProps } = useRovingTabIndex({
+        orientation: 'vertical',
+        selectedId,
+        onSelectedChange: setSelectedId,
+        selectionFollowsFocus: true,
+      });
+      return (
+        <ul role="listbox" aria-label="Letters" {...getContainerProps()}>
+          {['a', 'b', 'c'].map((id) => (
+            <li key={id} role="option" {...getItemProps(id)}>
+              {id}
+            </li>
+          ))}
+        </ul>
+      );
+    };
+    render(<Listbox />);
+    const options = screen.getAllByRole('option');
+
+    expect(options.map((option) => option.getAttribute('aria-selected'))).toEqual([
+      'false',
+      'true',
+      'false',
+    ]);
+    expect(options[1]!.tabIndex).toBe(0);
+
+    options[1]!.focus();
+    fireEvent.keyDown(options[1]!, { key: 'ArrowDown' });
+    expect(options[2]).toHaveFocus();
+    expect(options[2]!.getAttribute('aria-selected')).toBe('true');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { SkipLinks, focusSkipTarget, srOnly } from '../src/index';
+
+const Page = (props: React.ComponentProps<typeof SkipLinks>) => (
+  <>
+    <SkipLinks {...props} />
+    <nav aria-label="Primary">
+      <a href="/">Home</a>
+    </nav>
+    <search>
+      <input aria-label="Search" />
+    </search>
+    <main>
+      <h1>Article</h1>
+    </main>
+  </>
+);
+
+const link = (name: string) => screen.getByRole('link', { name });
+
+describe('focusSkipTarget', () => {
+  it('should focus a non-focusable target until focus leaves it', () => {
+    render(
+      <>
+        <main id="content">Content</main>
+        <button>Next</button>
+      </>
+    );
+    const main = screen.getByRole('main');
+
+    act(() => {
+      expect(focusSkipTarget('content')).toBe(true);
+    });
+    expect(main).toHaveFocus();
+    expect(main).toHaveAttribute('tabindex', '-1');
+
+    act(() => screen.getByRole('button').focus());
+    expect(main).not.toHaveAttribute('tabindex');
+    expect(focusSkipTarget('missing')).toBe(false);
+  });
+
+  it('should keep an existing tabindex', () => {
+    render(<div id="panel" tabIndex={0} />);
+
+    act(() => {
+      focusSkipTarget('panel');
+    });
+    act(() => (document.activeElement as HTMLElement).blur());
+    expect(document.getElementById('panel')).toHaveAttribute('tabindex', '0');
+  });
+});
+
+describe('SkipLinks', () => {
+  it('should discover landmarks in document order', () => {
+    render(<Page />);
+    const list = screen.getByRole('list', { name: 'Skip links' });
+
+    expect(screen.getAllByRole('link').filter((element) => list.contains(element))).toEqual([
+      link('Skip to Primary'),
+      link('Skip to search'),
+      link('Skip to main content'),
+    ]);
+    expect(link('Skip to main content')).toHaveAttribute('href', `#${screen.getByRole('main').id}`);
+  });
+
+  it('should discover landmarks again when the page changes', async () => {
+    const Route = ({ withSearch }: { withSearch: boolean }) => (
+      <>
+        <SkipLinks />
+        {withSearch && (
+          <search>
+            <input aria-label="Search" />
+          </search>
+        )}
+        <main>
+          <h1>Article</h1>
+        </main>
+      </>
+    );
+    const { rerender } = render(<Route withSearch={false} />);
+    expect(screen.queryByRole('link', { name: 'Skip to search' })).not.toBeInTheDocument();
+
+    rerender(<Route withSearch />);
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    expect(link('Skip to search')).toBeInTheDocument();
+
+    act(() => screen.getByRole('main').setAttribute('aria-label', 'Article'));
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    expect(link('Skip to Article')).toBeInTheDocument();
+  });
+
+  it('should use custom labels and landmarks', () => {
+    render(<Page landmarks={['main']} labels={{ main: 'Skip to article' }} />);
+
+    expect(link('Skip to article')).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Skip to Primary' })).not.toBeInTheDocument();
+  });
+
+  it('should render given links instead of discovering landmarks', () => {
+    render(<Page links={[{ targetId: 'footer', label: 'Skip to footer' }]} />);
+
+    expect(link('Skip to footer')).toHaveAttribute('href', '#footer');
+    expect(screen.queryByRole('link', { name: 'Skip to main content' })).not.toBeInTheDocument();
+  });
+
+  it('should show a link only while it is focused', () => {
+    render(<Page />);
+    const skip = link('Skip to main content');
+
+    expect(skip).toHaveStyle({ width: srOnly.width });
+    act(() => skip.focus());
+    expect(skip).toHaveStyle({ width: 'auto', position: 'absolute' });
+    act(() => skip.blur());
+    expect(skip).toHaveStyle({ width: srOnly.width });
+  });
+
+  it('should move focus to the target without changing the hash', () => {
+    window.location.hash = '#/articles/1';
+    render(<Page />);
+
+    const event = fireEvent.click(link('Skip to main content'));
+    expect(event).toBe(false);
+    expect(screen.getByRole('main')).toHaveFocus();
+    expect(window.location.hash).toBe('#/articles/1');
+    window.location.hash = '';
+  });
+});
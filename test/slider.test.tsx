@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import {
+  createSliderProps,
+  useRangeSlider,
+  useSlider,
+  type UseRangeSliderOptions,
+  type UseSliderOptions,
+} from '../src/index';
+
+const Slider = (options: UseSliderOptions) => {
+  const slider = useSlider(options);
+  return (
+    <div>
+      <span {...slider.getLabelProps()}>Volume</span>
+      <div {...slider.getTrackProps()} data-testid="track">
+        <div {...slider.getThumbProps()} />
+      </div>
+    </div>
+  );
+};
+
+const RangeSlider = (options: UseRangeSliderOptions) => {
+  const range = useRangeSlider(options);
+  return (
+    <div {...range.getTrackProps()} data-testid="track">
+      <div {...range.getThumbProps(0)} aria-label="Minimum" />
+      <div {...range.getThumbProps(1)} aria-label="Maximum" />
+    </div>
+  );
+};
+
+// jsdom has no PointerEvent, so fireEvent.pointer* would drop clientX and button
+if (typeof window.PointerEvent === 'undefined') {
+  class PointerEvent extends MouseEvent {
+    pointerId: number;
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 0;
+    }
+  }
+  window.PointerEvent = PointerEvent as typeof window.PointerEvent;
+}
+
+/** Gives the track a 200px wide box at x = 0 */
+const mockTrackRect = () => {
+  const track = screen.getByTestId('track');
+  track.getBoundingClientRect = () =>
+    ({ left: 0, right: 200, top: 0, bottom: 20, width: 200, height: 20 }) as DOMRect;
+  return track;
+};
+
+describe('createSliderProps', () => {
+  it('should create slider props', () => {
+    expect(createSliderProps({ value: 40, valueText: '$40', orientation: 'vertical' })).toEqual({
+      role: 'slider',
+      'aria-valuenow': 40,
+      'aria-valuemin': 0,
+      'aria-valuemax': 100,
+      'aria-valuetext': '$40',
+      'aria-orientation': 'vertical',
+    });
+  });
+
+  it('should throw in development when the value is out of range', () => {
+    expect(() => createSliderProps({ value: 120 })).toThrow(/aria-valuenow 120/);
+    expect(() => createSliderProps({ value: 5, min: 10, max: 0 })).toThrow(/must be between/);
+    expect(() => createSliderProps({ value: Number.NaN })).toThrow(/must be between/);
+  });
+
+  it('should not check the value in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(createSliderProps({ value: 120 })['aria-valuenow']).toBe(120);
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('useSlider', () => {
+  it('should render a labelled slider thumb', () => {
+    render(<Slider defaultValue={30} formatValue={(value) => `${value}%`} />);
+    const thumb = screen.getByRole('slider', { name: 'Volume' });
+
+    expect(thumb).toHaveAttribute('aria-valuenow', '30');
+    expect(thumb).toHaveAttribute('aria-valuetext', '30%');
+    expect(thumb).toHaveAttribute('tabindex', '0');
+    expect(thumb).not.toHaveAttribute('aria-orientation');
+  });
+
+  it('should change the value with the keyboard', () => {
+    const onChange = vi.fn();
+    const onChangeEnd = vi.fn();
+    render(<Slider defaultValue={50} step={5} onChange={onChange} onChangeEnd={onChangeEnd} />);
+    const thumb = screen.getByRole('slider');
+
+    fireEvent.keyDown(thumb, { key: 'ArrowRight' });
+    expect(thumb).toHaveAttribute('aria-valuenow', '55');
+    fireEvent.keyDown(thumb, { key: 'ArrowDown' });
+    expect(thumb).toHaveAttribute('aria-valuenow', '50');
+    fireEvent.keyDown(thumb, { key: 'PageUp' });
+    expect(thumb).toHaveAttribute('aria-valuenow', '100');
+    fireEvent.keyDown(thumb, { key: 'Home' });
+    expect(thumb).toHaveAttribute('aria-valuenow', '0');
+    fireEvent.keyDown(thumb, { key: 'ArrowLeft' });
+
+    expect(onChange).toHaveBeenCalledTimes(4);
+    expect(onChangeEnd).toHaveBeenLastCalledWith(0);
+  });
+
+  it('should avoid floating point noise with decimal steps', () => {
+    render(<Slider min={0} max={1} step={0.1} defaultValue={0.2} />);
+    const thumb = screen.getByRole('slider');
+
+    fireEvent.keyDown(thumb, { key: 'ArrowUp' });
+    expect(thumb).toHaveAttribute('aria-valuenow', '0.3');
+  });
+
+  it('should follow the pointer while dragging', () => {
+    const onChangeEnd = vi.fn();
+    render(<Slider onChangeEnd={onChangeEnd} />);
+    const track = mockTrackRect();
+    const thumb = screen.getByRole('slider');
+
+    fireEvent.pointerDown(track, { button: 0, clientX: 50, pointerId: 1 });
+    expect(thumb).toHaveAttribute('aria-valuenow', '25');
+    expect(thumb).toHaveFocus();
+
+    fireEvent.pointerMove(track, { clientX: 151, pointerId: 1 });
+    expect(thumb).toHaveAttribute('aria-valuenow', '76');
+    fireEvent.pointerMove(track, { clientX: 400, pointerId: 1 });
+    expect(thumb).toHaveAttribute('aria-valuenow', '100');
+
+    fireEvent.pointerUp(track, { pointerId: 1 });
+    expect(onChangeEnd).toHaveBeenCalledWith(100);
+    fireEvent.pointerMove(track, { clientX: 0, pointerId: 1 });
+    expect(thumb).toHaveAttribute('aria-valuenow', '100');
+  });
+
+  it('should ignore input when disabled', () => {
+    render(<Slider defaultValue={10} disabled />);
+    const thumb = screen.getByRole('slider');
+
+    fireEvent.keyDown(thumb, { key: 'ArrowRight' });
+    expect(thumb).toHaveAttribute('aria-valuenow', '10');
+    expect(thumb).toHaveAttribute('aria-disabled', 'true');
+    expect(thumb).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('should clamp a controlled value outside the range', () => {
+    const error = vi.spyOn(console, 'error');
+    render(<Slider value={150} />);
+
+    expect(screen.getByRole('slider')).toHaveAttribute('aria-valuenow', '100');
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe('useRangeSlider', () => {
+  it('should bound each thumb by the other', () => {
+    render(<RangeSlider defaultValue={[20, 80]} minDistance={10} />);
+    const lower = screen.getByRole('slider', { name: 'Minimum' });
+    const upper = screen.getByRole('slider', { name: 'Maximum' });
+
+    expect(lower).toHaveAttribute('aria-valuemin', '0');
+    expect(lower).toHaveAttribute('aria-valuemax', '70');
+    expect(upper).toHaveAttribute('aria-valuemin', '30');
+    expect(upper).toHaveAttribute('aria-valuemax', '100');
+
+    fireEvent.keyDown(lower, { key: 'End' });
+    expect(lower).toHaveAttribute('aria-valuenow', '70');
+    expect(upper).toHaveAttribute('aria-valuemin', '80');
+
+    fireEvent.keyDown(upper, { key: 'Home' });
+    expect(upper).toHaveAttribute('aria-valuenow', '80');
+  });
+
+  it('should render thumbs closer than minDistance without invalid bounds', () => {
+    const error = vi.spyOn(console, 'error');
+    render(<RangeSlider defaultValue={[50, 52]} minDistance={10} />);
+    const lower = screen.getByRole('slider', { name: 'Minimum' });
+    const upper = screen.getByRole('slider', { name: 'Maximum' });
+
+    expect(lower).toHaveAttribute('aria-valuemax', '50');
+    expect(upper).toHaveAttribute('aria-valuemin', '52');
+    fireEvent.keyDown(lower, { key: 'ArrowRight' });
+    expect(lower).toHaveAttribute('aria-valuenow', '50');
+    fireEvent.keyDown(lower, { key: 'ArrowLeft' });
+    expect(lower).toHaveAttribute('aria-valuenow', '49');
+    expect(error).not.toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should move the nearest thumb from the track', () => {
+    const onChange = vi.fn();
+    render(<RangeSlider defaultValue={[20, 80]} onChange={onChange} />);
+    const track = mockTrackRect();
+
+    fireEvent.pointerDown(track, { button: 0, clientX: 140, pointerId: 1 });
+    expect(onChange).toHaveBeenLastCalledWith([20, 70]);
+    expect(screen.getByRole('slider', { name: 'Maximum' })).toHaveFocus();
+
+    act(() => {
+      fireEvent.pointerMove(track, { clientX: 10, pointerId: 1 });
+    });
+    expect(onChange).toHaveBeenLastCalledWith([20, 20]);
+  });
+});
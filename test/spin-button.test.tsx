@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { useSpinButton, type UseSpinButtonOptions } from '../src/index';
+
+const SpinButton = (options: UseSpinButtonOptions) => {
+  const spin = useSpinButton(options);
+  return (
+    <div>
+      <label {...spin.getLabelProps()}>Quantity</label>
+      <button {...spin.getDecrementButtonProps()}>−</button>
+      <input {...spin.getInputProps()} />
+      <button {...spin.getIncrementButtonProps()}>+</button>
+      <div {...spin.getStatusProps()} data-testid="status" />
+    </div>
+  );
+};
+
+// jsdom has no PointerEvent, so fireEvent.pointer* would drop button
+if (typeof window.PointerEvent === 'undefined') {
+  class PointerEvent extends MouseEvent {}
+  window.PointerEvent = PointerEvent as typeof window.PointerEvent;
+}
+
+const input = () => screen.getByRole('spinbutton', { name: 'Quantity' });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('useSpinButton', () => {
+  it('should render a labelled spinbutton with value attributes', () => {
+    render(<SpinButton defaultValue={3} min={1} max={10} />);
+
+    expect(input()).toHaveValue('3');
+    expect(input()).toHaveAttribute('aria-valuenow', '3');
+    expect(input()).toHaveAttribute('aria-valuemin', '1');
+    expect(input()).toHaveAttribute('aria-valuemax', '10');
+    expect(input()).not.toHaveAttribute('aria-valuetext');
+    expect(screen.getByRole('button', { name: 'Increase' })).toHaveAttribute(
+      'aria-controls',
+      input().id
+    );
+    expect(screen.getByRole('button', { name: 'Decrease' })).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('should step with the keyboard and stay within min and max', () => {
+    const onChange = vi.fn();
+    render(<SpinButton defaultValue={5} min={0} max={20} step={2} onChange={onChange} />);
+
+    fireEvent.keyDown(input(), { key: 'ArrowUp' });
+    expect(input()).toHaveAttribute('aria-valuenow', '7');
+    fireEvent.keyDown(input(), { key: 'PageUp' });
+    expect(input()).toHaveAttribute('aria-valuenow', '20');
+    fireEvent.keyDown(input(), { key: 'Home' });
+    expect(input()).toHaveAttribute('aria-valuenow', '0');
+    fireEvent.keyDown(input(), { key: 'ArrowDown' });
+    fireEvent.keyDown(input(), { key: 'End' });
+
+    expect(onChange.mock.calls.map(([value]) => value)).toEqual([7, 20, 0, 20]);
+  });
+
+  it('should format and parse with the locale', () => {
+    const onChange = vi.fn();
+    render(
+      <SpinButton
+        defaultValue={1234.5}
+        locale="de-DE"
+        formatOptions={{ style: 'currency', currency: 'EUR' }}
+        onChange={onChange}
+      />
+    );
+    const text = new Intl.NumberFormat('de-DE', { style: 'currency', currency: 'EUR' }).format(
+      1234.5
+    );
+    expect(input()).toHaveValue(text);
+    expect(input()).toHaveAttribute('aria-valuetext', text);
+
+    fireEvent.change(input(), { target: { value: '2.500,75 €' } });
+    expect(onChange).not.toHaveBeenCalled();
+    fireEvent.keyDown(input(), { key: 'Enter' });
+    expect(onChange).toHaveBeenCalledWith(2500.75);
+  });
+
+  it('should keep the value when invalid text is committed and clear it when empty', () => {
+    const onChange = vi.fn();
+    render(<SpinButton defaultValue={4} max={10} onChange={onChange} />);
+
+    fireEvent.change(input(), { target: { value: 'abc' } });
+    fireEvent.blur(input());
+    expect(input()).toHaveValue('4');
+
+    fireEvent.change(input(), { target: { value: '99' } });
+    fireEvent.blur(input());
+    expect(onChange).toHaveBeenLastCalledWith(10);
+
+    fireEvent.change(input(), { target: { value: '' } });
+    fireEvent.blur(input());
+    expect(onChange).toHaveBeenLastCalledWith(null);
+    expect(input()).not.toHaveAttribute('aria-valuenow');
+  });
+
+  it('should step from typed text', () => {
+    render(<SpinButton defaultValue={1} />);
+
+    fireEvent.change(input(), { target: { value: '41' } });
+    fireEvent.keyDown(input(), { key: 'ArrowUp' });
+    expect(input()).toHaveValue('42');
+  });
+
+  it('should repeat while a stepper button is held', () => {
+    vi.useFakeTimers();
+    render(<SpinButton defaultValue={0} max={100} announceDelay={10000} />);
+    const increase = screen.getByRole('button', { name: 'Increase' });
+
+    fireEvent.pointerDown(increase, { button: 0 });
+    expect(input()).toHaveValue('1');
+    act(() => vi.advanceTimersByTime(400 + 60 * 3));
+    expect(input()).toHaveValue('5');
+
+    fireEvent.pointerUp(increase);
+    fireEvent.click(increase);
+    act(() => vi.advanceTimersByTime(1000));
+    expect(input()).toHaveValue('5');
+  });
+
+  it('should step on a later click after a press that produced no click', () => {
+    vi.useFakeTimers();
+    render(<SpinButton defaultValue={0} announceDelay={10000} />);
+    const increase = screen.getByRole('button', { name: 'Increase' });
+
+    fireEvent.pointerDown(increase, { button: 0 });
+    fireEvent.pointerLeave(increase);
+    fireEvent.click(increase);
+    expect(input()).toHaveValue('2');
+
+    fireEvent.pointerDown(increase, { button: 0 });
+    fireEvent.pointerUp(increase);
+    act(() => vi.advanceTimersByTime(0));
+    fireEvent.click(increase);
+    expect(input()).toHaveValue('4');
+  });
+
+  it('should step on click without a pointer press', () => {
+    render(<SpinButton defaultValue={2} min={1} />);
+    const decrease = screen.getByRole('button', { name: 'Decrease' });
+
+    fireEvent.click(decrease);
+    expect(input()).toHaveValue('1');
+    expect(decrease).toBeDisabled();
+  });
+
+  it('should throttle announcements of stepped values', () => {
+    vi.useFakeTimers();
+    render(<SpinButton defaultValue={0} announceDelay={500} />);
+    const status = screen.getByTestId('status');
+    expect(status).toHaveAttribute('role', 'status');
+
+    fireEvent.keyDown(input(), { key: 'ArrowUp' });
+    expect(status).toHaveTextContent('1');
+    fireEvent.keyDown(input(), { key: 'ArrowUp' });
+    fireEvent.keyDown(input(), { key: 'ArrowUp' });
+    expect(status).toHaveTextContent('1');
+
+    act(() => vi.advanceTimersByTime(500));
+    expect(status).toHaveTextContent('3');
+  });
+});
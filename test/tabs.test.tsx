@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { useState } from 'react';
+import { useTabs, type UseTabsOptions } from '../src/index';
+
+const Tabs = ({
+  initialTabs = ['Details', 'Reviews', 'Shipping'],
+  disabled = [],
+  deletable = false,
+  ...options
+}: UseTabsOptions & { initialTabs?: string[]; disabled?: string[]; deletable?: boolean }) => {
+  const [tabs, setTabs] = useState(initialTabs);
+  const tabsApi = useTabs({
+    tabs,
+    ...options,
+    onDelete: deletable ? (id) => setTabs((prev) => prev.filter((tab) => tab !== id)) : undefined,
+  });
+  return (
+    <div>
+      <div {...tabsApi.getTabListProps()} aria-label="Product">
+        {tabs.map((tab) => (
+          <button key={tab} {...tabsApi.getTabProps(tab, { disabled: disabled.includes(tab) })}>
+            {tab}
+          </button>
+        ))}
+      </div>
+      {tabs.map((tab) =>
+        tabsApi.isPanelMounted(tab) ? (
+          <div key={tab} {...tabsApi.getTabPanelProps(tab)}>
+            {tab} panel
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+};
+
+const tab = (name: string) => screen.getByRole('tab', { name });
+
+describe('useTabs', () => {
+  it('should link tabs and panels with generated IDs', () => {
+    render(<Tabs />);
+    const details = tab('Details');
+    const panel = screen.getByRole('tabpanel');
+
+    expect(screen.getByRole('tablist')).toHaveAttribute('aria-orientation', 'horizontal');
+    expect(details).toHaveAttribute('aria-controls', panel.id);
+    expect(panel).toHaveAttribute('aria-labelledby', details.id);
+    expect(panel).toHaveAccessibleName('Details');
+    expect(panel).toHaveAttribute('tabindex', '0');
+  });
+
+  it('should select the first tab by default', () => {
+    render(<Tabs />);
+    expect(tab('Details')).toHaveAttribute('aria-selected', 'true');
+    expect(tab('Details')).toHaveAttribute('tabindex', '0');
+    expect(tab('Reviews')).toHaveAttribute('aria-selected', 'false');
+    expect(tab('Reviews')).toHaveAttribute('tabindex', '-1');
+    expect(screen.getByRole('tabpanel')).toHaveTextContent('Details panel');
+  });
+
+  it('should select the first of tabs on the first render, whatever renders first', () => {
+    const renders: (string | null)[] = [];
+    const PanelsFirst = () => {
+      const tabsApi = useTabs({ tabs: ['Details', 'Reviews'] });
+      renders.push(tabsApi.selectedId);
+      return (
+        <>
+          <div {...tabsApi.getTabPanelProps('Details')}>Details panel</div>
+          <div {...tabsApi.getTabPanelProps('Reviews')}>Reviews panel</div>
+          <div {...tabsApi.getTabListProps()} aria-label="Product">
+            <button {...tabsApi.getTabProps('Details')}>Details</button>
+            <button {...tabsApi.getTabProps('Reviews')}>Reviews</button>
+          </div>
+        </>
+      );
+    };
+    render(<PanelsFirst />);
+
+    expect(renders[0]).toBe('Details');
+    expect(screen.getByRole('tabpanel')).toHaveTextContent('Details panel');
+    expect(tab('Details')).toHaveAttribute('tabindex', '0');
+  });
+
+  it('should honour defaultSelectedId', () => {
+    render(<Tabs defaultSelectedId="Reviews" />);
+    expect(tab('Reviews')).toHaveAttribute('aria-selected', 'true');
+    expect(tab('Reviews')).toHaveAttribute('tabindex', '0');
+    expect(screen.getByRole('tabpanel')).toHaveTextContent('Reviews panel');
+  });
+
+  it('should select the focused tab with automatic activation', () => {
+    const onSelectedChange = vi.fn();
+    render(<Tabs onSelectedChange={onSelectedChange} />);
+    act(() => tab('Details').focus());
+
+    fireEvent.keyDown(tab('Details'), { key: 'ArrowRight' });
+    expect(tab('Reviews')).toHaveFocus();
+    expect(tab('Reviews')).toHaveAttribute('aria-selected', 'true');
+    expect(onSelectedChange).toHaveBeenCalledWith('Reviews');
+
+    fireEvent.keyDown(tab('Reviews'), { key: 'End' });
+    expect(tab('Shipping')).toHaveAttribute('aria-selected', 'true');
+    fireEvent.keyDown(tab('Shipping'), { key: 'ArrowRight' });
+    expect(tab('Details')).toHaveFocus();
+  });
+
+  it('should only select on Enter or Space with manual activation', () => {
+    render(<Tabs activation="manual" />);
+    act(() => tab('Details').focus());
+
+    fireEvent.keyDown(tab('Details'), { key: 'ArrowRight' });
+    expect(tab('Reviews')).toHaveFocus();
+    expect(tab('Details')).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.keyDown(tab('Reviews'), { key: 'Enter' });
+    expect(tab('Reviews')).toHaveAttribute('aria-selected', 'true');
+    fireEvent.keyDown(tab('Reviews'), { key: 'ArrowRight' });
+    fireEvent.keyDown(tab('Shipping'), { key: ' ' });
+    expect(tab('Shipping')).toHaveAttribute('aria-selected', 'true');
+  });
+
+  it('should use vertical arrow keys for a vertical tablist', () => {
+    render(<Tabs orientation="vertical" />);
+    expect(screen.getByRole('tablist')).toHaveAttribute('aria-orientation', 'vertical');
+    act(() => tab('Details').focus());
+
+    fireEvent.keyDown(tab('Details'), { key: 'ArrowRight' });
+    expect(tab('Details')).toHaveFocus();
+    fireEvent.keyDown(tab('Details'), { key: 'ArrowDown' });
+    expect(tab('Reviews')).toHaveFocus();
+  });
+
+  it('should select on click and skip disabled tabs', () => {
+    render(<Tabs disabled={['Reviews']} />);
+    fireEvent.click(tab('Reviews'));
+    expect(tab('Details')).toHaveAttribute('aria-selected', 'true');
+    expect(tab('Reviews')).toHaveAttribute('aria-disabled', 'true');
+
+    fireEvent.keyDown(tab('Details'), { key: 'ArrowRight' });
+    expect(tab('Shipping')).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.click(tab('Details'));
+    expect(tab('Details')).toHaveAttribute('aria-selected', 'true');
+  });
+
+  it('should delete the focused tab and move to its neighbour', () => {
+    render(<Tabs deletable defaultSelectedId="Reviews" />);
+    act(() => tab('Reviews').focus());
+
+    fireEvent.keyDown(tab('Reviews'), { key: 'Delete' });
+    expect(screen.queryByRole('tab', { name: 'Reviews' })).not.toBeInTheDocument();
+    expect(tab('Shipping')).toHaveFocus();
+    expect(tab('Shipping')).toHaveAttribute('aria-selected', 'true');
+
+    fireEvent.keyDown(tab('Shipping'), { key: 'Delete' });
+    expect(tab('Details')).toHaveFocus();
+    expect(screen.getAllByRole('tab')).toHaveLength(1);
+  });
+
+  it('should ignore Delete unless onDelete is provided', () => {
+    render(<Tabs />);
+    fireEvent.keyDown(tab('Details'), { key: 'Delete' });
+    expect(screen.getAllByRole('tab')).toHaveLength(3);
+  });
+
+  it('should mount panels lazily and keep them once visited', () => {
+    render(<Tabs lazy />);
+    expect(screen.getAllByRole('tabpanel', { hidden: true })).toHaveLength(1);
+
+    fireEvent.click(tab('Shipping'));
+    const panels = screen.getAllByRole('tabpanel', { hidden: true });
+    expect(panels).toHaveLength(2);
+    expect(screen.getByRole('tabpanel')).toHaveTextContent('Shipping panel');
+  });
+
+  it('should render every panel, hidden, when not lazy', () => {
+    render(<Tabs />);
+    expect(screen.getAllByRole('tabpanel', { hidden: true })).toHaveLength(3);
+    expect(screen.getByText('Reviews panel')).not.toBeVisible();
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, afterEach, beforeAll } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { useState } from 'react';
+import { createLiveRegion, LiveAnnouncerProvider, useAnnounce, useDisclosure } from '../src/index';
+import {
+  a11yMatchers,
+  clearAnnouncements,
+  getAnnouncements,
+  startRecordingAnnouncements,
+  stopRecordingAnnouncements,
+  type A11yMatchers,
+} from '../src/testing';
+
+declare module 'vitest' {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-empty-object-type
+  interface Assertion<T = any> extends A11yMatchers<T> {}
+}
+
+expect.extend(a11yMatchers);
+
+beforeAll(() => {
+  startRecordingAnnouncements();
+});
+
+afterEach(() => {
+  clearAnnouncements();
+});
+
+describe('toHaveAccessibleName', () => {
+  it('should match the computed accessible name', () => {
+    render(<button aria-label="Close dialog">×</button>);
+    expect(screen.getByRole('button')).toHaveAccessibleName('Close dialog');
+    expect(screen.getByRole('button')).toHaveAccessibleName(/close/i);
+    expect(screen.getByRole('button')).not.toHaveAccessibleName('×');
+  });
+
+  it('should check for any name when called without arguments', () => {
+    render(
+      <div>
+        <button>Save</button>
+        <button>
+          <svg aria-hidden="true" />
+        </button>
+      </div>
+    );
+    const [named, unnamed] = screen.getAllByRole('button');
+    expect(named).toHaveAccessibleName();
+    expect(unnamed).not.toHaveAccessibleName();
+  });
+
+  it('should throw when not called on an element', () => {
+    expect(() => expect('button').toHaveAccessibleName('Save')).toThrow(
+      'toHaveAccessibleName must be called on a DOM element'
+    );
+  });
+});
+
+describe('toHaveValidAria', () => {
+  it('should pass for valid attributes', () => {
+    render(
+      <div role="slider" aria-valuenow={5} aria-valuemin={0} aria-valuemax={10} tabIndex={0} />
+    );
+    expect(screen.getByRole('slider')).toHaveValidAria();
+  });
+
+  it('should report diagnostics for invalid attributes', () => {
+    render(<button aria-checked="true">Bold</button>);
+    expect(screen.getByRole('button')).not.toHaveValidAria();
+    expect(() => expect(screen.getByRole('button')).toHaveValidAria()).toThrow(
+      '"aria-checked" is not supported on role "button"'
+    );
+  });
+});
+
+describe('toBeExpandedControlling', () => {
+  const Disclosure = () => {
+    const { getTriggerProps, getPanelProps } = useDisclosure();
+    return (
+      <div>
+        <button {...getTriggerProps()}>Details</button>
+        <div {...getPanelProps()} data-testid="panel">
+          Content
+        </div>
+      </div>
+    );
+  };
+
+  it('should pass once the disclosure is expanded', () => {
+    render(<Disclosure />);
+    const trigger = screen.getByRole('button');
+    const panel = screen.getByTestId('panel');
+
+    expect(trigger).not.toBeExpandedControlling(panel);
+    fireEvent.click(trigger);
+    expect(trigger).toBeExpandedControlling(panel);
+    expect(trigger).toBeExpandedControlling();
+  });
+
+  it('should fail when aria-controls does not resolve', () => {
+    render(
+      <button aria-expanded="true" aria-controls="missing">
+        Menu
+      </button>
+    );
+    expect(() => expect(screen.getByRole('button')).toBeExpandedControlling()).toThrow(
+      'aria-controls references a missing element'
+    );
+  });
+
+  it('should fail for a different panel', () => {
+    render(
+      <div>
+        <button aria-expanded="true" aria-controls="a">
+          Menu
+        </button>
+        <div id="a" />
+        <div id="b" data-testid="other" />
+      </div>
+    );
+    expect(screen.getByRole('button')).not.toBeExpandedControlling(screen.getByTestId('other'));
+  });
+});
+
+describe('toHaveAnnounced', () => {
+  it('should record messages added to createLiveRegion regions', () => {
+    const Status = () => {
+      const [message, setMessage] = useState('');
+      return (
+        <div>
+          <button onClick={() => setMessage('3 results')}>Search</button>
+          <div {...createLiveRegion()}>{message}</div>
+        </div>
+      );
+    };
+    render(<Status />);
+    expect(document).not.toHaveAnnounced('3 results');
+
+    fireEvent.click(screen.getByRole('button'));
+    expect(document).toHaveAnnounced('3 results');
+    expect(document).toHaveAnnounced('3 results', { politeness: 'polite' });
+    expect(document).not.toHaveAnnounced('3 results', { politeness: 'assertive' });
+  });
+
+  it('should record messages announced through LiveAnnouncerProvider', () => {
+    const Save = () => {
+      const announce = useAnnounce();
+      return (
+        <button onClick={() => announce('Upload failed', { politeness: 'assertive' })}>Save</button>
+      );
+    };
+    render(
+      <LiveAnnouncerProvider>
+        <Save />
+      </LiveAnnouncerProvider>
+    );
+
+    act(() => {
+      fireEvent.click(screen.getByRole('button'));
+    });
+    expect(document).toHaveAnnounced('Upload failed', { politeness: 'assertive' });
+  });
+
+  it('should record alerts inserted with their content', () => {
+    const { container } = render(<div />);
+    act(() => {
+      const alert = document.createElement('div');
+      alert.setAttribute('role', 'alert');
+      alert.textContent = 'Session expired';
+      container.appendChild(alert);
+    });
+    expect(container).toHaveAnnounced(/expired/);
+    expect(getAnnouncements()).toEqual([
+      expect.objectContaining({ text: 'Session expired', politeness: 'assertive' }),
+    ]);
+  });
+
+  it('should only match regions inside the received node', () => {
+    const { container } = render(<div {...createLiveRegion()} />);
+    const outside = document.createElement('div');
+    document.body.appendChild(outside);
+
+    act(() => {
+      container.firstElementChild!.textContent = 'Saved';
+    });
+    expect(container).toHaveAnnounced('Saved');
+    expect(outside).not.toHaveAnnounced('Saved');
+    outside.remove();
+  });
+
+  it('should match regions unmounted since when called on the document', () => {
+    const { container, unmount } = render(<div {...createLiveRegion()} />);
+    act(() => {
+      container.firstElementChild!.textContent = 'Item deleted';
+    });
+    unmount();
+
+    expect(document).toHaveAnnounced('Item deleted');
+    expect(container).not.toHaveAnnounced('Item deleted');
+  });
+
+  it('should require recording to have been started', () => {
+    stopRecordingAnnouncements();
+    expect(() => expect(document).toHaveAnnounced('Saved')).toThrow(/startRecordingAnnouncements/);
+    startRecordingAnnouncements();
+  });
+
+  it('should ignore regions with aria-live="off"', () => {
+    const { container } = render(<div aria-live="off" />);
+    act(() => {
+      container.firstElementChild!.textContent = 'Quiet';
+    });
+    expect(document).not.toHaveAnnounced('Quiet');
+  });
+});
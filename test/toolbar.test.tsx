@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { useState } from 'react';
+import { createToolbarProps, useToolbar, type UseToolbarOptions } from '../src/index';
+
+const Toolbar = ({
+  disabled = [],
+  onLink,
+  ...options
+}: UseToolbarOptions & { disabled?: string[]; onLink?: () => void }) => {
+  const toolbar = useToolbar(options);
+  const [pressed, setPressed] = useState<Record<string, boolean>>({ bold: true });
+  const toggle = (id: string) =>
+    toolbar.getToggleProps(id, {
+      pressed: pressed[id] ?? false,
+      disabled: disabled.includes(id),
+      onPressedChange: (next) => setPressed((prev) => ({ ...prev, [id]: next })),
+    });
+  return (
+    <div {...toolbar.getToolbarProps()} aria-label="Formatting">
+      <div {...toolbar.getGroupProps()} aria-label="Style">
+        <button {...toggle('bold')}>Bold</button>
+        <button {...toggle('italic')}>Italic</button>
+      </div>
+      <button
+        {...toolbar.getItemProps('link', { disabled: disabled.includes('link') })}
+        onClick={onLink}
+      >
+        Link
+      </button>
+    </div>
+  );
+};
+
+const button = (name: string) => screen.getByRole('button', { name });
+
+describe('createToolbarProps', () => {
+  it('should create toolbar props', () => {
+    expect(createToolbarProps()).toEqual({ role: 'toolbar', 'aria-orientation': 'horizontal' });
+    expect(createToolbarProps({ orientation: 'vertical' })).toEqual({
+      role: 'toolbar',
+      'aria-orientation': 'vertical',
+    });
+  });
+});
+
+describe('useToolbar', () => {
+  it('should render a toolbar with grouped toggle buttons and one tab stop', () => {
+    render(<Toolbar />);
+
+    expect(screen.getByRole('toolbar', { name: 'Formatting' })).toHaveAttribute(
+      'aria-orientation',
+      'horizontal'
+    );
+    expect(screen.getByRole('group', { name: 'Style' })).toContainElement(button('Bold'));
+    expect(button('Bold')).toHaveAttribute('aria-pressed', 'true');
+    expect(button('Italic')).toHaveAttribute('aria-pressed', 'false');
+    expect(button('Link')).not.toHaveAttribute('aria-pressed');
+    expect(screen.getAllByRole('button').map((element) => element.tabIndex)).toEqual([0, -1, -1]);
+  });
+
+  it('should toggle pressed state on click', () => {
+    render(<Toolbar />);
+
+    fireEvent.click(button('Italic'));
+    expect(button('Italic')).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(button('Bold'));
+    expect(button('Bold')).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('should move across groups with arrow keys', () => {
+    render(<Toolbar />);
+    act(() => button('Bold').focus());
+
+    fireEvent.keyDown(button('Bold'), { key: 'ArrowRight' });
+    fireEvent.keyDown(button('Italic'), { key: 'ArrowRight' });
+    expect(button('Link')).toHaveFocus();
+    fireEvent.keyDown(button('Link'), { key: 'Home' });
+    expect(button('Bold')).toHaveFocus();
+  });
+
+  it('should use up and down arrows when vertical', () => {
+    render(<Toolbar orientation="vertical" />);
+    act(() => button('Bold').focus());
+
+    fireEvent.keyDown(button('Bold'), { key: 'ArrowRight' });
+    expect(button('Bold')).toHaveFocus();
+    fireEvent.keyDown(button('Bold'), { key: 'ArrowDown' });
+    expect(button('Italic')).toHaveFocus();
+  });
+
+  it('should mirror horizontal arrow keys in right-to-left layouts', () => {
+    render(<Toolbar dir="rtl" />);
+    act(() => button('Bold').focus());
+
+    fireEvent.keyDown(button('Bold'), { key: 'ArrowLeft' });
+    expect(button('Italic')).toHaveFocus();
+  });
+
+  it('should skip disabled controls and ignore disabled toggles', () => {
+    render(<Toolbar disabled={['italic']} />);
+    act(() => button('Bold').focus());
+
+    fireEvent.keyDown(button('Bold'), { key: 'ArrowRight' });
+    expect(button('Link')).toHaveFocus();
+
+    fireEvent.click(button('Italic'));
+    expect(button('Italic')).toHaveAttribute('aria-pressed', 'false');
+    expect(button('Italic')).toHaveAttribute('aria-disabled', 'true');
+  });
+
+  it('should keep the consumer click handler on plain controls', () => {
+    const onLink = vi.fn();
+    render(<Toolbar onLink={onLink} />);
+
+    fireEvent.click(button('Link'));
+    expect(onLink).toHaveBeenCalled();
+  });
+});
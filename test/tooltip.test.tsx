@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React from 'react';
+import { useTooltip, type UseTooltipOptions } from '../src/index';
+
+// jsdom has no PointerEvent, so fireEvent.pointer* would drop pointerType
+if (typeof window.PointerEvent === 'undefined') {
+  class PointerEvent extends MouseEvent {
+    pointerType: string;
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerType = init.pointerType ?? 'mouse';
+    }
+  }
+  window.PointerEvent = PointerEvent as typeof window.PointerEvent;
+}
+
+const Tooltip = (options: UseTooltipOptions) => {
+  const tooltip = useTooltip(options);
+  return (
+    <div>
+      <span id="hint">Opens in a new tab</span>
+      <button {...tooltip.getTriggerProps({ 'aria-describedby': 'hint' })}>Docs</button>
+      <div {...tooltip.getTooltipProps()}>Read the documentation</div>
+    </div>
+  );
+};
+
+const trigger = () => screen.getByRole('button');
+const tooltip = () => screen.getByRole('tooltip', { hidden: true });
+
+describe('useTooltip', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should describe the trigger, keeping its existing description', () => {
+    render(<Tooltip id="docs-tip" />);
+
+    expect(trigger()).toHaveAttribute('aria-describedby', 'hint docs-tip');
+    expect(trigger()).toHaveAccessibleDescription('Opens in a new tab Read the documentation');
+    expect(tooltip()).not.toBeVisible();
+  });
+
+  it('should label an icon-only trigger in label mode', () => {
+    render(<Tooltip mode="label" />);
+
+    expect(trigger()).toHaveAccessibleName('Read the documentation');
+    expect(trigger()).toHaveAttribute('aria-describedby', 'hint');
+  });
+
+  it('should open after the delay on hover and stay open while hovering the tooltip', () => {
+    render(<Tooltip openDelay={500} closeDelay={200} />);
+
+    fireEvent.pointerEnter(trigger());
+    act(() => vi.advanceTimersByTime(499));
+    expect(tooltip()).not.toBeVisible();
+    act(() => vi.advanceTimersByTime(1));
+    expect(tooltip()).toBeVisible();
+
+    fireEvent.pointerLeave(trigger());
+    fireEvent.pointerEnter(tooltip());
+    act(() => vi.advanceTimersByTime(1000));
+    expect(tooltip()).toBeVisible();
+
+    fireEvent.pointerLeave(tooltip());
+    act(() => vi.advanceTimersByTime(200));
+    expect(tooltip()).not.toBeVisible();
+  });
+
+  it('should open immediately on focus and close on blur', () => {
+    const onOpenChange = vi.fn();
+    render(<Tooltip onOpenChange={onOpenChange} />);
+
+    act(() => trigger().focus());
+    expect(tooltip()).toBeVisible();
+    act(() => trigger().blur());
+    expect(tooltip()).not.toBeVisible();
+    expect(onOpenChange.mock.calls.map(([open]) => open)).toEqual([true, false]);
+  });
+
+  it('should stay open while focused after the pointer leaves', () => {
+    render(<Tooltip />);
+
+    act(() => trigger().focus());
+    fireEvent.pointerEnter(trigger());
+    fireEvent.pointerLeave(trigger());
+    act(() => vi.advanceTimersByTime(1000));
+    expect(tooltip()).toBeVisible();
+  });
+
+  it('should dismiss on Escape without moving focus, claiming the press', () => {
+    render(<Tooltip />);
+
+    const onDocumentKeyDown = vi.fn((event: KeyboardEvent) => event.defaultPrevented);
+    document.addEventListener('keydown', onDocumentKeyDown);
+
+    act(() => trigger().focus());
+    fireEvent.keyDown(trigger(), { key: 'Escape' });
+    expect(tooltip()).not.toBeVisible();
+    expect(onDocumentKeyDown).toHaveReturnedWith(true);
+    document.removeEventListener('keydown', onDocumentKeyDown);
+    expect(trigger()).toHaveFocus();
+  });
+
+  it('should dismiss on Escape while only hovered', () => {
+    render(<Tooltip openDelay={0} />);
+
+    fireEvent.pointerEnter(trigger());
+    act(() => vi.advanceTimersByTime(0));
+    fireEvent.keyDown(document.body, { key: 'Escape' });
+    expect(tooltip()).not.toBeVisible();
+  });
+
+  it('should ignore touch hover and never open when disabled', () => {
+    const { rerender } = render(<Tooltip openDelay={0} />);
+
+    fireEvent.pointerEnter(trigger(), { pointerType: 'touch' });
+    act(() => vi.advanceTimersByTime(0));
+    expect(tooltip()).not.toBeVisible();
+
+    rerender(<Tooltip disabled />);
+    act(() => trigger().focus());
+    expect(tooltip()).not.toBeVisible();
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import React, { useState } from 'react';
+import { flattenTree, useTreeView, type TreeNode, type UseTreeViewOptions } from '../src/index';
+
+const files: TreeNode[] = [
+  {
+    id: 'src',
+    label: 'src',
+    children: [
+      { id: 'index', label: 'index.ts' },
+      { id: 'utils', label: 'utils', children: [{ id: 'dom', label: 'dom.ts' }] },
+    ],
+  },
+  { id: 'test', label: 'test', children: [{ id: 'spec', label: 'spec.ts' }] },
+  { id: 'readme', label: 'README.md' },
+];
+
+const Tree = (options: Partial<UseTreeViewOptions>) => {
+  const tree = useTreeView({ items: files, ...options });
+  const renderNodes = (nodes: TreeNode[]) =>
+    nodes.map((node) => (
+      <li key={node.id} {...tree.getItemProps(node.id)}>
+        <span>{node.label}</span>
+        {tree.isExpanded(node.id) && node.children && (
+          <ul {...tree.getGroupProps()}>{renderNodes(node.children)}</ul>
+        )}
+      </li>
+    ));
+  return (
+    <ul {...tree.getTreeProps()} aria-label="Files">
+      {renderNodes(options.items ?? files)}
+    </ul>
+  );
+};
+
+const item = (label: string) => screen.getByText(label).closest('[role="treeitem"]') as HTMLElement;
+
+const press = (key: string, init: Partial<KeyboardEventInit> = {}) =>
+  fireEvent.keyDown(document.activeElement as Element, { key, ...init });
+
+const focus = (label: string) => act(() => item(label).focus());
+
+describe('flattenTree', () => {
+  it('should compute level, position and set size of visible nodes', () => {
+    const flat = flattenTree(files, ['src']);
+
+    expect(flat.map(({ node }) => node.id)).toEqual(['src', 'index', 'utils', 'test', 'readme']);
+    expect(flat[2]).toMatchObject({ level: 2, posinset: 2, setsize: 2, parentId: 'src' });
+    expect(flat[3]).toMatchObject({ level: 1, posinset: 2, setsize: 3, isBranch: true });
+    expect(flat[4]?.isBranch).toBe(false);
+  });
+});
+
+describe('useTreeView', () => {
+  it('should render tree, treeitem and group roles with computed positions', () => {
+    render(<Tree defaultExpandedIds={['src']} />);
+
+    expect(screen.getByRole('tree')).not.toHaveAttribute('aria-multiselectable');
+    expect(screen.getByRole('group')).toBeInTheDocument();
+    expect(item('utils')).toHaveAttribute('aria-level', '2');
+    expect(item('utils')).toHaveAttribute('aria-posinset', '2');
+    expect(item('utils')).toHaveAttribute('aria-setsize', '2');
+    expect(item('src')).toHaveAttribute('aria-expanded', 'true');
+    expect(item('utils')).toHaveAttribute('aria-expanded', 'false');
+    expect(item('README.md')).not.toHaveAttribute('aria-expanded');
+    expect(item('src')).toHaveAttribute('tabindex', '0');
+    expect(item('test')).toHaveAttribute('tabindex', '-1');
+  });
+
+  it('should move between visible nodes with ArrowDown, ArrowUp, Home and End', () => {
+    render(<Tree defaultExpandedIds={['src']} />);
+    focus('src');
+
+    press('ArrowDown');
+    expect(item('index.ts')).toHaveFocus();
+    press('End');
+    expect(item('README.md')).toHaveFocus();
+    press('ArrowUp');
+    expect(item('test')).toHaveFocus();
+    press('Home');
+    expect(item('src')).toHaveFocus();
+  });
+
+  it('should expand with ArrowRight and then move to the first child', () => {
+    render(<Tree />);
+    focus('src');
+
+    press('ArrowRight');
+    expect(item('src')).toHaveAttribute('aria-expanded', 'true');
+    expect(item('src')).toHaveFocus();
+
+    press('ArrowRight');
+    expect(item('index.ts')).toHaveFocus();
+  });
+
+  it('should move to the parent with ArrowLeft and then collapse it', () => {
+    render(<Tree defaultExpandedIds={['src']} />);
+    focus('index.ts');
+
+    press('ArrowLeft');
+    expect(item('src')).toHaveFocus();
+
+    press('ArrowLeft');
+    expect(item('src')).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByText('index.ts')).not.toBeInTheDocument();
+  });
+
+  it('should expand every sibling branch with *', () => {
+    const onExpandedChange = vi.fn();
+    render(<Tree onExpandedChange={onExpandedChange} />);
+    focus('README.md');
+
+    press('*');
+    expect(onExpandedChange).toHaveBeenCalledWith(['src', 'test']);
+    expect(item('test')).toHaveAttribute('aria-expanded', 'true');
+    expect(item('utils')).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  it('should move focus with type-ahead', () => {
+    render(<Tree />);
+    focus('src');
+
+    press('r');
+    expect(item('README.md')).toHaveFocus();
+  });
+
+  it('should keep unmatched type-ahead keys from reaching ancestor items', () => {
+    const onKeyDown = vi.fn();
+    render(
+      <div onKeyDown={onKeyDown}>
+        <Tree defaultExpandedIds={['src']} />
+      </div>
+    );
+    focus('index.ts');
+
+    press('z');
+    expect(item('index.ts')).toHaveFocus();
+    expect(onKeyDown).not.toHaveBeenCalled();
+  });
+
+  it('should select a single node with Space, Enter and click', () => {
+    const onAction = vi.fn();
+    render(<Tree onAction={onAction} />);
+    focus('test');
+
+    press(' ');
+    expect(item('test')).toHaveAttribute('aria-selected', 'true');
+    expect(item('src')).not.toHaveAttribute('aria-selected');
+
+    press('Enter');
+    expect(onAction).toHaveBeenCalledWith('test');
+
+    fireEvent.click(screen.getByText('README.md'));
+    expect(item('README.md')).toHaveAttribute('aria-selected', 'true');
+    expect(item('test')).not.toHaveAttribute('aria-selected');
+    expect(item('README.md')).toHaveFocus();
+  });
+
+  it('should toggle and extend the selection in a multiple selection tree', () => {
+    const onSelectionChange = vi.fn();
+    render(<Tree multiple defaultExpandedIds={['src']} onSelectionChange={onSelectionChange} />);
+    expect(screen.getByRole('tree')).toHaveAttribute('aria-multiselectable', 'true');
+    expect(item('src')).toHaveAttribute('aria-selected', 'false');
+    focus('src');
+
+    press(' ');
+    press('ArrowDown', { shiftKey: true });
+    press('ArrowDown', { shiftKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['src', 'index', 'utils']);
+
+    press('a', { ctrlKey: true });
+    expect(onSelectionChange).toHaveBeenLastCalledWith(['src', 'index', 'utils', 'test', 'readme']);
+  });
+
+  it('should load lazy children when a branch is first expanded', () => {
+    const LazyTree = () => {
+      const [items, setItems] = useState<TreeNode[]>([
+        { id: 'remote', label: 'remote', hasChildren: true },
+      ]);
+      const onLoadChildren = (id: string) =>
+        setTimeout(() =>
+          setItems((prev) =>
+            prev.map((node) =>
+              node.id === id ? { ...node, children: [{ id: 'file', label: 'file.txt' }] } : node
+            )
+          )
+        );
+      return <Tree items={items} onLoadChildren={onLoadChildren} />;
+    };
+    vi.useFakeTimers();
+    render(<LazyTree />);
+    focus('remote');
+
+    press('ArrowRight');
+    expect(item('remote')).toHaveAttribute('aria-expanded', 'true');
+    expect(item('remote')).toHaveAttribute('aria-busy', 'true');
+
+    act(() => vi.runAllTimers());
+    vi.useRealTimers();
+    expect(item('remote')).not.toHaveAttribute('aria-busy');
+    expect(item('file.txt')).toHaveAttribute('aria-level', '2');
+  });
+
+  it('should skip disabled nodes', () => {
+    const items: TreeNode[] = [
+      { id: 'a', label: 'Alpha' },
+      { id: 'b', label: 'Beta', disabled: true },
+      { id: 'c', label: 'Gamma' },
+    ];
+    render(<Tree items={items} />);
+    focus('Alpha');
+
+    press('ArrowDown');
+    expect(item('Gamma')).toHaveFocus();
+    expect(item('Beta')).toHaveAttribute('aria-disabled', 'true');
+  });
+});
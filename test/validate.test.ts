@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateA11yProps,
+  assertValidA11yProps,
+  A11yValidationError,
+  createCheckedProps,
+  createDisclosureProps,
+  createLiveRegion,
+  disabledProps,
+  statusMessageProps,
+} from '../src/index';
+
+const codes = (props: object, implicitRole?: string) =>
+  validateA11yProps(props, { implicitRole }).diagnostics.map((d) => [
+    d.code,
+    d.attribute ?? d.role,
+  ]);
+
+describe('validateA11yProps', () => {
+  it('should accept props produced by the factories', () => {
+    expect(validateA11yProps(statusMessageProps).valid).toBe(true);
+    expect(validateA11yProps(createLiveRegion({ atomic: true })).valid).toBe(true);
+    expect(validateA11yProps({ role: 'checkbox', ...createCheckedProps('mixed') }).valid).toBe(
+      true
+    );
+    expect(
+      validateA11yProps(
+        { ...createDisclosureProps(true, 'panel'), ...disabledProps },
+        {
+          implicitRole: 'button',
+        }
+      ).valid
+    ).toBe(true);
+  });
+
+  it('should report the resolved role', () => {
+    expect(validateA11yProps({ role: 'switch checkbox', 'aria-checked': 'true' }).role).toBe(
+      'switch'
+    );
+    expect(validateA11yProps({}).role).toBeNull();
+  });
+
+  it('should report unknown and abstract roles', () => {
+    expect(codes({ role: 'buton' })).toEqual([['unknown-role', 'buton']]);
+    expect(codes({ role: 'widget' })).toEqual([['abstract-role', 'widget']]);
+  });
+
+  it('should warn about deprecated roles and attributes without failing', () => {
+    const result = validateA11yProps({ role: 'directory', 'aria-grabbed': 'false' });
+    expect(result.valid).toBe(true);
+    expect(result.diagnostics.map((d) => d.code)).toEqual([
+      'deprecated-role',
+      'deprecated-attribute',
+    ]);
+  });
+
+  it('should report unknown attributes', () => {
+    expect(codes({ 'aria-lable': 'Close' })).toEqual([['unknown-attribute', 'aria-lable']]);
+  });
+
+  it('should report attributes the role does not support', () => {
+    expect(codes({ role: 'button', 'aria-checked': 'true' })).toEqual([
+      ['unsupported-attribute', 'aria-checked'],
+    ]);
+    expect(codes({ 'aria-checked': 'true' }, 'button')).toEqual([
+      ['unsupported-attribute', 'aria-checked'],
+    ]);
+  });
+
+  it('should allow global attributes on every role', () => {
+    expect(
+      validateA11yProps({ role: 'img', 'aria-label': 'Logo', 'aria-hidden': true }).valid
+    ).toBe(true);
+  });
+
+  it('should report prohibited attributes', () => {
+    expect(codes({ role: 'generic', 'aria-label': 'Wrapper' })).toEqual([
+      ['prohibited-attribute', 'aria-label'],
+    ]);
+    expect(codes({ role: 'presentation', 'aria-labelledby': 'title' })).toEqual([
+      ['prohibited-attribute', 'aria-labelledby'],
+    ]);
+  });
+
+  it('should report missing required attributes for explicit roles only', () => {
+    expect(codes({ role: 'slider', 'aria-valuemin': 0, 'aria-valuemax': 10 })).toEqual([
+      ['missing-required-attribute', 'aria-valuenow'],
+    ]);
+    expect(codes({ role: 'combobox', 'aria-expanded': 'false' })).toEqual([
+      ['missing-required-attribute', 'aria-controls'],
+    ]);
+    expect(codes({}, 'checkbox')).toEqual([]);
+    expect(codes({ role: 'option' })).toEqual([]);
+    expect(codes({ role: 'option', 'aria-selected': 'true' })).toEqual([]);
+  });
+
+  it('should treat undefined values as absent', () => {
+    expect(codes({ role: 'slider', 'aria-valuenow': undefined })).toEqual([
+      ['missing-required-attribute', 'aria-valuenow'],
+    ]);
+  });
+
+  it.each([
+    ['aria-hidden', 'yes'],
+    ['aria-checked', 'partial'],
+    ['aria-level', 1.5],
+    ['aria-valuenow', 'ten'],
+    ['aria-live', 'rude'],
+    ['aria-relevant', 'additions everything'],
+    ['aria-activedescendant', 'two ids'],
+    ['aria-label', true],
+  ])('should report %s=%j as an invalid value', (attribute, value) => {
+    const [diagnostic] = validateA11yProps({ [attribute]: value }).diagnostics;
+    expect(diagnostic?.code).toBe('invalid-value');
+    expect(diagnostic?.attribute).toBe(attribute);
+  });
+
+  it.each([
+    ['aria-hidden', true],
+    ['aria-expanded', 'undefined'],
+    ['aria-level', 2],
+    ['aria-level', '3'],
+    ['aria-valuenow', 0.5],
+    ['aria-relevant', 'additions text'],
+    ['aria-current', 'page'],
+    ['aria-describedby', 'hint error'],
+  ])('should accept %s=%j', (attribute, value) => {
+    expect(validateA11yProps({ [attribute]: value }).valid).toBe(true);
+  });
+
+  it('should link diagnostics to the spec', () => {
+    const [diagnostic] = validateA11yProps({ role: 'slider' }).diagnostics;
+    expect(diagnostic?.specUrl).toBe('https://www.w3.org/TR/wai-aria-1.2/#slider');
+  });
+
+  it('should ignore non-ARIA props', () => {
+    expect(validateA11yProps({ id: 'x', tabIndex: 0, onClick: () => {} }).valid).toBe(true);
+  });
+});
+
+describe('assertValidA11yProps', () => {
+  it('should not throw for valid props', () => {
+    expect(() => assertValidA11yProps({ role: 'directory' })).not.toThrow();
+  });
+
+  it('should throw an A11yValidationError listing the errors', () => {
+    let error: unknown;
+    try {
+      assertValidA11yProps({ role: 'slider', 'aria-label': 'Volume', 'aria-checked': 'true' });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(A11yValidationError);
+    const { diagnostics, message } = error as A11yValidationError;
+    expect(diagnostics.map((d) => d.code)).toEqual([
+      'unsupported-attribute',
+      'missing-required-attribute',
+    ]);
+    expect(message).toContain('Role "slider" requires "aria-valuenow".');
+  });
+});